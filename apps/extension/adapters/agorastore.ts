@@ -1,6 +1,22 @@
-import type { AuctionData, AuctionFees, Currency, MutationObserverConfig } from '@auction-comparator/shared'
-import { calculateTotalPrice } from '@auction-comparator/shared'
+import type {
+  AuctionData,
+  AuctionFees,
+  Currency,
+  ListingLot,
+  MutationObserverConfig,
+  VehicleAttributes,
+  VehicleGearbox,
+} from '@auction-comparator/shared'
+import {
+  calculateTotalPrice,
+  extractFrenchRegistration,
+  extractVin,
+  parseVehicleAttributes,
+  parseVehicleFuel,
+  parseVehicleGearbox,
+} from '@auction-comparator/shared'
 import { BaseAdapter } from './base'
+import { getFeeProfile } from '@/utils/feeProfiles'
 
 /**
  * Vehicle specifications extracted from page data
@@ -12,6 +28,7 @@ interface VehicleSpecs {
   fuel?: string
   version?: string
   mileage?: number
+  gearbox?: VehicleGearbox
 }
 
 /**
@@ -27,10 +44,7 @@ export class AgorastoreAdapter extends BaseAdapter {
   ]
   defaultCurrency: Currency = 'EUR'
   defaultLocale = 'fr'
-  defaultFees: AuctionFees = {
-    buyerPremium: 0.10, // 10% typical buyer's premium
-    vat: 0, // VAT usually included
-  }
+  defaultFees: AuctionFees = getFeeProfile('agorastore')
 
   private selectors = {
     // Title extraction
@@ -54,6 +68,13 @@ export class AgorastoreAdapter extends BaseAdapter {
     // Description/condition
     description: '.product-description, .description-content, [class*="description"]',
     condition: '[class*="condition"], [class*="etat"], .product-state',
+
+    // Category and search result lot cards
+    listing: {
+      card: '.product-item, .product-card, [class*="product-list"] li, [class*="search-result"] article',
+      title: '.product-title, .product-name, [class*="title"], h2, h3',
+      price: '.product-price, .current-price, [class*="price"], [class*="prix"]',
+    },
   }
 
   isLotPage(): boolean {
@@ -75,6 +96,17 @@ export class AgorastoreAdapter extends BaseAdapter {
     return isLotUrl
   }
 
+  isListingPage(): boolean {
+    // Category pages (/vente-occasion/vehicules-legers-2-roues/) and searches list lot cards
+    return !this.isLotPage() && document.querySelectorAll(this.selectors.listing.card).length > 1
+  }
+
+  extractListing(): ListingLot[] {
+    const lots = this.extractListingCards(this.selectors.listing)
+    console.log('[Agorastore Adapter] Extracted', lots.length, 'lot cards')
+    return lots
+  }
+
   extractData(): AuctionData | null {
     console.log('[Agorastore Adapter] Attempting to extract data...')
     console.log('[Agorastore Adapter] URL:', window.location.href)
@@ -182,24 +214,27 @@ export class AgorastoreAdapter extends BaseAdapter {
     }
 
     // Detect category
-    const category = this.detectCategory(title, description)
+    const category = this.detectCategoryFromBreadcrumbs() ?? this.detectCategory(title, description)
 
     // Calculate total price with fees
-    const totalPrice = calculateTotalPrice(currentBid, this.defaultFees)
+    const fees = this.getLotFees()
+    const totalPrice = calculateTotalPrice(currentBid, fees)
 
     // Extract year from specs
     const year = specsUsed?.year
+    const vehicle = this.withVehicleIdentity(specsUsed ? this.toVehicleAttributes(specsUsed) : undefined)
 
     const data: AuctionData = {
       title,
       brand,
       model,
       year,
+      vehicle,
       category,
       condition,
       currentBid,
       currency: this.defaultCurrency,
-      fees: this.defaultFees,
+      fees,
       totalPrice,
       siteDomain: this.getDomain(),
       locale: this.defaultLocale,
@@ -345,6 +380,7 @@ export class AgorastoreAdapter extends BaseAdapter {
           const fuelMatch = content.match(/["'](?:energie|carburant|fuel|fuelType)["']\s*:\s*["']([^"']+)["']/i)
           const versionMatch = content.match(/["'](?:version|finition)["']\s*:\s*["']([^"']+)["']/i)
           const mileageMatch = content.match(/["'](?:kilometrage|mileage|km)["']\s*:\s*["']?(\d+)/i)
+          const gearboxMatch = content.match(/["'](?:boite|boiteVitesse|transmission|gearbox)["']\s*:\s*["']([^"']+)["']/i)
 
           const specs: VehicleSpecs = {
             brand,
@@ -353,6 +389,7 @@ export class AgorastoreAdapter extends BaseAdapter {
             fuel: fuelMatch ? this.normalizeFuelType(fuelMatch[1]) : undefined,
             version: versionMatch ? versionMatch[1].trim() : undefined,
             mileage: mileageMatch ? parseInt(mileageMatch[1]) : undefined,
+            gearbox: gearboxMatch ? parseVehicleGearbox(gearboxMatch[1]) : undefined,
           }
 
           console.log('[Agorastore Adapter] Found vehicle specs:', specs)
@@ -381,6 +418,36 @@ export class AgorastoreAdapter extends BaseAdapter {
     return null
   }
 
+  /**
+   * Map scraped specs to the vehicle attributes sent for comparison
+   */
+  private toVehicleAttributes(specs: VehicleSpecs): VehicleAttributes {
+    return {
+      mileageKm: specs.mileage,
+      year: specs.year,
+      fuel: specs.fuel ? parseVehicleFuel(specs.fuel) : undefined,
+      gearbox: specs.gearbox,
+    }
+  }
+
+  /**
+   * Add the VIN and plate from the embedded data or the lot description
+   * The server decodes the VIN into make, model year and plant.
+   */
+  private withVehicleIdentity(attributes?: VehicleAttributes): VehicleAttributes | undefined {
+    const scriptText = Array.from(document.querySelectorAll('script:not([src])'), s => s.textContent || '').join('\n')
+    const embeddedVin = scriptText.match(/["'](?:vin|numeroSerie|numSerie)["']\s*:\s*["']([A-HJ-NPR-Z0-9]{17})["']/i)?.[1]
+    const pageText = document.body.innerText
+
+    const vin = embeddedVin?.toUpperCase() || extractVin(pageText)
+    const registration = extractFrenchRegistration(pageText)
+
+    if (!vin && !registration) return attributes
+
+    console.log('[Agorastore Adapter] Found vehicle identity:', { vin, registration })
+    return { ...attributes, vin, registration }
+  }
+
   /**
    * Normalize fuel type string to a clean format
    */
@@ -577,9 +644,12 @@ export class AgorastoreAdapter extends BaseAdapter {
       else if (slug.includes('electrique') || slug.includes('électrique')) fuel = 'électrique'
       else if (slug.includes('diesel')) fuel = 'diesel'
 
+      // Mileage and gearbox as written in the slug ("123-000-kms", "boite-auto")
+      const { mileageKm: mileage, gearbox } = parseVehicleAttributes(parts.join(' '))
+
       if (brand && model) {
-        console.log('[Agorastore Adapter] Extracted from URL slug:', { brand, model, year, fuel })
-        return { brand, model, year, fuel }
+        console.log('[Agorastore Adapter] Extracted from URL slug:', { brand, model, year, fuel, mileage, gearbox })
+        return { brand, model, year, fuel, mileage, gearbox }
       }
     } catch (e) {
       console.error('[Agorastore Adapter] URL slug extraction error:', e)
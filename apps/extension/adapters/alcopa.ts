@@ -1,6 +1,7 @@
-import type { AuctionData, AuctionFees, Currency, MutationObserverConfig } from '@auction-comparator/shared'
-import { calculateTotalPrice } from '@auction-comparator/shared'
+import type { AuctionData, AuctionFees, Currency, MutationObserverConfig, VehicleAttributes } from '@auction-comparator/shared'
+import { calculateTotalPrice, extractFrenchRegistration, extractVin } from '@auction-comparator/shared'
 import { BaseAdapter } from './base'
+import { getFeeProfile } from '@/utils/feeProfiles'
 
 /**
  * Adapter for Alcopa Auction website (vehicles)
@@ -15,11 +16,7 @@ export class AlcopaAdapter extends BaseAdapter {
   ]
   defaultCurrency: Currency = 'EUR'
   defaultLocale = 'fr'
-  // Alcopa shows "Frais inclus" so fees are already included in the price
-  defaultFees: AuctionFees = {
-    buyerPremium: 0,
-    vat: 0,
-  }
+  defaultFees: AuctionFees = getFeeProfile('alcopa')
 
   isLotPage(): boolean {
     const url = window.location.href.toLowerCase()
@@ -101,25 +98,25 @@ export class AlcopaAdapter extends BaseAdapter {
     // Extract lot ID from URL (last part after the last dash)
     const lotId = this.extractLotIdFromUrl()
 
-    // Check if fees are included
-    const feesIncluded = document.body.innerText.toLowerCase().includes('frais inclus')
-
-    // For Alcopa, price shown is the total (fees included)
-    const totalPrice = currentBid
+    // For Alcopa, price shown is the total ("Frais inclus"), unless the page says otherwise
+    const fees = this.getLotFees()
+    const totalPrice = calculateTotalPrice(currentBid, fees)
 
     // Extract year from page content or title
     const year = this.extractYear(title)
+    const vehicle = this.extractVehicleIdentity()
 
     const data: AuctionData = {
       title,
       brand,
       model: model || undefined,
       year,
+      vehicle,
       category: 'vehicle', // Alcopa is a vehicle auction site
       condition: 'good', // Vehicles are typically used
       currentBid,
       currency: this.defaultCurrency,
-      fees: this.defaultFees,
+      fees,
       totalPrice,
       siteDomain: this.getDomain(),
       locale: this.defaultLocale,
@@ -165,6 +162,21 @@ export class AlcopaAdapter extends BaseAdapter {
     return undefined
   }
 
+  /**
+   * Read the VIN and plate shown in the vehicle details
+   * The server decodes the VIN into make, model year and plant.
+   */
+  private extractVehicleIdentity(): VehicleAttributes | undefined {
+    const pageText = document.body.innerText
+    const vin = extractVin(pageText)
+    const registration = extractFrenchRegistration(pageText)
+
+    if (!vin && !registration) return undefined
+
+    console.log('[Alcopa Adapter] Found vehicle identity:', { vin, registration })
+    return { vin, registration }
+  }
+
   private extractYear(title: string): number | undefined {
     // Try to find year in title (e.g., "2019", "2020")
     const yearMatch = title.match(/\b(20\d{2}|19\d{2})\b/)
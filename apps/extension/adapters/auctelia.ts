@@ -1,6 +1,7 @@
 import type { AuctionData, AuctionFees, Currency, MutationObserverConfig } from '@auction-comparator/shared'
 import { calculateTotalPrice } from '@auction-comparator/shared'
 import { BaseAdapter } from './base'
+import { getFeeProfile } from '@/utils/feeProfiles'
 
 /**
  * Adapter for Auctelia auction site
@@ -15,10 +16,7 @@ export class AucteliaAdapter extends BaseAdapter {
   ]
   defaultCurrency: Currency = 'EUR'
   defaultLocale = 'fr'
-  defaultFees: AuctionFees = {
-    buyerPremium: 0.15, // 15% typical buyer's premium
-    vat: 0, // VAT usually included
-  }
+  defaultFees: AuctionFees = getFeeProfile('auctelia')
 
   private selectors = {
     // Title extraction - Auctelia uses various title patterns
@@ -228,13 +226,14 @@ export class AucteliaAdapter extends BaseAdapter {
     const { brand, model } = this.extractBrandModel(title)
 
     // Detect category (Auctelia is mostly industrial equipment)
-    const category = this.detectCategory(title, description)
+    const category = this.detectCategoryFromBreadcrumbs() ?? this.detectCategory(title, description)
 
     // Extract year (for vehicles/equipment)
     const year = category === 'vehicle' ? this.extractYear(title, description) : undefined
 
     // Calculate total price with fees
-    const totalPrice = calculateTotalPrice(currentBid, this.defaultFees)
+    const fees = this.getLotFees()
+    const totalPrice = calculateTotalPrice(currentBid, fees)
 
     const data: AuctionData = {
       title,
@@ -245,7 +244,7 @@ export class AucteliaAdapter extends BaseAdapter {
       condition,
       currentBid,
       currency: this.defaultCurrency,
-      fees: this.defaultFees,
+      fees,
       totalPrice,
       siteDomain: this.getDomain(),
       locale,
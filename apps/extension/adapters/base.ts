@@ -6,8 +6,23 @@ import type {
   ItemCondition,
   MutationObserverConfig,
   ExtractionConfidence,
+  ItemCategory,
+  ListingLot,
 } from '@auction-comparator/shared'
-import { calculateExtractionConfidence } from '@auction-comparator/shared'
+import { calculateExtractionConfidence, calculateTotalPrice, detectCategoryFromText } from '@auction-comparator/shared'
+import { applyParsedFees, collectFeeCandidates, parseFeeTexts, parsePrice } from '@/extractor'
+
+/**
+ * Selectors for the lot cards of a sale catalog page
+ */
+export interface ListingSelectors {
+  /** Lot card container */
+  card: string;
+  /** Lot title inside a card */
+  title: string;
+  /** Current bid or starting price inside a card */
+  price: string;
+}
 
 export abstract class BaseAdapter implements SiteAdapter {
 
@@ -91,6 +106,94 @@ export abstract class BaseAdapter implements SiteAdapter {
     return window.location.href
   }
 
+  /**
+   * Breadcrumb labels of the lot page: schema.org BreadcrumbList data first,
+   * then breadcrumb navigation elements
+   */
+  protected getBreadcrumbs(): string[] {
+    for (const script of document.querySelectorAll('script[type="application/ld+json"]')) {
+      try {
+        const data = JSON.parse(script.textContent || '')
+        const items = Array.isArray(data) ? data : [data]
+        const list = items.find(item => item?.['@type'] === 'BreadcrumbList')
+        if (Array.isArray(list?.itemListElement)) {
+          return list.itemListElement
+            .map((el: { name?: string; item?: { name?: string } }) => el.name || el.item?.name || '')
+            .filter(Boolean)
+        }
+      } catch {
+        // Malformed JSON-LD, try the next block
+      }
+    }
+
+    const elements = document.querySelectorAll(
+      'nav[aria-label*="readcrumb"] a, nav[aria-label*="ariane"] a, .breadcrumb a, .breadcrumb li, [class*="breadcrumb"] a, [itemtype*="BreadcrumbList"] [itemprop="name"]'
+    )
+    return Array.from(elements, el => el.textContent?.trim() || '').filter(Boolean)
+  }
+
+  /**
+   * Category named by the lot page's breadcrumbs ("Véhicules", "Vins & Spiritueux")
+   * Returns undefined when no breadcrumb names a registered category.
+   */
+  protected detectCategoryFromBreadcrumbs(): ItemCategory | undefined {
+    const breadcrumbs = this.getBreadcrumbs()
+    if (breadcrumbs.length === 0) return undefined
+
+    const category = detectCategoryFromText(breadcrumbs.join(' | '))
+    console.log('[Adapter] Breadcrumbs:', breadcrumbs, '-> category:', category)
+    return category
+  }
+
+  /**
+   * Fees for the current lot: statements printed on the page override the
+   * site defaults; `extractionConfidence` on the result says which was used
+   */
+  protected getLotFees(): AuctionFees {
+    const parsed = parseFeeTexts(collectFeeCandidates().map(c => c.text))
+    return applyParsedFees(this.defaultFees, parsed)
+  }
+
+  /**
+   * Read lightweight lot data from the cards of a catalog page
+   * Cards without a link or title are skipped; fees are the site defaults
+   * since per-lot fee statements only appear on lot pages
+   */
+  protected extractListingCards(selectors: ListingSelectors): ListingLot[] {
+    const lots: ListingLot[] = []
+    const seen = new Set<string>()
+
+    for (const card of document.querySelectorAll(selectors.card)) {
+      const link = card instanceof HTMLAnchorElement ? card : card.querySelector<HTMLAnchorElement>('a[href]')
+      const title = card.querySelector(selectors.title)?.textContent?.trim()
+      if (!link?.href || !title || seen.has(link.href)) continue
+      seen.add(link.href)
+
+      const priceText = card.querySelector(selectors.price)?.textContent?.trim()
+      const currentBid = (priceText && parsePrice(priceText)?.value) || 0
+      const fees = { ...this.defaultFees }
+
+      lots.push({
+        element: card,
+        data: {
+          title,
+          condition: 'unknown',
+          currentBid,
+          currency: this.defaultCurrency,
+          fees,
+          totalPrice: calculateTotalPrice(currentBid, fees),
+          siteDomain: this.getDomain(),
+          locale: this.defaultLocale,
+          lotUrl: link.href,
+          extractionConfidence: 'low',
+          extractedAt: Date.now(),
+        },
+      })
+    }
+
+    return lots
+  }
+
   /**
    * Calculate extraction confidence based on available data
    */
@@ -1,5 +1,7 @@
 import type { AuctionData, AuctionFees, Currency, MutationObserverConfig } from '@auction-comparator/shared'
+import { calculateTotalPrice } from '@auction-comparator/shared'
 import { BaseAdapter } from './base'
+import { getFeeProfile } from '@/utils/feeProfiles'
 
 /**
  * Adapter for encheres-domaine.gouv.fr (French government auction site)
@@ -13,11 +15,7 @@ export class EncheresDomaineAdapter extends BaseAdapter {
   ]
   defaultCurrency: Currency = 'EUR'
   defaultLocale = 'fr'
-  // Government auctions typically have 15% buyer premium
-  defaultFees: AuctionFees = {
-    buyerPremium: 0.15,
-    vat: 0,
-  }
+  defaultFees: AuctionFees = getFeeProfile('encheres-domaine')
 
   isLotPage(): boolean {
     const url = window.location.href.toLowerCase()
@@ -76,8 +74,8 @@ export class EncheresDomaineAdapter extends BaseAdapter {
     const finalPrice = currentBid || 0
     console.log('[EncheresDomaineAdapter] finalPrice:', finalPrice)
 
-    // Detect category from title
-    const category = this.detectCategory(finalTitle)
+    // Detect category from breadcrumbs, then title
+    const category = this.detectCategoryFromBreadcrumbs() ?? this.detectCategory(finalTitle)
 
     // Extract brand if it's a vehicle
     const brand = this.extractBrand(finalTitle)
@@ -94,9 +92,10 @@ export class EncheresDomaineAdapter extends BaseAdapter {
     // Extract condition from description
     const condition = this.parseCondition(finalTitle)
 
-    // Calculate total with buyer premium
-    const totalPrice = finalPrice * (1 + this.defaultFees.buyerPremium)
-    console.log('[EncheresDomaineAdapter] Calculated totalPrice:', totalPrice, '(finalPrice:', finalPrice, '* 1.15)')
+    // Calculate total with fees
+    const fees = this.getLotFees()
+    const totalPrice = calculateTotalPrice(finalPrice, fees)
+    console.log('[EncheresDomaineAdapter] Calculated totalPrice:', totalPrice, '(finalPrice:', finalPrice, ')')
 
     const data: AuctionData = {
       title: this.cleanTitle(finalTitle),
@@ -107,7 +106,7 @@ export class EncheresDomaineAdapter extends BaseAdapter {
       condition,
       currentBid: finalPrice,
       currency: this.defaultCurrency,
-      fees: this.defaultFees,
+      fees,
       totalPrice,
       siteDomain: this.getDomain(),
       locale: this.defaultLocale,
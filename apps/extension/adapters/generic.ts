@@ -1,6 +1,7 @@
 import type { AuctionData, AuctionFees, Currency } from '@auction-comparator/shared'
 import { calculateTotalPrice } from '@auction-comparator/shared'
 import { BaseAdapter } from './base'
+import { getFeeProfile } from '@/utils/feeProfiles'
 
 /**
  * Generic fallback adapter that attempts to extract auction data
@@ -13,9 +14,7 @@ export class GenericAdapter extends BaseAdapter {
   urlPatterns = [/.*/] // Matches any URL
   defaultCurrency: Currency = 'EUR'
   defaultLocale = 'en'
-  defaultFees: AuctionFees = {
-    buyerPremium: 0.20, // Assume 20% premium
-  }
+  defaultFees: AuctionFees = getFeeProfile('generic')
 
   // Common selectors found across auction sites
   private commonSelectors = {
@@ -80,10 +79,11 @@ export class GenericAdapter extends BaseAdapter {
     const description = this.findText(this.commonSelectors.description) || undefined
 
     // Detect if this looks like a vehicle and extract year
-    const category = this.detectCategory(title, description)
+    const category = this.detectCategoryFromBreadcrumbs() ?? this.detectCategory(title, description)
     const year = category === 'vehicle' ? this.extractYear(title, description) : undefined
 
-    const totalPrice = calculateTotalPrice(currentBid, this.defaultFees)
+    const fees = this.getLotFees()
+    const totalPrice = calculateTotalPrice(currentBid, fees)
 
     return {
       title,
@@ -92,7 +92,7 @@ export class GenericAdapter extends BaseAdapter {
       condition: 'unknown',
       currentBid,
       currency,
-      fees: this.defaultFees,
+      fees,
       totalPrice,
       siteDomain: this.getDomain(),
       locale: this.detectLocale(),
@@ -1,6 +1,7 @@
-import type { AuctionData, AuctionFees, Currency, MutationObserverConfig } from '@auction-comparator/shared'
+import type { AuctionData, AuctionFees, Currency, ListingLot, MutationObserverConfig } from '@auction-comparator/shared'
 import { calculateTotalPrice } from '@auction-comparator/shared'
 import { BaseAdapter } from './base'
+import { getFeeProfile } from '@/utils/feeProfiles'
 
 /**
  * Adapter for Interencheres auction site
@@ -16,10 +17,7 @@ export class InterencheresAdapter extends BaseAdapter {
   ]
   defaultCurrency: Currency = 'EUR'
   defaultLocale = 'fr'
-  defaultFees: AuctionFees = {
-    buyerPremium: 0.25, // 25% typical buyer's premium
-    vat: 0, // VAT usually included
-  }
+  defaultFees: AuctionFees = getFeeProfile('interencheres')
 
   // TODO: Verify these selectors against the live Interencheres site
   // These are common patterns that might work
@@ -46,6 +44,13 @@ export class InterencheresAdapter extends BaseAdapter {
     // Description/condition
     description: '[class*="description"], [class*="detail"]',
     condition: '[class*="condition"], [class*="etat"]',
+
+    // Sale catalog lot cards
+    listing: {
+      card: '[class*="lot-card"], [class*="lot-item"], [class*="LotCard"]',
+      title: '[class*="title"], [class*="titre"], h2, h3',
+      price: '[class*="price"], [class*="prix"], [class*="estimation"]',
+    },
   }
 
   isLotPage(): boolean {
@@ -67,6 +72,17 @@ export class InterencheresAdapter extends BaseAdapter {
     return isLotUrl
   }
 
+  isListingPage(): boolean {
+    // Sale catalog pages show a grid of lot cards linking to lot pages
+    return !this.isLotPage() && document.querySelectorAll(this.selectors.listing.card).length > 1
+  }
+
+  extractListing(): ListingLot[] {
+    const lots = this.extractListingCards(this.selectors.listing)
+    console.log('[Interencheres Adapter] Extracted', lots.length, 'lot cards')
+    return lots
+  }
+
   extractData(): AuctionData | null {
     console.log('[Interencheres Adapter] Attempting to extract data...')
     console.log('[Interencheres Adapter] URL:', window.location.href)
@@ -231,13 +247,14 @@ export class InterencheresAdapter extends BaseAdapter {
     const { brand, model } = this.extractBrandModel(title)
 
     // Detect if this is a vehicle listing
-    const category = this.detectCategory(title, description)
+    const category = this.detectCategoryFromBreadcrumbs() ?? this.detectCategory(title, description)
 
     // Extract year (for vehicles)
     const year = category === 'vehicle' ? this.extractYear(title, description) : undefined
 
     // Calculate total price with fees
-    const totalPrice = calculateTotalPrice(currentBid, this.defaultFees)
+    const fees = this.getLotFees()
+    const totalPrice = calculateTotalPrice(currentBid, fees)
 
     const data: AuctionData = {
       title,
@@ -248,7 +265,7 @@ export class InterencheresAdapter extends BaseAdapter {
       condition,
       currentBid,
       currency: this.defaultCurrency,
-      fees: this.defaultFees,
+      fees,
       totalPrice,
       siteDomain: this.getDomain(),
       locale: this.defaultLocale,
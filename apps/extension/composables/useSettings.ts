@@ -35,6 +35,10 @@ export function useSettings() {
     await updateSettings({ marginPercent })
   }
 
+  async function setTransportCost(transportCost: number) {
+    await updateSettings({ transportCost })
+  }
+
   async function toggleDomainEnabled(domain: string) {
     if (!settings.value) return
 
@@ -56,6 +60,7 @@ export function useSettings() {
     toggleEnabled,
     setApiBase,
     setMarginPercent,
+    setTransportCost,
     toggleDomainEnabled,
   }
 }
@@ -1,12 +1,22 @@
 import type {
   AuctionData,
+  CacheFeedbackResponse,
+  CachedCompareResponse,
+  CompareBatchResponse,
+  CompareProbeResponse,
   CompareRequest,
   CompareResponse,
   CompareError,
+  ExtractResolveResponse,
   MeResponse,
   UsageResponse,
   HistoryResponse,
+  PriceTrendResponse,
+  AuctionResultsResponse,
+  WatchlistResponse,
+  WatchLotResponse,
 } from '@auction-comparator/shared'
+import { parseMetalAttributes } from '@auction-comparator/shared'
 import type {
   CompareRequestMessage,
   CompareResponseMessage,
@@ -20,6 +30,34 @@ import type {
   HistoryResponseMessage,
   HistoryErrorMessage,
   ForceRefreshRequestMessage,
+  WatchlistResponseMessage,
+  WatchlistErrorMessage,
+  WatchLotMessage,
+  WatchLotResponseMessage,
+  WatchLotErrorMessage,
+  UnwatchLotMessage,
+  TrendsRequestMessage,
+  TrendsResponseMessage,
+  TrendsErrorMessage,
+  RecordAuctionResultMessage,
+  AuctionResultsRequestMessage,
+  AuctionResultsResponseMessage,
+  AuctionResultsErrorMessage,
+  CachedCompareRequestMessage,
+  CachedCompareResponseMessage,
+  CachedCompareErrorMessage,
+  BatchCompareRequestMessage,
+  BatchCompareResponseMessage,
+  BatchCompareErrorMessage,
+  ProbeCompareRequestMessage,
+  ProbeCompareResponseMessage,
+  ProbeCompareErrorMessage,
+  FlagResultMessage,
+  FlagResultResponseMessage,
+  FlagResultErrorMessage,
+  ExtractResolveRequestMessage,
+  ExtractResolveResponseMessage,
+  ExtractResolveErrorMessage,
 } from '@/utils/messaging'
 import {
   getSettings,
@@ -28,7 +66,10 @@ import {
   updateFromMeResponse,
   needsAuthRefresh,
   clearApiToken,
+  getNotifiedVerdictChanges,
+  saveNotifiedVerdictChanges,
 } from '@/utils/storage'
+import { i18n } from '@/utils/i18n'
 
 // In-flight request deduplication
 const pendingRequests = new Map<string, Promise<CompareResponse>>()
@@ -45,10 +86,15 @@ export default defineBackground(() => {
 
   // Set up periodic auth check (every 6 hours)
   browser.alarms.create('authCheck', { periodInMinutes: 6 * 60 })
+  // Poll the watchlist for verdict changes (every 15 minutes)
+  browser.alarms.create('watchlistPoll', { periodInMinutes: 15 })
   browser.alarms.onAlarm.addListener((alarm) => {
     if (alarm.name === 'authCheck') {
       checkAuthStatus()
     }
+    if (alarm.name === 'watchlistPoll') {
+      pollWatchlist()
+    }
   })
 
   // Handle messages from content scripts
@@ -130,6 +176,173 @@ export default defineBackground(() => {
         })
       return true
     }
+
+    if (message.type === 'TRENDS_REQUEST') {
+      handleTrendsRequest(message as TrendsRequestMessage)
+        .then((response) => sendResponse(response))
+        .catch((error) => {
+          console.error('[Auction Comparator] Trends request failed:', error)
+          sendResponse({
+            type: 'TRENDS_RESPONSE',
+            success: false,
+            error: {
+              code: 'API_ERROR',
+              message: error instanceof Error ? error.message : 'Unknown error',
+            },
+          } satisfies TrendsErrorMessage)
+        })
+      return true
+    }
+
+    if (message.type === 'CACHED_COMPARE_REQUEST') {
+      handleCachedCompareRequest(message as CachedCompareRequestMessage)
+        .then((response) => sendResponse(response))
+        .catch((error) => {
+          console.error('[Auction Comparator] Cached compare request failed:', error)
+          sendResponse({
+            type: 'CACHED_COMPARE_RESPONSE',
+            success: false,
+            error: {
+              code: 'API_ERROR',
+              message: error instanceof Error ? error.message : 'Unknown error',
+            },
+          } satisfies CachedCompareErrorMessage)
+        })
+      return true
+    }
+
+    if (message.type === 'BATCH_COMPARE_REQUEST') {
+      handleBatchCompareRequest(message as BatchCompareRequestMessage)
+        .then((response) => sendResponse(response))
+        .catch((error) => {
+          console.error('[Auction Comparator] Batch compare request failed:', error)
+          sendResponse({
+            type: 'BATCH_COMPARE_RESPONSE',
+            success: false,
+            error: {
+              code: 'API_ERROR',
+              message: error instanceof Error ? error.message : 'Unknown error',
+            },
+          } satisfies BatchCompareErrorMessage)
+        })
+      return true
+    }
+
+    if (message.type === 'PROBE_COMPARE_REQUEST') {
+      handleProbeCompareRequest(message as ProbeCompareRequestMessage)
+        .then((response) => sendResponse(response))
+        .catch((error) => {
+          console.error('[Auction Comparator] Compare probe failed:', error)
+          sendResponse({
+            type: 'PROBE_COMPARE_RESPONSE',
+            success: false,
+            error: {
+              code: 'API_ERROR',
+              message: error instanceof Error ? error.message : 'Unknown error',
+            },
+          } satisfies ProbeCompareErrorMessage)
+        })
+      return true
+    }
+
+    if (message.type === 'AUCTION_RESULTS_REQUEST') {
+      handleAuctionResultsRequest(message as AuctionResultsRequestMessage)
+        .then((response) => sendResponse(response))
+        .catch((error) => {
+          console.error('[Auction Comparator] Auction results request failed:', error)
+          sendResponse({
+            type: 'AUCTION_RESULTS_RESPONSE',
+            success: false,
+            error: {
+              code: 'API_ERROR',
+              message: error instanceof Error ? error.message : 'Unknown error',
+            },
+          } satisfies AuctionResultsErrorMessage)
+        })
+      return true
+    }
+
+    if (message.type === 'RECORD_AUCTION_RESULT') {
+      handleRecordAuctionResult(message as RecordAuctionResultMessage)
+        .then(() => sendResponse({ success: true }))
+        .catch((error) => sendResponse({ success: false, error: error.message }))
+      return true
+    }
+
+    if (message.type === 'WATCHLIST_REQUEST') {
+      handleWatchlistRequest()
+        .then((response) => sendResponse(response))
+        .catch((error) => {
+          console.error('[Auction Comparator] Watchlist request failed:', error)
+          sendResponse({
+            type: 'WATCHLIST_RESPONSE',
+            success: false,
+            error: {
+              code: 'API_ERROR',
+              message: error instanceof Error ? error.message : 'Unknown error',
+            },
+          } satisfies WatchlistErrorMessage)
+        })
+      return true
+    }
+
+    if (message.type === 'WATCH_LOT') {
+      handleWatchLot(message as WatchLotMessage)
+        .then((response) => sendResponse(response))
+        .catch((error) => {
+          console.error('[Auction Comparator] Watch lot failed:', error)
+          sendResponse({
+            type: 'WATCH_LOT_RESPONSE',
+            success: false,
+            error: {
+              code: 'API_ERROR',
+              message: error instanceof Error ? error.message : 'Unknown error',
+            },
+          } satisfies WatchLotErrorMessage)
+        })
+      return true
+    }
+
+    if (message.type === 'FLAG_RESULT') {
+      handleFlagResult(message as FlagResultMessage)
+        .then((response) => sendResponse(response))
+        .catch((error) => {
+          console.error('[Auction Comparator] Result feedback failed:', error)
+          sendResponse({
+            type: 'FLAG_RESULT_RESPONSE',
+            success: false,
+            error: {
+              code: 'API_ERROR',
+              message: error instanceof Error ? error.message : 'Unknown error',
+            },
+          } satisfies FlagResultErrorMessage)
+        })
+      return true
+    }
+
+    if (message.type === 'EXTRACT_RESOLVE_REQUEST') {
+      handleExtractResolveRequest(message as ExtractResolveRequestMessage)
+        .then((response) => sendResponse(response))
+        .catch((error) => {
+          console.error('[Auction Comparator] AI extraction failed:', error)
+          sendResponse({
+            type: 'EXTRACT_RESOLVE_RESPONSE',
+            success: false,
+            error: {
+              code: 'API_ERROR',
+              message: error instanceof Error ? error.message : 'Unknown error',
+            },
+          } satisfies ExtractResolveErrorMessage)
+        })
+      return true
+    }
+
+    if (message.type === 'UNWATCH_LOT') {
+      handleUnwatchLot(message as UnwatchLotMessage)
+        .then(() => sendResponse({ success: true }))
+        .catch((error) => sendResponse({ success: false, error: error.message }))
+      return true
+    }
   })
 
   // Listen for external messages from the web app (for auto-auth after login)
@@ -363,6 +576,354 @@ async function handleHistoryRequest(
   }
 }
 
+async function handleTrendsRequest(
+  message: TrendsRequestMessage
+): Promise<TrendsResponseMessage | TrendsErrorMessage> {
+  const authState = await getAuthState()
+  if (!authState.apiToken) {
+    return {
+      type: 'TRENDS_RESPONSE',
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Please sign in to view price trends',
+      },
+    }
+  }
+
+  const settings = await getSettings()
+  const response = await fetch(`${settings.apiBase}/api/trends/${encodeURIComponent(message.signature)}`, {
+    headers: {
+      'Authorization': `Bearer ${authState.apiToken}`,
+    },
+  })
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({}))
+    return {
+      type: 'TRENDS_RESPONSE',
+      success: false,
+      error: {
+        code: response.status === 401 ? 'UNAUTHORIZED' : 'API_ERROR',
+        message: errorBody.message || `API error: ${response.status}`,
+      },
+    }
+  }
+
+  const data: PriceTrendResponse = await response.json()
+  return {
+    type: 'TRENDS_RESPONSE',
+    success: true,
+    data: data.points,
+  }
+}
+
+async function handleAuctionResultsRequest(
+  message: AuctionResultsRequestMessage
+): Promise<AuctionResultsResponseMessage | AuctionResultsErrorMessage> {
+  const authState = await getAuthState()
+  if (!authState.apiToken) {
+    return {
+      type: 'AUCTION_RESULTS_RESPONSE',
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Please sign in to view past sales',
+      },
+    }
+  }
+
+  const params = new URLSearchParams({ domain: message.domain })
+  if (message.signature) params.set('signature', message.signature)
+  if (message.category) params.set('category', message.category)
+  if (message.currency) params.set('currency', message.currency)
+
+  const settings = await getSettings()
+  const response = await fetch(`${settings.apiBase}/api/auction-results?${params}`, {
+    headers: {
+      'Authorization': `Bearer ${authState.apiToken}`,
+    },
+  })
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({}))
+    return {
+      type: 'AUCTION_RESULTS_RESPONSE',
+      success: false,
+      error: {
+        code: response.status === 401 ? 'UNAUTHORIZED' : 'API_ERROR',
+        message: errorBody.error?.message || `API error: ${response.status}`,
+      },
+    }
+  }
+
+  const data: AuctionResultsResponse = await response.json()
+  return {
+    type: 'AUCTION_RESULTS_RESPONSE',
+    success: true,
+    data: data.similar,
+  }
+}
+
+async function handleRecordAuctionResult(message: RecordAuctionResultMessage): Promise<void> {
+  const token = await getApiToken()
+  if (!token) {
+    throw new Error('Please sign in to record auction results')
+  }
+
+  const settings = await getSettings()
+  const response = await fetch(`${settings.apiBase}/api/auction-results`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: JSON.stringify(message.data),
+  })
+
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`)
+  }
+}
+
+async function handleWatchlistRequest(): Promise<WatchlistResponseMessage | WatchlistErrorMessage> {
+  const authState = await getAuthState()
+  if (!authState.apiToken) {
+    return {
+      type: 'WATCHLIST_RESPONSE',
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Please sign in to use the watchlist',
+      },
+    }
+  }
+
+  const settings = await getSettings()
+  const response = await fetch(`${settings.apiBase}/api/watchlist`, {
+    headers: {
+      'Authorization': `Bearer ${authState.apiToken}`,
+    },
+  })
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({}))
+    return {
+      type: 'WATCHLIST_RESPONSE',
+      success: false,
+      error: {
+        code: response.status === 401 ? 'UNAUTHORIZED' : 'API_ERROR',
+        message: errorBody.error?.message || `API error: ${response.status}`,
+      },
+    }
+  }
+
+  const data: WatchlistResponse = await response.json()
+  return {
+    type: 'WATCHLIST_RESPONSE',
+    success: true,
+    data: data.lots,
+  }
+}
+
+async function handleWatchLot(
+  message: WatchLotMessage
+): Promise<WatchLotResponseMessage | WatchLotErrorMessage> {
+  const authState = await getAuthState()
+  if (!authState.apiToken) {
+    return {
+      type: 'WATCH_LOT_RESPONSE',
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Please sign in to use the watchlist',
+      },
+    }
+  }
+
+  const settings = await getSettings()
+  const response = await fetch(`${settings.apiBase}/api/watchlist`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authState.apiToken}`,
+    },
+    body: JSON.stringify(message.data),
+  })
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({}))
+    return {
+      type: 'WATCH_LOT_RESPONSE',
+      success: false,
+      error: {
+        code: response.status === 401 ? 'UNAUTHORIZED' : 'API_ERROR',
+        message: errorBody.error?.message || `API error: ${response.status}`,
+      },
+    }
+  }
+
+  const data: WatchLotResponse = await response.json()
+  return {
+    type: 'WATCH_LOT_RESPONSE',
+    success: true,
+    data: data.lot,
+  }
+}
+
+async function handleFlagResult(
+  message: FlagResultMessage
+): Promise<FlagResultResponseMessage | FlagResultErrorMessage> {
+  const authState = await getAuthState()
+  if (!authState.apiToken) {
+    return {
+      type: 'FLAG_RESULT_RESPONSE',
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Please sign in to send feedback',
+      },
+    }
+  }
+
+  const settings = await getSettings()
+  const entryId = encodeURIComponent(message.cacheEntryId)
+  const response = await fetch(`${settings.apiBase}/api/cache/${entryId}/feedback`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authState.apiToken}`,
+    },
+    body: JSON.stringify({ resultUrl: message.resultUrl }),
+  })
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({}))
+    return {
+      type: 'FLAG_RESULT_RESPONSE',
+      success: false,
+      error: {
+        code: response.status === 401 ? 'UNAUTHORIZED' : 'API_ERROR',
+        message: errorBody.error?.message || `API error: ${response.status}`,
+      },
+    }
+  }
+
+  const data: CacheFeedbackResponse = await response.json()
+  return {
+    type: 'FLAG_RESULT_RESPONSE',
+    success: true,
+    data,
+  }
+}
+
+async function handleExtractResolveRequest(
+  message: ExtractResolveRequestMessage
+): Promise<ExtractResolveResponseMessage | ExtractResolveErrorMessage> {
+  const authState = await getAuthState()
+  if (!authState.apiToken) {
+    return {
+      type: 'EXTRACT_RESOLVE_RESPONSE',
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Please sign in to use AI extraction',
+      },
+    }
+  }
+
+  const settings = await getSettings()
+  const response = await fetch(`${settings.apiBase}/api/extract/resolve`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authState.apiToken}`,
+    },
+    body: JSON.stringify(message.request),
+  })
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({}))
+    return {
+      type: 'EXTRACT_RESOLVE_RESPONSE',
+      success: false,
+      error: {
+        code: errorBody.code || (response.status === 401 ? 'UNAUTHORIZED' : 'API_ERROR'),
+        message: errorBody.message || `API error: ${response.status}`,
+        retryAfter: errorBody.retryAfter,
+      },
+    }
+  }
+
+  const data: ExtractResolveResponse = await response.json()
+  return {
+    type: 'EXTRACT_RESOLVE_RESPONSE',
+    success: true,
+    data,
+  }
+}
+
+async function handleUnwatchLot(message: UnwatchLotMessage): Promise<void> {
+  const token = await getApiToken()
+  if (!token) {
+    throw new Error('Please sign in to use the watchlist')
+  }
+
+  const settings = await getSettings()
+  const response = await fetch(`${settings.apiBase}/api/watchlist/${encodeURIComponent(message.lotId)}`, {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+    },
+  })
+
+  // Already removed is fine
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`API error: ${response.status}`)
+  }
+}
+
+/**
+ * Poll the watchlist and notify when a watched lot stops being worth it
+ */
+async function pollWatchlist(): Promise<void> {
+  const response = await handleWatchlistRequest().catch((error) => {
+    console.error('[Auction Comparator] Watchlist poll failed:', error)
+    return null
+  })
+  if (!response?.success) return
+
+  const notified = await getNotifiedVerdictChanges()
+  const nextNotified: Record<string, string> = {}
+
+  const { locale } = await browser.storage.local.get('locale')
+  i18n.global.locale.value = locale === 'en' ? 'en' : 'fr'
+
+  for (const lot of response.data) {
+    if (notified[lot.id]) {
+      nextNotified[lot.id] = notified[lot.id]
+    }
+
+    const droppedOut = lot.previousVerdictStatus === 'worth_it'
+      && lot.verdictStatus === 'not_worth_it'
+      && lot.verdictChangedAt !== null
+    if (!droppedOut || notified[lot.id] === lot.verdictChangedAt) continue
+
+    await browser.notifications.create(`watchlist:${lot.id}`, {
+      type: 'basic',
+      iconUrl: browser.runtime.getURL('/icon/128.png'),
+      title: i18n.global.t('watchlistNotWorthItTitle'),
+      message: i18n.global.t('watchlistNotWorthItMessage', {
+        title: lot.title,
+        price: `${lot.auctionPrice.toFixed(2)} ${lot.currency}`,
+      }),
+    })
+    nextNotified[lot.id] = lot.verdictChangedAt!
+  }
+
+  await saveNotifiedVerdictChanges(nextNotified)
+}
+
 async function handleCompareRequest(
   message: CompareRequestMessage | ForceRefreshRequestMessage
 ): Promise<CompareResponseMessage | CompareErrorMessage> {
@@ -382,12 +943,13 @@ async function handleCompareRequest(
     }
   }
 
-  // Check credits (we allow the request to proceed - server will enforce credits)
-  // This is just for a quick early return with a clear message
+  // Check credits for a forced refresh (always a fresh fetch)
+  // Other requests go through: the server answers cache hits for free and
+  // serves stale cached data to users without credits
   const hasCredits = authState.credits
     ? authState.credits.balance > 0 || authState.credits.freeAvailable
     : false
-  if (!hasCredits) {
+  if (forceRefresh && !hasCredits) {
     return {
       type: 'COMPARE_RESPONSE',
       success: false,
@@ -436,6 +998,7 @@ async function handleCompareRequest(
     } else if (error instanceof CreditsError) {
       errorResponse.code = 'NO_CREDITS';
       (errorResponse as any).credits = error.credits
+      errorResponse.cacheOnlyAvailable = error.cacheOnlyAvailable
     } else if (error instanceof AuthError) {
       errorResponse.code = error.code as any
     }
@@ -450,29 +1013,187 @@ async function handleCompareRequest(
   }
 }
 
-async function executeCompareRequest(
-  data: AuctionData,
-  token: string,
-  forceRefresh: boolean = false
-): Promise<CompareResponse> {
+async function handleCachedCompareRequest(
+  message: CachedCompareRequestMessage
+): Promise<CachedCompareResponseMessage | CachedCompareErrorMessage> {
+  const authState = await getAuthState()
+  if (!authState.apiToken) {
+    return {
+      type: 'CACHED_COMPARE_RESPONSE',
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Please sign in to use price comparison',
+      },
+    }
+  }
+
   const settings = await getSettings()
-  const apiUrl = `${settings.apiBase}/api/compare`
+  const response = await fetch(`${settings.apiBase}/api/compare/cached`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authState.apiToken}`,
+      'X-Extension-Id': browser.runtime.id,
+    },
+    body: JSON.stringify({ items: message.items.map(data => toCompareRequest(data)) }),
+  })
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({}))
+    return {
+      type: 'CACHED_COMPARE_RESPONSE',
+      success: false,
+      error: {
+        code: response.status === 401 ? 'UNAUTHORIZED' : 'API_ERROR',
+        message: errorBody.message || `API error: ${response.status}`,
+      },
+    }
+  }
+
+  const data: CachedCompareResponse = await response.json()
+  return {
+    type: 'CACHED_COMPARE_RESPONSE',
+    success: true,
+    data: data.items,
+  }
+}
+
+async function handleBatchCompareRequest(
+  message: BatchCompareRequestMessage
+): Promise<BatchCompareResponseMessage | BatchCompareErrorMessage> {
+  const authState = await getAuthState()
+  if (!authState.apiToken) {
+    return {
+      type: 'BATCH_COMPARE_RESPONSE',
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Please sign in to use price comparison',
+      },
+    }
+  }
+
+  const settings = await getSettings()
+  const response = await fetch(`${settings.apiBase}/api/compare/batch`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authState.apiToken}`,
+      'X-Extension-Id': browser.runtime.id,
+    },
+    body: JSON.stringify({
+      items: message.items.map(data => toCompareRequest(data)),
+      marginPercent: settings.marginPercent,
+    }),
+  })
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({}))
+    return {
+      type: 'BATCH_COMPARE_RESPONSE',
+      success: false,
+      error: {
+        code: errorBody.code || (response.status === 401 ? 'UNAUTHORIZED' : 'API_ERROR'),
+        message: errorBody.message || `API error: ${response.status}`,
+        retryAfter: errorBody.retryAfter,
+      },
+    }
+  }
 
-  const request: CompareRequest = {
+  const data: CompareBatchResponse = await response.json()
+  return {
+    type: 'BATCH_COMPARE_RESPONSE',
+    success: true,
+    data,
+  }
+}
+
+async function handleProbeCompareRequest(
+  message: ProbeCompareRequestMessage
+): Promise<ProbeCompareResponseMessage | ProbeCompareErrorMessage> {
+  const authState = await getAuthState()
+  if (!authState.apiToken) {
+    return {
+      type: 'PROBE_COMPARE_RESPONSE',
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Please sign in to use price comparison',
+      },
+    }
+  }
+
+  const settings = await getSettings()
+  const response = await fetch(`${settings.apiBase}/api/compare/probe`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authState.apiToken}`,
+      'X-Extension-Id': browser.runtime.id,
+    },
+    body: JSON.stringify(toCompareRequest(message.data)),
+  })
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({}))
+    return {
+      type: 'PROBE_COMPARE_RESPONSE',
+      success: false,
+      error: {
+        code: errorBody.code || (response.status === 401 ? 'UNAUTHORIZED' : 'API_ERROR'),
+        message: errorBody.message || `API error: ${response.status}`,
+        retryAfter: errorBody.retryAfter,
+      },
+    }
+  }
+
+  const data: CompareProbeResponse = await response.json()
+  return {
+    type: 'PROBE_COMPARE_RESPONSE',
+    success: true,
+    data,
+  }
+}
+
+/**
+ * Map extracted auction data to a compare API request
+ */
+function toCompareRequest(
+  data: AuctionData,
+  marginPercent?: number,
+  forceRefresh: boolean = false
+): CompareRequest {
+  return {
     title: data.title,
     brand: data.brand,
     model: data.model,
     year: data.year,
+    vehicle: data.vehicle,
+    // Jewelry descriptions carry the weight and hallmark the title leaves out
+    metal: parseMetalAttributes([data.title, data.description].filter(Boolean).join('\n')) ?? undefined,
     condition: data.condition,
     currency: data.currency,
     locale: data.locale,
     auctionPrice: data.totalPrice,
     siteDomain: data.siteDomain,
     lotUrl: data.lotUrl,
-    category: data.category as 'vehicle' | 'product' | undefined,
+    category: data.category,
     extractionConfidence: data.extractionConfidence,
     forceRefresh,
+    marginPercent,
   }
+}
+
+async function executeCompareRequest(
+  data: AuctionData,
+  token: string,
+  forceRefresh: boolean = false
+): Promise<CompareResponse> {
+  const settings = await getSettings()
+  const apiUrl = `${settings.apiBase}/api/compare`
+
+  const request = toCompareRequest(data, settings.marginPercent, forceRefresh)
 
   let lastError: Error | null = null
   let backoffMs = INITIAL_BACKOFF_MS
@@ -498,7 +1219,11 @@ async function executeCompareRequest(
       if (response.status === 402) {
         const errorBody = await response.json().catch(() => ({}))
         if (errorBody.code === 'NO_CREDITS') {
-          throw new CreditsError(errorBody.message || 'No credits available', errorBody.credits)
+          throw new CreditsError(
+            errorBody.message || 'No credits available',
+            errorBody.credits,
+            errorBody.cacheOnlyAvailable
+          )
         }
         throw new CreditsError('No credits available', errorBody.credits)
       }
@@ -562,7 +1287,7 @@ class AuthError extends Error {
 
 class CreditsError extends Error {
 
-  constructor(message: string, public credits?: any) {
+  constructor(message: string, public credits?: any, public cacheOnlyAvailable?: boolean) {
     super(message)
     this.name = 'CreditsError'
   }
@@ -1,18 +1,25 @@
 import { createApp } from 'vue'
 import ui from '@nuxt/ui/vue-plugin'
 import type { AuctionData, Currency } from '@auction-comparator/shared'
+import { calculateTotalPrice, withTransportCost } from '@auction-comparator/shared'
 import App from './App.vue'
+import { runListingMode } from './listing'
 import { getAdapterForCurrentPage } from '@/adapters'
-import { isEnabledForDomain, isOriginHidden } from '@/utils/storage'
+import { getSettings, isEnabledForDomain, isOriginHidden } from '@/utils/storage'
 import { debounce } from '@/utils/dom'
 import {
   createExtractor,
   isSupportedDomain,
+  getDomainConfig,
+  detectSoldPrice,
+  applyParsedFees,
   formatPrice,
   type ExtractionResult,
 } from '@/extractor'
 import { i18n, initLocale } from '@/utils/i18n'
 import { getAllMatchPatterns } from '@/utils/sites'
+import { getFeeProfile } from '@/utils/feeProfiles'
+import { resolveExtraction } from '@/utils/messaging'
 import './main.css'
 
 export default defineContentScript({
@@ -80,6 +87,10 @@ export default defineContentScript({
     console.log('[Auction Comparator] Is lot page:', isLot)
 
     if (!isLot) {
+      // Sale catalogs get a cached verdict badge per lot card instead of the overlay
+      if (adapter && await runListingMode(ctx, adapter)) {
+        return
+      }
       console.log('[Auction Comparator] Not a lot page, skipping')
       return
     }
@@ -135,7 +146,7 @@ export default defineContentScript({
           currentData = {
             ...currentData,
             currentBid: aiData.currentBid,
-            totalPrice: aiData.totalPrice,
+            totalPrice: calculateTotalPrice(aiData.currentBid, currentData.fees),
           }
           console.log('[Auction Comparator] Merged adapter + AI data:', currentData)
         }
@@ -150,7 +161,7 @@ export default defineContentScript({
         condition: 'unknown',
         currentBid: 0,
         currency: 'EUR',
-        fees: { buyerPremium: 0.25 },
+        fees: getFeeProfile('interencheres'),
         totalPrice: 0,
         siteDomain: domain,
         locale: 'fr',
@@ -159,6 +170,18 @@ export default defineContentScript({
       }
     }
 
+    // Add the user's pickup/transport cost so the total compares with delivered web prices
+    const { transportCost } = await getSettings()
+    currentData = withTransportCost(currentData, transportCost)
+
+    // Closed lots show their final "adjugé" price, kept for the hammer-price archive
+    if (adapter && !currentData.soldPrice) {
+      const soldPrice = detectSoldPrice(getDomainConfig(domain))
+      if (soldPrice) {
+        currentData = { ...currentData, soldPrice }
+      }
+    }
+
     console.log('[Auction Comparator] Final data for overlay:', currentData)
 
     // Create the UI using WXT's shadow root system
@@ -204,7 +227,8 @@ export default defineContentScript({
       const targetElement = document.querySelector(config.targetSelector) || document.body
 
       const handleMutation = debounce(() => {
-        const newData = adapter.extractData()
+        const extracted = adapter.extractData()
+        const newData = extracted && withTransportCost(extracted, transportCost)
         if (newData && hasDataChanged(currentData, newData)) {
           console.log('[Auction Comparator] Data changed, updating overlay', newData)
           currentData = newData
@@ -257,7 +281,7 @@ async function extractWithSelfHealing(): Promise<AuctionData | null> {
   const extractor = createExtractor({
     debug: true,
     useAiFallback: true,
-    aiResolveEndpoint: `${import.meta.env.VITE_API_URL }/api/extract/resolve`,
+    aiResolve: resolveExtraction,
   })
 
   const result = await extractor.extract()
@@ -267,10 +291,10 @@ async function extractWithSelfHealing(): Promise<AuctionData | null> {
     return null
   }
 
-  // Get domain config for buyer premium
-  const buyerPremium = result.lotPageInfo.config?.buyerPremium ?? 0.2
+  // Page fee statements over the domain config fee profile
+  const fees = applyParsedFees(result.lotPageInfo.config?.fees ?? getFeeProfile('generic'), result.fees)
   const currentBid = result.price?.value ?? 0
-  const totalPrice = currentBid * (1 + buyerPremium)
+  const totalPrice = calculateTotalPrice(currentBid, fees)
 
   const currency = normalizeCurrency(result.price?.currency ?? 'EUR')
 
@@ -279,8 +303,9 @@ async function extractWithSelfHealing(): Promise<AuctionData | null> {
     condition: 'unknown',
     currentBid,
     currency,
-    fees: { buyerPremium },
+    fees,
     totalPrice,
+    ...(result.soldPrice && { soldPrice: result.soldPrice }),
     siteDomain: result.domain,
     locale: result.lotPageInfo.config?.locale ?? 'fr',
     lotUrl: window.location.href,
@@ -295,9 +320,9 @@ async function extractWithSelfHealing(): Promise<AuctionData | null> {
 function extractionResultToAuctionData(result: ExtractionResult): AuctionData | null {
   if (!result.success) return null
 
-  const buyerPremium = result.lotPageInfo.config?.buyerPremium ?? 0.2
+  const fees = applyParsedFees(result.lotPageInfo.config?.fees ?? getFeeProfile('generic'), result.fees)
   const currentBid = result.price?.value ?? 0
-  const totalPrice = currentBid * (1 + buyerPremium)
+  const totalPrice = calculateTotalPrice(currentBid, fees)
   const currency = normalizeCurrency(result.price?.currency ?? 'EUR')
 
   return {
@@ -305,8 +330,9 @@ function extractionResultToAuctionData(result: ExtractionResult): AuctionData |
     condition: 'unknown',
     currentBid,
     currency,
-    fees: { buyerPremium },
+    fees,
     totalPrice,
+    ...(result.soldPrice && { soldPrice: result.soldPrice }),
     siteDomain: result.domain,
     locale: result.lotPageInfo.config?.locale ?? 'fr',
     lotUrl: result.lotPageInfo.url,
@@ -0,0 +1,98 @@
+import { createApp, reactive } from 'vue'
+import ui from '@nuxt/ui/vue-plugin'
+import type { SiteAdapter } from '@auction-comparator/shared'
+import type { ContentScriptContext } from '#imports'
+import { i18n, initLocale } from '@/utils/i18n'
+import { openLogin } from '@/utils/messaging'
+import { compareUncachedLots, createListingState, loadCachedVerdicts, loadCredits } from '@/utils/listing'
+import ListingBadge from '@/components/listing/ListingBadge.vue'
+import ListingToolbar from '@/components/listing/ListingToolbar.vue'
+
+/**
+ * Catalog mode: a cached verdict badge on every lot card plus a toolbar
+ * offering to compare the uncached lots
+ * Returns false when the page is not a catalog of this adapter's site
+ */
+export async function runListingMode(ctx: ContentScriptContext, adapter: SiteAdapter): Promise<boolean> {
+  if (!adapter.isListingPage || !adapter.extractListing) return false
+
+  // Catalog grids are often rendered after load
+  if (document.readyState !== 'complete') {
+    await new Promise(resolve => window.addEventListener('load', resolve, { once: true }))
+  }
+  await new Promise(resolve => setTimeout(resolve, 1000))
+
+  if (!adapter.isListingPage()) return false
+
+  const listing = adapter.extractListing()
+  if (listing.length === 0) return false
+
+  console.log(`[Auction Comparator] Catalog page with ${listing.length} lots`)
+
+  initLocale()
+  const state = reactive(createListingState(listing.map(lot => lot.data)))
+
+  // One badge per lot card (cards beyond the lookup limit get none)
+  const badges = await Promise.all(state.lots.map((lot, index) =>
+    createShadowRootUi(ctx, {
+      name: 'auction-comparator-badge',
+      position: 'inline',
+      anchor: listing[index]!.element,
+      append: 'last',
+      onMount(container) {
+        const app = createApp(ListingBadge, { lot })
+        app.use(ui)
+        app.use(i18n)
+        app.mount(container)
+        return app
+      },
+      onRemove(app) {
+        app?.unmount()
+      },
+    })
+  ))
+  badges.forEach(badge => badge.mount())
+
+  const toolbar = await createShadowRootUi(ctx, {
+    name: 'auction-comparator-listing',
+    position: 'inline',
+    anchor: 'body',
+    append: 'last',
+    onMount(container) {
+      const app = createApp(ListingToolbar, {
+        state,
+        onCompareUncached: () => compareUncachedLots(state),
+        onSignIn: () => openLogin(),
+      })
+      app.use(ui)
+      app.use(i18n)
+      app.mount(container)
+      return app
+    },
+    onRemove(app) {
+      app?.unmount()
+    },
+  })
+  toolbar.mount()
+
+  const removeAll = () => {
+    badges.forEach(badge => badge.remove())
+    toolbar.remove()
+  }
+
+  // Remove the badges when the extension is turned off from the popup
+  const handleToggleMessage = (message: any) => {
+    if (message.type === 'EXTENSION_TOGGLED' && !message.enabled) {
+      removeAll()
+    }
+  }
+  chrome.runtime.onMessage.addListener(handleToggleMessage)
+
+  ctx.onInvalidated(() => {
+    chrome.runtime.onMessage.removeListener(handleToggleMessage)
+    removeAll()
+  })
+
+  await Promise.all([loadCachedVerdicts(state), loadCredits(state)])
+  return true
+}
@@ -4,6 +4,7 @@
  */
 
 import { containsPrice, parsePrice, type ParsedPrice } from './priceParser'
+import { containsFeeText } from './feeParser'
 
 export interface BaseCandidate {
   /** CSS path to element (robust, not relying on IDs) */
@@ -42,6 +43,13 @@ export interface PriceCandidate extends BaseCandidate {
   rawPrice: string;
 }
 
+export interface FeeCandidate extends BaseCandidate {
+  type: 'fee';
+}
+
+/** Longest text block considered as a fee statement */
+const MAX_FEE_TEXT_LENGTH = 300
+
 /**
  * Generate a robust CSS path for an element
  * Uses tag:nth-of-type chain, avoiding IDs and classes
@@ -354,14 +362,74 @@ export function collectPriceCandidates(): PriceCandidate[] {
 }
 
 /**
- * Collect all candidates (title + price)
+ * Collect fee statement candidates from the page
+ * ("Frais acheteur : 14,40% TTC", "Frais de dossier : 150 €")
+ */
+export function collectFeeCandidates(): FeeCandidate[] {
+  const candidates: FeeCandidate[] = []
+  const seen = new Set<string>()
+
+  const walker = document.createTreeWalker(
+    document.body,
+    NodeFilter.SHOW_TEXT,
+    {
+      acceptNode: (node) => {
+        const text = node.textContent?.trim()
+        if (!text || text.length < 4) return NodeFilter.FILTER_REJECT
+        if (containsFeeText(text)) return NodeFilter.FILTER_ACCEPT
+        return NodeFilter.FILTER_REJECT
+      },
+    }
+  )
+
+  let node: Node | null
+  while ((node = walker.nextNode())) {
+    let element = node.parentElement
+    if (!element) continue
+
+    // Labels and values are often split across sibling spans: widen to the
+    // parent block when the label element holds no figure
+    if (!/\d/.test(element.textContent ?? '') && element.parentElement) {
+      element = element.parentElement
+    }
+
+    const text = element.textContent?.trim().replace(/\s+/g, ' ')
+    if (!text || text.length > MAX_FEE_TEXT_LENGTH) continue
+
+    const cssPath = getCssPath(element)
+    if (seen.has(cssPath)) continue
+    seen.add(cssPath)
+
+    const { fontSize, fontWeight } = getFontMetrics(element)
+    const rect = element.getBoundingClientRect()
+
+    candidates.push({
+      type: 'fee',
+      cssPath,
+      text,
+      labelContext: getLabelContext(element),
+      element,
+      isVisible: isElementVisible(element),
+      fontSize,
+      fontWeight,
+      distanceFromTop: rect.top + window.scrollY,
+    })
+  }
+
+  return candidates
+}
+
+/**
+ * Collect all candidates (title + price + fees)
  */
 export function collectAllCandidates(): {
   titleCandidates: TitleCandidate[];
   priceCandidates: PriceCandidate[];
+  feeCandidates: FeeCandidate[];
   } {
   return {
     titleCandidates: collectTitleCandidates(),
     priceCandidates: collectPriceCandidates(),
+    feeCandidates: collectFeeCandidates(),
   }
 }
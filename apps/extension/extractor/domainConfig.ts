@@ -3,6 +3,9 @@
  * Add new domains here with URL patterns and optional label hints
  */
 
+import type { AuctionFees } from '@auction-comparator/shared'
+import { getFeeProfile } from '@/utils/feeProfiles'
+
 export interface DomainConfig {
   /** Domain identifier */
   id: string;
@@ -16,8 +19,8 @@ export interface DomainConfig {
   locale: string;
   /** Default currency */
   currency: string;
-  /** Buyer's premium percentage (0-1) */
-  buyerPremium: number;
+  /** Buyer fee schedule (premium tiers, VAT scope, fixed fees) */
+  fees: AuctionFees;
   /** Additional positive label keywords for price detection */
   priceLabelsPositive?: string[];
   /** Additional negative label keywords for price detection */
@@ -32,7 +35,7 @@ export const DOMAIN_CONFIGS: DomainConfig[] = [
     lotPagePatterns: [/^\/lot\//i],
     locale: 'fr',
     currency: 'EUR',
-    buyerPremium: 0.15,
+    fees: getFeeProfile('encheres-domaine'),
     priceLabelsPositive: ['enchère actuelle', 'prix courant'],
     priceLabelsNegative: ['adjugé'],
   },
@@ -43,7 +46,7 @@ export const DOMAIN_CONFIGS: DomainConfig[] = [
     lotPagePatterns: [/^\/fr\/l\//i, /^\/en\/l\//i],
     locale: 'fr',
     currency: 'EUR',
-    buyerPremium: 0.20,
+    fees: getFeeProfile('moniteur-des-ventes'),
     priceLabelsPositive: ['dernière enchère', 'enchère courante'],
     priceLabelsNegative: ['mise à prix initiale'],
   },
@@ -55,7 +58,7 @@ export const DOMAIN_CONFIGS: DomainConfig[] = [
     lotPagePatterns: [/\/lot-\d+/i, /\/vente\/.*\/\d+/i],
     locale: 'fr',
     currency: 'EUR',
-    buyerPremium: 0.25,
+    fees: getFeeProfile('interencheres'),
   },
   {
     id: 'alcopa-auction',
@@ -64,7 +67,7 @@ export const DOMAIN_CONFIGS: DomainConfig[] = [
     lotPagePatterns: [/\/voiture-occasion\/.+\/.+-\d+$/i, /\/utilitaire-occasion\/.+\/.+-\d+$/i],
     locale: 'fr',
     currency: 'EUR',
-    buyerPremium: 0,
+    fees: getFeeProfile('alcopa'),
   },
 ]
 
@@ -3,9 +3,10 @@
  * Coordinates all extraction modules for a complete extraction flow
  */
 
+import type { ExtractResolveRequest, ExtractResolveResponse } from '@auction-comparator/shared'
 import { detectLotPage, type LotPageInfo } from './lotPageDetector'
-import { collectAllCandidates } from './candidateCollector'
-import { scoreAllCandidates, type ScoringResult, type ExtractionConfidence } from './heuristicScorer'
+import { collectAllCandidates, collectFeeCandidates, type FeeCandidate } from './candidateCollector'
+import { scoreAllCandidates, detectSoldPrice, type ScoringResult, type ExtractionConfidence } from './heuristicScorer'
 import {
   getLearnedExtraction,
   saveLearnedExtraction,
@@ -16,6 +17,7 @@ import {
 } from './selfHealingCache'
 import { createLiveObserver, watchForPageTransition, type LiveObserver } from './liveObserver'
 import { parsePrice, type ParsedPrice } from './priceParser'
+import { parseFeeTexts, type ParsedFees } from './feeParser'
 import type { DomainConfig } from './domainConfig'
 
 export interface ExtractionResult {
@@ -24,6 +26,10 @@ export interface ExtractionResult {
   price: ParsedPrice | null;
   priceType: 'current_bid' | 'starting_price' | 'estimate' | 'sold' | 'unknown';
   confidence: ExtractionConfidence;
+  /** Fees read from the page (confidence is tracked separately from title/price) */
+  fees?: ParsedFees;
+  /** Final sale price when the lot is closed */
+  soldPrice?: number | null;
   source: 'learned' | 'heuristic' | 'ai';
   domain: string;
   lotPageInfo: LotPageInfo;
@@ -46,8 +52,8 @@ export interface ExtractorOptions {
   onPriceUpdate?: (price: ParsedPrice) => void;
   /** Callback when extraction becomes invalid */
   onInvalid?: (reason: string) => void;
-  /** API endpoint for AI resolution */
-  aiResolveEndpoint?: string;
+  /** AI resolution call (goes through the background script, which holds the API token) */
+  aiResolve?: (request: ExtractResolveRequest) => Promise<ExtractResolveResponse>;
   /** Whether to use AI as fallback */
   useAiFallback?: boolean;
 }
@@ -105,7 +111,7 @@ export class AuctionExtractor {
     // Step 4: If confidence is low and AI fallback is enabled, try AI
     if (
       this.options.useAiFallback &&
-      this.options.aiResolveEndpoint &&
+      this.options.aiResolve &&
       heuristicResult.confidence === 'low'
     ) {
       const aiResult = await this.tryAiResolution(lotPageInfo, heuristicResult)
@@ -185,6 +191,8 @@ export class AuctionExtractor {
       price,
       priceType: 'current_bid', // Learned paths are always for current bid
       confidence: learned.confidence,
+      fees: this.extractFees(collectFeeCandidates()),
+      soldPrice: detectSoldPrice(lotPageInfo.config),
       source: 'learned',
       domain: lotPageInfo.domain,
       lotPageInfo,
@@ -205,7 +213,7 @@ export class AuctionExtractor {
    */
   private async runHeuristicExtraction(lotPageInfo: LotPageInfo): Promise<ExtractionResult> {
     // Collect candidates
-    const { titleCandidates, priceCandidates } = collectAllCandidates()
+    const { titleCandidates, priceCandidates, feeCandidates } = collectAllCandidates()
     console.log(
       '[Extractor] Collected candidates:',
       titleCandidates.length,
@@ -252,6 +260,8 @@ export class AuctionExtractor {
         : null,
       priceType: bestPrice?.priceType || 'unknown',
       confidence,
+      fees: this.extractFees(feeCandidates),
+      soldPrice: scoringResult.soldPrice?.value ?? null,
       source: 'heuristic',
       domain: lotPageInfo.domain,
       lotPageInfo,
@@ -266,7 +276,7 @@ export class AuctionExtractor {
     lotPageInfo: LotPageInfo,
     heuristicResult: ExtractionResult
   ): Promise<ExtractionResult | null> {
-    if (!this.options.aiResolveEndpoint) {
+    if (!this.options.aiResolve) {
       return null
     }
 
@@ -274,7 +284,7 @@ export class AuctionExtractor {
 
     try {
       // Collect fresh candidates for AI
-      const { titleCandidates, priceCandidates } = collectAllCandidates()
+      const { titleCandidates, priceCandidates, feeCandidates } = collectAllCandidates()
       const scoringResult = scoreAllCandidates(titleCandidates, priceCandidates, lotPageInfo.config)
 
       // Prepare data for AI
@@ -294,24 +304,13 @@ export class AuctionExtractor {
         cssPath: c.cssPath,
       }))
 
-      const response = await fetch(this.options.aiResolveEndpoint, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          domain: lotPageInfo.domain,
-          url: lotPageInfo.url,
-          titleCandidates: topTitles,
-          priceCandidates: topPrices,
-          config: lotPageInfo.config,
-        }),
+      const aiResult = await this.options.aiResolve({
+        domain: lotPageInfo.domain,
+        url: lotPageInfo.url,
+        titleCandidates: topTitles,
+        priceCandidates: topPrices,
+        ...(lotPageInfo.config && { config: lotPageInfo.config }),
       })
-
-      if (!response.ok) {
-        console.error('[Extractor] AI resolution failed:', response.status)
-        return null
-      }
-
-      const aiResult = await response.json()
       console.log('[Extractor] AI resolution result:', aiResult)
 
       if (!aiResult.success) {
@@ -355,6 +354,8 @@ export class AuctionExtractor {
           : null,
         priceType: aiResult.priceType || 'current_bid',
         confidence: 'medium',
+        fees: this.extractFees(feeCandidates),
+        soldPrice: scoringResult.soldPrice?.value ?? null,
         source: 'ai',
         domain: lotPageInfo.domain,
         lotPageInfo,
@@ -368,6 +369,17 @@ export class AuctionExtractor {
     }
   }
 
+  /**
+   * Parse fee statements found on the page
+   */
+  private extractFees(feeCandidates: FeeCandidate[]): ParsedFees {
+    const fees = parseFeeTexts(feeCandidates.map(c => c.text))
+    if (fees.matchedText.length) {
+      console.log('[Extractor] Fees found on page:', fees.matchedText)
+    }
+    return fees
+  }
+
   /**
    * Start live observer for price updates
    */
@@ -0,0 +1,288 @@
+/**
+ * Fee text parsing
+ * Reads the buyer's premium, its TTC/HT status and fixed per-lot fees from
+ * the text printed on a lot page ("Frais acheteur : 14,40% TTC")
+ */
+
+import type { AuctionFees, ExtractionConfidence } from '@auction-comparator/shared'
+import { extractPrices } from './priceParser'
+import { getFeeProfile } from '@/utils/feeProfiles'
+
+export type FeeVatStatus = 'ttc' | 'ht' | 'unknown';
+
+export interface ParsedFees {
+  /** Buyer's premium rate (0-1) */
+  premiumRate: number | null;
+  /** Whether the premium rate includes VAT */
+  premiumVat: FeeVatStatus;
+  /** Fixed per-lot fees in the page currency */
+  fixedFees: number | null;
+  /** Whether the fixed fees include VAT */
+  fixedFeesVat: FeeVatStatus;
+  /** "Frais judiciaires" rate (0-1) */
+  judicialRate: number | null;
+  /** The page announces a court-ordered sale */
+  judicialSale: boolean;
+  /** The page says the displayed price already includes fees */
+  feesIncluded: boolean;
+  /** Text snippets the fees were read from */
+  matchedText: string[];
+}
+
+/** French standard VAT rate, applied when a premium is quoted HT */
+const DEFAULT_VAT_RATE = 0.2
+
+/** Sane ranges for parsed values */
+const MAX_PREMIUM_RATE = 0.4
+const MAX_FIXED_FEES = 2000
+
+/** How far after a label the rate or amount may appear */
+const VALUE_WINDOW = 80
+
+const FEE_KEYWORDS = /frais|commission|premium|buyer'?s? fees?|forfait/i
+
+const PREMIUM_LABEL = /frais\s+(?:acheteurs?|de\s+vente|d'adjudication|en\s+sus(?:\s+des\s+ench[eè]res)?|volontaires)|commission\s+acheteur|buyer'?s?\s+premium|buyer\s+fees?/g
+
+const JUDICIAL_LABEL = /frais\s+judiciaires/g
+
+const JUDICIAL_SALE = /vente\s+judiciaire|vente\s+aux\s+ench[eè]res\s+judiciaire|vente\s+sur\s+(?:saisie|liquidation)/
+
+const FIXED_FEES_LABEL = /frais\s+(?:de\s+dossier|fixes?|par\s+lot|de\s+mise\s+[àa]\s+disposition|administratifs?|d'enl[eè]vement)|forfait\s+(?:par\s+lot|administratif)|handling\s+fees?|lot\s+fees?/g
+
+const FEES_INCLUDED = /frais\s+(?:inclus|compris)|tous\s+frais\s+compris|fees\s+included/
+
+const RATE_PATTERN = /(\d{1,2}(?:[.,]\d{1,3})?)\s*%\s*(ttc|ht|hors\s+taxes?|toutes\s+taxes\s+comprises|incl\.?\s+vat|excl\.?\s+vat|\+\s*vat)?/g
+
+/**
+ * Lowercase and normalize spaces and apostrophes for matching
+ */
+function normalizeFeeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[\u00a0\u202f]/g, ' ')
+    .replace(/[\u2018\u2019]/g, '\'')
+    .replace(/\s+/g, ' ')
+}
+
+/**
+ * Map a VAT marker ("TTC", "HT", "excl. VAT"...) to a status
+ */
+function toVatStatus(marker?: string): FeeVatStatus {
+  if (!marker) return 'unknown'
+  if (/^(?:ht|hors|excl|\+)/.test(marker)) return 'ht'
+  return 'ttc'
+}
+
+/**
+ * Find the rates printed after a label
+ * When a premium is quoted both ways ("12% HT soit 14,40% TTC"), TTC wins
+ */
+function findRateAfter(
+  text: string,
+  label: RegExp
+): { rate: number; vat: FeeVatStatus; snippet: string } | null {
+  for (const labelMatch of text.matchAll(label)) {
+    const start = (labelMatch.index ?? 0) + labelMatch[0].length
+    const window = text.slice(start, start + VALUE_WINDOW)
+
+    const rates = [...window.matchAll(RATE_PATTERN)]
+      .map(match => ({
+        rate: Math.round(parseFloat((match[1] ?? '').replace(',', '.')) * 100) / 10000,
+        vat: toVatStatus(match[2]),
+      }))
+      .filter(({ rate }) => rate > 0 && rate <= MAX_PREMIUM_RATE)
+
+    const best = rates.find(({ vat }) => vat === 'ttc') ?? rates[0]
+    if (best) {
+      return { ...best, snippet: `${labelMatch[0]}${window}`.trim() }
+    }
+  }
+  return null
+}
+
+/**
+ * Find a fixed amount printed after a label
+ */
+function findAmountAfter(
+  text: string,
+  label: RegExp
+): { amount: number; vat: FeeVatStatus; snippet: string } | null {
+  for (const labelMatch of text.matchAll(label)) {
+    const start = (labelMatch.index ?? 0) + labelMatch[0].length
+    const window = text.slice(start, start + VALUE_WINDOW)
+
+    // Only explicit currency amounts; bare numbers are too ambiguous here
+    const price = extractPrices(window).find(p =>
+      /[€$£]|eur/i.test(p.original) && p.value > 0 && p.value <= MAX_FIXED_FEES
+    )
+    if (price) {
+      const after = window.slice(window.indexOf(price.original) + price.original.length)
+      const vatMarker = after.match(/^\s*(ttc|ht|hors\s+taxes?)/)?.[1]
+      return {
+        amount: price.value,
+        vat: toVatStatus(vatMarker),
+        snippet: `${labelMatch[0]}${window}`.trim(),
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Check whether a text mentions fees at all (cheap pre-filter)
+ */
+export function containsFeeText(text: string): boolean {
+  return FEE_KEYWORDS.test(text) || JUDICIAL_SALE.test(normalizeFeeText(text))
+}
+
+/**
+ * Parse fee information from a block of page text
+ */
+export function parseFeeText(text: string): ParsedFees {
+  const normalized = normalizeFeeText(text)
+  const matchedText: string[] = []
+
+  const premium = findRateAfter(normalized, PREMIUM_LABEL)
+  if (premium) matchedText.push(premium.snippet)
+
+  const judicial = findRateAfter(normalized, JUDICIAL_LABEL)
+  if (judicial) matchedText.push(judicial.snippet)
+
+  const fixed = findAmountAfter(normalized, FIXED_FEES_LABEL)
+  if (fixed) matchedText.push(fixed.snippet)
+
+  return {
+    premiumRate: premium?.rate ?? null,
+    premiumVat: premium?.vat ?? 'unknown',
+    fixedFees: fixed?.amount ?? null,
+    fixedFeesVat: fixed?.vat ?? 'unknown',
+    judicialRate: judicial?.rate ?? null,
+    judicialSale: !!judicial || JUDICIAL_SALE.test(normalized),
+    feesIncluded: FEES_INCLUDED.test(normalized),
+    matchedText,
+  }
+}
+
+/**
+ * Parse several text blocks and keep the first value found for each fee
+ */
+export function parseFeeTexts(texts: string[]): ParsedFees {
+  const merged: ParsedFees = {
+    premiumRate: null,
+    premiumVat: 'unknown',
+    fixedFees: null,
+    fixedFeesVat: 'unknown',
+    judicialRate: null,
+    judicialSale: false,
+    feesIncluded: false,
+    matchedText: [],
+  }
+
+  for (const text of texts) {
+    const parsed = parseFeeText(text)
+
+    // A TTC rate found later beats an earlier rate of unknown status
+    if (
+      parsed.premiumRate !== null &&
+      (merged.premiumRate === null || (merged.premiumVat === 'unknown' && parsed.premiumVat === 'ttc'))
+    ) {
+      merged.premiumRate = parsed.premiumRate
+      merged.premiumVat = parsed.premiumVat
+    }
+    if (parsed.fixedFees !== null && merged.fixedFees === null) {
+      merged.fixedFees = parsed.fixedFees
+      merged.fixedFeesVat = parsed.fixedFeesVat
+    }
+    if (parsed.judicialRate !== null && merged.judicialRate === null) {
+      merged.judicialRate = parsed.judicialRate
+    }
+    merged.judicialSale ||= parsed.judicialSale
+    merged.feesIncluded ||= parsed.feesIncluded
+    merged.matchedText.push(...parsed.matchedText)
+  }
+
+  merged.matchedText = [...new Set(merged.matchedText)]
+  return merged
+}
+
+/**
+ * Confidence in the parsed fees, independent of the title and price
+ * - high: premium with explicit TTC/HT status, judicial fee rate, or "fees included"
+ * - medium: a premium, fixed fee or judicial sale without full detail
+ * - low: nothing found, site defaults are used
+ */
+export function getFeeConfidence(parsed: ParsedFees): ExtractionConfidence {
+  if (
+    (parsed.premiumRate !== null && parsed.premiumVat !== 'unknown') ||
+    parsed.judicialRate !== null ||
+    parsed.feesIncluded
+  ) {
+    return 'high'
+  }
+  if (parsed.premiumRate !== null || parsed.fixedFees !== null || parsed.judicialSale) {
+    return 'medium'
+  }
+  return 'low'
+}
+
+/**
+ * Overlay parsed page fees on a site's default fee profile
+ */
+export function applyParsedFees(
+  defaults: AuctionFees,
+  parsed?: ParsedFees | null,
+  vatRate = DEFAULT_VAT_RATE
+): AuctionFees {
+  const extractionConfidence = parsed ? getFeeConfidence(parsed) : 'low'
+  if (!parsed || extractionConfidence === 'low') {
+    return { ...defaults, extractionConfidence }
+  }
+
+  // "Frais inclus" with no premium printed: the displayed price is all-in
+  if (parsed.feesIncluded && parsed.premiumRate === null) {
+    return {
+      buyerPremium: 0,
+      feesIncluded: true,
+      ...(defaults.transportCost && { transportCost: defaults.transportCost }),
+      extractionConfidence,
+    }
+  }
+
+  const fees: AuctionFees = { ...defaults, feesIncluded: false, extractionConfidence }
+
+  if (parsed.premiumRate !== null) {
+    // A rate printed on the page replaces the default schedule entirely
+    delete fees.premiumTiers
+    fees.buyerPremium = parsed.premiumRate
+    if (parsed.premiumVat === 'ht') {
+      fees.vat = vatRate
+      fees.vatScope = 'premium'
+    } else {
+      delete fees.vat
+      fees.vatScope = 'none'
+    }
+  }
+
+  if (parsed.fixedFees !== null) {
+    // Store fixed fees HT when VAT is added on top, TTC otherwise
+    const addsVat = fees.vatScope !== 'none' && !!fees.vat
+    if (parsed.fixedFeesVat === 'ht' && !addsVat) {
+      fees.fixedFees = parsed.fixedFees * (1 + vatRate)
+    } else if (parsed.fixedFeesVat !== 'ht' && addsVat) {
+      fees.fixedFees = parsed.fixedFees / (1 + (fees.vat ?? 0))
+    } else {
+      fees.fixedFees = parsed.fixedFees
+    }
+  }
+
+  if (parsed.judicialSale) {
+    // Court-ordered sales charge regulated judicial fees instead of a house premium
+    if (parsed.premiumRate === null) {
+      delete fees.premiumTiers
+      fees.buyerPremium = 0
+    }
+    fees.judicialFees = parsed.judicialRate ?? getFeeProfile('judicial').judicialFees
+  }
+
+  return fees
+}
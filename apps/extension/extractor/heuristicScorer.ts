@@ -2,7 +2,7 @@
  * Heuristic scoring system for ranking candidates without AI
  */
 
-import type { TitleCandidate, PriceCandidate } from './candidateCollector'
+import { collectPriceCandidates, type TitleCandidate, type PriceCandidate } from './candidateCollector'
 import type { DomainConfig } from './domainConfig'
 import { isReasonablePrice } from './priceParser'
 
@@ -24,6 +24,8 @@ export interface ScoringResult {
   priceCandidates: ScoredPriceCandidate[];
   bestTitle: ScoredTitleCandidate | null;
   bestPrice: ScoredPriceCandidate | null;
+  /** Final "adjugé" price, when the lot is closed */
+  soldPrice: ScoredPriceCandidate | null;
   confidence: ExtractionConfidence;
   needsAI: boolean;
 }
@@ -352,6 +354,9 @@ export function scoreAllCandidates(
     || scoredPrices[0]
     || null
 
+  // Sold labels are penalized like other non-bid prices, so pick by type only
+  const soldPrice = scoredPrices.find(p => p.priceType === 'sold' && p.value && p.value > 0) || null
+
   // Calculate confidences
   const titleConfidence = calculateConfidence(scoredTitles)
   const priceConfidence = calculateConfidence(
@@ -377,11 +382,21 @@ export function scoreAllCandidates(
     priceCandidates: scoredPrices,
     bestTitle,
     bestPrice,
+    soldPrice,
     confidence,
     needsAI,
   }
 }
 
+/**
+ * Detect the final sale price on a closed lot page
+ * Returns null while the lot is still open
+ */
+export function detectSoldPrice(config: DomainConfig | null): number | null {
+  const { soldPrice } = scoreAllCandidates([], collectPriceCandidates(), config)
+  return soldPrice?.value ?? null
+}
+
 /**
  * Get top N candidates for debugging/AI resolution
  */
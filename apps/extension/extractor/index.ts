@@ -38,15 +38,18 @@ export {
   collectAllCandidates,
   collectTitleCandidates,
   collectPriceCandidates,
+  collectFeeCandidates,
   getCssPath,
   type TitleCandidate,
   type PriceCandidate,
+  type FeeCandidate,
   type BaseCandidate,
 } from './candidateCollector'
 
 // Heuristic scoring
 export {
   scoreAllCandidates,
+  detectSoldPrice,
   getTopCandidates,
   type ScoringResult,
   type ScoredTitleCandidate,
@@ -87,3 +90,14 @@ export {
   isReasonablePrice,
   type ParsedPrice,
 } from './priceParser'
+
+// Fee parsing
+export {
+  parseFeeText,
+  parseFeeTexts,
+  applyParsedFees,
+  getFeeConfidence,
+  containsFeeText,
+  type ParsedFees,
+  type FeeVatStatus,
+} from './feeParser'
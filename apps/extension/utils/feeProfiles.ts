@@ -0,0 +1,72 @@
+/**
+ * Fee profiles - default buyer fee schedules per auction site
+ * Adapters and self-healing domain configs both reference these, so a site's
+ * fees are defined once. Rates are typical values; a lot page may override them.
+ */
+
+import type { AuctionFees } from '@auction-comparator/shared'
+
+export type FeeProfileId =
+  | 'interencheres'
+  | 'encheres-domaine'
+  | 'moniteur-des-ventes'
+  | 'alcopa'
+  | 'agorastore'
+  | 'auctelia'
+  | 'judicial'
+  | 'generic'
+
+export const FEE_PROFILES: Record<FeeProfileId, AuctionFees> = {
+  // Typical house schedule: 25% TTC up to €100k, 20% TTC above
+  'interencheres': {
+    buyerPremium: 0.25,
+    premiumTiers: [
+      { upTo: 100000, rate: 0.25 },
+      { rate: 0.20 },
+    ],
+    vatScope: 'none',
+  },
+  // Government sales: VAT-inclusive premium
+  'encheres-domaine': {
+    buyerPremium: 0.15,
+    vatScope: 'none',
+  },
+  'moniteur-des-ventes': {
+    buyerPremium: 0.20,
+    vatScope: 'none',
+  },
+  // Alcopa shows "Frais inclus" so fees are already included in the price
+  'alcopa': {
+    buyerPremium: 0,
+    feesIncluded: true,
+  },
+  'agorastore': {
+    buyerPremium: 0.10,
+    vatScope: 'none',
+  },
+  'auctelia': {
+    buyerPremium: 0.15,
+    vatScope: 'none',
+  },
+  // Court-ordered sales: regulated "frais judiciaires" of 14.28% TTC
+  'judicial': {
+    buyerPremium: 0,
+    judicialFees: 0.1428,
+    vatScope: 'none',
+  },
+  'generic': {
+    buyerPremium: 0.20,
+    vatScope: 'none',
+  },
+}
+
+/**
+ * Get a copy of a fee profile (safe to adjust per lot)
+ */
+export function getFeeProfile(id: FeeProfileId): AuctionFees {
+  const profile = FEE_PROFILES[id]
+  return {
+    ...profile,
+    ...(profile.premiumTiers && { premiumTiers: profile.premiumTiers.map(tier => ({ ...tier })) }),
+  }
+}
@@ -15,6 +15,9 @@ const messages = {
     searchingPrices: 'Searching web prices...',
     retry: 'Retry',
     comparePrices: 'Compare Prices',
+    compareFree: 'Free',
+    compareOneCredit: '1 credit',
+    compareNoCredits: 'No credits',
     loading: 'Loading...',
 
     // Price Panel
@@ -26,6 +29,38 @@ const messages = {
     pay: 'Pay',
     vsWebMin: 'vs web min',
     basedOn: 'Based on {count} web listings',
+    typicalRange: 'Typical range',
+    inclTransport: 'incl. {price} transport',
+    priceTrend: 'Web price, last {weeks} weeks',
+    similarSold: 'Similar lots on this site sold for {price} ({count} sold)',
+    feeBreakdown: 'Fee breakdown',
+    feeHammer: 'Hammer price',
+    feePremium: 'Buyer\'s premium',
+    feeJudicial: 'Judicial fees',
+    feeFixed: 'Fixed lot fees',
+    feeVat: 'VAT',
+    feeTransport: 'Transport',
+    feesIncludedNote: 'Fees are included in the displayed price',
+    feesSiteDefault: 'Fees not found on the page: typical rates for this site',
+    basisGroup: 'Compared with {group} listings',
+    basisAdjusted: 'No matching listings: {group} prices × {percent}%',
+    basisVehicleAdjusted: 'Prices adjusted to this vehicle\'s mileage and year ({count} listings)',
+    basisPerBottle: 'Compared per bottle (listing prices divided by their bottle count)',
+    perBottle: 'Per bottle ({count} bottles)',
+    perBottleSized: 'Per bottle ({count} × {size} cl)',
+    meltValue: 'Melt value',
+    meltValueDetail: '{weight} g {metal} {fineness}',
+    meltValueGross: '{weight} g gross {metal} {fineness}',
+    metal_gold: 'gold',
+    metal_silver: 'silver',
+    metal_platinum: 'platinum',
+    condition_new: 'new',
+    condition_used: 'used',
+    condition_refurbished: 'refurbished',
+    outliersExcluded: '{count} outlier(s) excluded',
+    accessoriesExcluded: '{count} accessory/item mismatch(es) excluded',
+    otherBottlesExcluded: '{count} other vintage(s) or size(s) excluded',
+    unadjustedVehiclesExcluded: '{count} listing(s) without mileage or year excluded',
 
     // Confidence
     highConfidence: 'High confidence',
@@ -35,8 +70,16 @@ const messages = {
 
     // Verdict
     worthIt: 'Worth it',
+    belowMeltValue: 'Below melt value',
     notWorthIt: 'Not worth it',
     borderline: 'Borderline',
+    verdictMargin: '{percent}% margin',
+    watchLot: 'Watch',
+    unwatchLot: 'Unwatch',
+    watchLotHint: 'Get notified if this lot stops being worth it',
+    watchingHint: 'Watching: you will be notified if this lot stops being worth it',
+    watchlistNotWorthItTitle: 'Watched lot no longer worth it',
+    watchlistNotWorthItMessage: '{title} is now at {price}, above the web market price',
 
     // Settings
     language: 'Language',
@@ -47,6 +90,8 @@ const messages = {
     topWebListings: 'Top web listings',
     match: 'match',
     freeShipping: 'Free shipping',
+    notSameProduct: 'Not the same product',
+    plusShipping: '+ {price} shipping',
 
     // Cache Status
     source: 'Source',
@@ -60,6 +105,11 @@ const messages = {
     fetchedMinutesAgo: 'Fetched {minutes}m ago',
     fetchedJustNow: 'Just fetched',
     forceRefreshHint: 'Force refresh (uses quota)',
+    staleData: 'Stale data',
+    staleDataDays: 'Cached prices from {days} days ago',
+    staleDataHours: 'Cached prices from {hours}h ago',
+    staleDataUpsell: 'Buy comparisons for up-to-date prices.',
+    showCachedPrices: 'Show cached prices',
 
     // Credits / Comparisons
     credits: 'Comparisons',
@@ -89,6 +139,17 @@ const messages = {
     cachedResultFree: 'Cached result (free)',
     upgradeNow: 'Buy Credits',
 
+    // Catalog pages
+    listingTitle: 'Sale catalog · {count} lots',
+    listingSummary: '{cached} with a cached verdict, {uncached} not compared yet',
+    listingCompareUncached: 'Compare the rest · up to {count} credit(s)',
+    listingCompareUncachedHint: 'Runs a fresh comparison for each lot without a cached verdict, one credit each (lots of the same product are charged once)',
+    listingCreditsBalance: '{balance} credit(s) left',
+    listingNotCompared: 'Not compared',
+    listingNoResults: 'No web match',
+    listingRateLimited: 'Too many comparisons at once, try again in a minute',
+    listingLookupFailed: 'Could not load cached verdicts',
+
     // Popup Settings
     extensionEnabled: 'Extension enabled',
     extensionEnabledDesc: 'Compare auction prices with web prices',
@@ -97,6 +158,10 @@ const messages = {
     apiServer: 'API Server',
     marginThreshold: 'Margin threshold: {percent}%',
     marginThresholdDesc: 'Auction must be this % below web min to be "worth it"',
+    transportCost: 'Pickup / transport cost',
+    transportCostDesc: 'Added to every auction total, so it compares with delivered web prices',
+    autoCompareFreeOnly: 'Auto-compare only when free',
+    autoCompareFreeOnlyDesc: 'Comparisons that would use a credit wait for a click',
     languageDesc: 'Extension display language',
     account: 'Account',
     checking: 'Checking...',
@@ -131,6 +196,9 @@ const messages = {
     searchingPrices: 'Recherche des prix web...',
     retry: 'Réessayer',
     comparePrices: 'Comparer les Prix',
+    compareFree: 'Gratuit',
+    compareOneCredit: '1 crédit',
+    compareNoCredits: 'Aucun crédit',
     loading: 'Chargement...',
 
     // Price Panel
@@ -142,6 +210,38 @@ const messages = {
     pay: 'Payez',
     vsWebMin: 'vs min web',
     basedOn: 'Basé sur {count} annonces web',
+    typicalRange: 'Fourchette habituelle',
+    inclTransport: 'dont {price} de transport',
+    priceTrend: 'Prix web, {weeks} dernières semaines',
+    similarSold: 'Lots similaires adjugés {price} sur ce site ({count} ventes)',
+    feeBreakdown: 'Détail des frais',
+    feeHammer: 'Prix d\'adjudication',
+    feePremium: 'Frais acheteur',
+    feeJudicial: 'Frais judiciaires',
+    feeFixed: 'Frais fixes par lot',
+    feeVat: 'TVA',
+    feeTransport: 'Transport',
+    feesIncludedNote: 'Frais inclus dans le prix affiché',
+    feesSiteDefault: 'Frais introuvables sur la page : taux habituels du site',
+    basisGroup: 'Comparé aux annonces : {group}',
+    basisAdjusted: 'Aucune annonce équivalente : prix {group} × {percent} %',
+    basisVehicleAdjusted: 'Prix ajustés au kilométrage et à l\'année du véhicule ({count} annonces)',
+    basisPerBottle: 'Comparaison par bouteille (prix des annonces divisés par leur nombre de bouteilles)',
+    perBottle: 'Par bouteille ({count} bouteilles)',
+    perBottleSized: 'Par bouteille ({count} × {size} cl)',
+    meltValue: 'Valeur du métal',
+    meltValueDetail: '{weight} g {metal} {fineness}',
+    meltValueGross: '{weight} g brut {metal} {fineness}',
+    metal_gold: 'or',
+    metal_silver: 'argent',
+    metal_platinum: 'platine',
+    condition_new: 'neuf',
+    condition_used: 'occasion',
+    condition_refurbished: 'reconditionné',
+    outliersExcluded: '{count} valeur(s) aberrante(s) exclue(s)',
+    accessoriesExcluded: '{count} résultat(s) accessoire/article exclu(s)',
+    otherBottlesExcluded: '{count} autre(s) millésime(s) ou format(s) exclu(s)',
+    unadjustedVehiclesExcluded: '{count} annonce(s) sans kilométrage ou année exclue(s)',
 
     // Confidence
     highConfidence: 'Confiance élevée',
@@ -151,8 +251,16 @@ const messages = {
 
     // Verdict
     worthIt: 'Bonne affaire',
+    belowMeltValue: 'Sous la valeur du métal',
     notWorthIt: 'Pas rentable',
     borderline: 'À la limite',
+    verdictMargin: 'marge {percent} %',
+    watchLot: 'Suivre',
+    unwatchLot: 'Ne plus suivre',
+    watchLotHint: 'Être alerté si ce lot cesse d\'être intéressant',
+    watchingHint: 'Lot suivi : vous serez alerté s\'il cesse d\'être intéressant',
+    watchlistNotWorthItTitle: 'Lot suivi plus intéressant',
+    watchlistNotWorthItMessage: '{title} est maintenant à {price}, au-dessus du prix du marché',
 
     // Settings
     language: 'Langue',
@@ -163,6 +271,8 @@ const messages = {
     topWebListings: 'Meilleures annonces web',
     match: 'pertinence',
     freeShipping: 'Livraison gratuite',
+    notSameProduct: 'Pas le même produit',
+    plusShipping: '+ {price} de livraison',
 
     // Cache Status
     source: 'Source',
@@ -176,6 +286,11 @@ const messages = {
     fetchedMinutesAgo: 'Récupéré il y a {minutes}m',
     fetchedJustNow: 'Vient d\'être récupéré',
     forceRefreshHint: 'Forcer le rafraîchissement (utilise le quota)',
+    staleData: 'Données anciennes',
+    staleDataDays: 'Prix en cache datant de {days} jours',
+    staleDataHours: 'Prix en cache datant de {hours}h',
+    staleDataUpsell: 'Achetez des comparaisons pour des prix à jour.',
+    showCachedPrices: 'Voir les prix en cache',
 
     // Credits / Comparisons
     credits: 'Comparaisons',
@@ -205,6 +320,17 @@ const messages = {
     cachedResultFree: 'Résultat en cache (gratuit)',
     upgradeNow: 'Acheter des crédits',
 
+    // Catalog pages
+    listingTitle: 'Catalogue de vente · {count} lots',
+    listingSummary: '{cached} avec un verdict en cache, {uncached} pas encore comparé(s)',
+    listingCompareUncached: 'Comparer le reste · jusqu\'à {count} crédit(s)',
+    listingCompareUncachedHint: 'Lance une nouvelle comparaison pour chaque lot sans verdict en cache, un crédit chacune (les lots d\'un même produit ne sont comptés qu\'une fois)',
+    listingCreditsBalance: '{balance} crédit(s) restant(s)',
+    listingNotCompared: 'Non comparé',
+    listingNoResults: 'Aucun équivalent web',
+    listingRateLimited: 'Trop de comparaisons d\'un coup, réessayez dans une minute',
+    listingLookupFailed: 'Impossible de charger les verdicts en cache',
+
     // Popup Settings
     extensionEnabled: 'Extension activée',
     extensionEnabledDesc: 'Comparer les prix des enchères avec les prix web',
@@ -213,6 +339,10 @@ const messages = {
     apiServer: 'Serveur API',
     marginThreshold: 'Seuil de marge : {percent}%',
     marginThresholdDesc: 'L\'enchère doit être ce % en dessous du min web pour être "rentable"',
+    transportCost: 'Frais d\'enlèvement / transport',
+    transportCostDesc: 'Ajoutés à chaque total d\'enchère pour comparer avec les prix web livrés',
+    autoCompareFreeOnly: 'Comparer automatiquement si gratuit',
+    autoCompareFreeOnlyDesc: 'Les comparaisons qui coûtent un crédit attendent un clic',
     languageDesc: 'Langue d\'affichage de l\'extension',
     account: 'Compte',
     checking: 'Vérification...',
@@ -0,0 +1,141 @@
+/**
+ * Catalog page state - one cached verdict per lot card
+ * Lookups are cache-only and free; comparing the remaining lots is an
+ * explicit, paid batch started from the listing toolbar.
+ */
+
+import type { AuctionData, CompareError, CompareResponse, CreditsInfo, PriceStats, Verdict } from '@auction-comparator/shared'
+import { checkAuth, requestBatchComparison, requestCachedComparisons } from './messaging'
+
+/** Lots per catalog page (the cache lookup endpoint's limit) */
+export const MAX_LISTING_LOTS = 50
+
+/** Lots per paid batch (the batch compare endpoint's limit) */
+const BATCH_SIZE = 20
+
+export type ListingLotStatus = 'loading' | 'cached' | 'uncached' | 'comparing' | 'no_results'
+
+export interface ListingLotState {
+  data: AuctionData;
+  status: ListingLotStatus;
+  verdict?: Verdict;
+  stats?: PriceStats;
+}
+
+export interface ListingState {
+  lots: ListingLotState[];
+  /** Paid comparison of the uncached lots in progress */
+  running: boolean;
+  /** Error code that stopped the last lookup or run */
+  errorCode: string | null;
+  /** Credit balance shown before a paid run (null until known) */
+  credits: CreditsInfo | null;
+}
+
+/**
+ * Create the initial state for the lots of a catalog page
+ */
+export function createListingState(lots: AuctionData[]): ListingState {
+  return {
+    lots: lots.slice(0, MAX_LISTING_LOTS).map(data => ({ data, status: 'loading' })),
+    running: false,
+    errorCode: null,
+    credits: null,
+  }
+}
+
+/**
+ * Load the user's credit balance for the toolbar
+ */
+export async function loadCredits(state: ListingState): Promise<void> {
+  try {
+    const { credits } = await checkAuth()
+    state.credits = credits ?? null
+  } catch (err) {
+    console.error('[Auction Comparator] Credits check error:', err)
+  }
+}
+
+/**
+ * Fill in verdicts for the lots already in the compare cache
+ */
+export async function loadCachedVerdicts(state: ListingState): Promise<void> {
+  try {
+    const items = await requestCachedComparisons(state.lots.map(lot => lot.data))
+
+    state.lots.forEach((lot, index) => {
+      const item = items[index]
+      if (item?.status === 'hit') {
+        lot.status = 'cached'
+        lot.verdict = item.verdict
+        lot.stats = item.stats
+      } else {
+        lot.status = 'uncached'
+      }
+    })
+  } catch (err: any) {
+    console.error('[Auction Comparator] Cached verdicts error:', err)
+    state.errorCode = err.code || 'API_ERROR'
+    state.lots.forEach((lot) => {
+      lot.status = 'uncached'
+    })
+  }
+}
+
+/**
+ * Apply one batch comparison item to its lot
+ * Returns the error code that should stop the run, if any
+ */
+function applyBatchItem(lot: ListingLotState, item?: CompareResponse | CompareError): string | null {
+  if (!item) {
+    lot.status = 'uncached'
+    return null
+  }
+
+  if ('code' in item) {
+    lot.status = item.code === 'NO_RESULTS' ? 'no_results' : 'uncached'
+    return item.code === 'NO_CREDITS' ? item.code : null
+  }
+
+  lot.status = 'cached'
+  lot.verdict = item.verdict
+  lot.stats = item.verdictBasis?.stats ?? item.stats
+  return null
+}
+
+/**
+ * Compare every uncached lot in batches (one comparison credit per fresh fetch)
+ */
+export async function compareUncachedLots(state: ListingState): Promise<void> {
+  if (state.running) return
+
+  state.running = true
+  state.errorCode = null
+
+  try {
+    const pending = state.lots.filter(lot => lot.status === 'uncached')
+
+    for (let start = 0; start < pending.length && !state.errorCode; start += BATCH_SIZE) {
+      const batch = pending.slice(start, start + BATCH_SIZE)
+      batch.forEach((lot) => {
+        lot.status = 'comparing'
+      })
+
+      try {
+        const { items, credits } = await requestBatchComparison(batch.map(lot => lot.data))
+        state.credits = credits
+        batch.forEach((lot, index) => {
+          state.errorCode = applyBatchItem(lot, items[index]) ?? state.errorCode
+        })
+      } catch (err: any) {
+        console.error('[Auction Comparator] Batch comparison error:', err)
+        batch.forEach((lot) => {
+          lot.status = 'uncached'
+        })
+        state.errorCode = err.code || 'API_ERROR'
+      }
+    }
+  } finally {
+    state.running = false
+  }
+}
@@ -1,16 +1,37 @@
 import type {
   AuctionData,
+  CacheFeedbackResponse,
+  CachedCompareItem,
+  CompareBatchResponse,
+  CompareProbeResponse,
   CompareResponse,
   CompareError,
+  ExtractResolveRequest,
+  ExtractResolveResponse,
   UserInfo,
   CreditsInfo,
   UsageResponse,
   HistoryResponse,
+  PriceTrendPoint,
+  RecordAuctionResultRequest,
+  SimilarSales,
+  WatchedLot,
+  WatchLotRequest,
 } from '@auction-comparator/shared'
 
 export type MessageType =
   | 'COMPARE_REQUEST'
   | 'COMPARE_RESPONSE'
+  | 'CACHED_COMPARE_REQUEST'
+  | 'CACHED_COMPARE_RESPONSE'
+  | 'BATCH_COMPARE_REQUEST'
+  | 'BATCH_COMPARE_RESPONSE'
+  | 'PROBE_COMPARE_REQUEST'
+  | 'PROBE_COMPARE_RESPONSE'
+  | 'FLAG_RESULT'
+  | 'FLAG_RESULT_RESPONSE'
+  | 'EXTRACT_RESOLVE_REQUEST'
+  | 'EXTRACT_RESOLVE_RESPONSE'
   | 'AUTH_CHECK'
   | 'AUTH_CHECK_RESPONSE'
   | 'OPEN_LOGIN'
@@ -20,7 +41,17 @@ export type MessageType =
   | 'USAGE_REQUEST'
   | 'USAGE_RESPONSE'
   | 'HISTORY_REQUEST'
-  | 'HISTORY_RESPONSE';
+  | 'HISTORY_RESPONSE'
+  | 'WATCHLIST_REQUEST'
+  | 'WATCHLIST_RESPONSE'
+  | 'WATCH_LOT'
+  | 'WATCH_LOT_RESPONSE'
+  | 'UNWATCH_LOT'
+  | 'TRENDS_REQUEST'
+  | 'TRENDS_RESPONSE'
+  | 'RECORD_AUCTION_RESULT'
+  | 'AUCTION_RESULTS_REQUEST'
+  | 'AUCTION_RESULTS_RESPONSE';
 
 export interface CompareRequestMessage {
   type: 'COMPARE_REQUEST';
@@ -93,6 +124,172 @@ export interface HistoryErrorMessage {
   error: CompareError;
 }
 
+export interface WatchlistRequestMessage {
+  type: 'WATCHLIST_REQUEST';
+}
+
+export interface WatchlistResponseMessage {
+  type: 'WATCHLIST_RESPONSE';
+  success: true;
+  data: WatchedLot[];
+}
+
+export interface WatchlistErrorMessage {
+  type: 'WATCHLIST_RESPONSE';
+  success: false;
+  error: CompareError;
+}
+
+export interface WatchLotMessage {
+  type: 'WATCH_LOT';
+  data: WatchLotRequest;
+}
+
+export interface WatchLotResponseMessage {
+  type: 'WATCH_LOT_RESPONSE';
+  success: true;
+  data: WatchedLot;
+}
+
+export interface WatchLotErrorMessage {
+  type: 'WATCH_LOT_RESPONSE';
+  success: false;
+  error: CompareError;
+}
+
+export interface FlagResultMessage {
+  type: 'FLAG_RESULT';
+  cacheEntryId: string;
+  resultUrl: string;
+}
+
+export interface FlagResultResponseMessage {
+  type: 'FLAG_RESULT_RESPONSE';
+  success: true;
+  data: CacheFeedbackResponse;
+}
+
+export interface FlagResultErrorMessage {
+  type: 'FLAG_RESULT_RESPONSE';
+  success: false;
+  error: CompareError;
+}
+
+export interface ExtractResolveRequestMessage {
+  type: 'EXTRACT_RESOLVE_REQUEST';
+  request: ExtractResolveRequest;
+}
+
+export interface ExtractResolveResponseMessage {
+  type: 'EXTRACT_RESOLVE_RESPONSE';
+  success: true;
+  data: ExtractResolveResponse;
+}
+
+export interface ExtractResolveErrorMessage {
+  type: 'EXTRACT_RESOLVE_RESPONSE';
+  success: false;
+  error: CompareError;
+}
+
+export interface UnwatchLotMessage {
+  type: 'UNWATCH_LOT';
+  lotId: string;
+}
+
+export interface TrendsRequestMessage {
+  type: 'TRENDS_REQUEST';
+  signature: string;
+}
+
+export interface TrendsResponseMessage {
+  type: 'TRENDS_RESPONSE';
+  success: true;
+  data: PriceTrendPoint[];
+}
+
+export interface TrendsErrorMessage {
+  type: 'TRENDS_RESPONSE';
+  success: false;
+  error: CompareError;
+}
+
+export interface RecordAuctionResultMessage {
+  type: 'RECORD_AUCTION_RESULT';
+  data: RecordAuctionResultRequest;
+}
+
+export interface AuctionResultsRequestMessage {
+  type: 'AUCTION_RESULTS_REQUEST';
+  domain: string;
+  category?: string;
+  signature?: string;
+  currency?: string;
+}
+
+export interface AuctionResultsResponseMessage {
+  type: 'AUCTION_RESULTS_RESPONSE';
+  success: true;
+  data: SimilarSales | null;
+}
+
+export interface AuctionResultsErrorMessage {
+  type: 'AUCTION_RESULTS_RESPONSE';
+  success: false;
+  error: CompareError;
+}
+
+export interface CachedCompareRequestMessage {
+  type: 'CACHED_COMPARE_REQUEST';
+  items: AuctionData[];
+}
+
+export interface CachedCompareResponseMessage {
+  type: 'CACHED_COMPARE_RESPONSE';
+  success: true;
+  data: CachedCompareItem[];
+}
+
+export interface CachedCompareErrorMessage {
+  type: 'CACHED_COMPARE_RESPONSE';
+  success: false;
+  error: CompareError;
+}
+
+export interface BatchCompareRequestMessage {
+  type: 'BATCH_COMPARE_REQUEST';
+  items: AuctionData[];
+}
+
+export interface BatchCompareResponseMessage {
+  type: 'BATCH_COMPARE_RESPONSE';
+  success: true;
+  data: CompareBatchResponse;
+}
+
+export interface BatchCompareErrorMessage {
+  type: 'BATCH_COMPARE_RESPONSE';
+  success: false;
+  error: CompareError;
+}
+
+export interface ProbeCompareRequestMessage {
+  type: 'PROBE_COMPARE_REQUEST';
+  data: AuctionData;
+}
+
+export interface ProbeCompareResponseMessage {
+  type: 'PROBE_COMPARE_RESPONSE';
+  success: true;
+  data: CompareProbeResponse;
+}
+
+export interface ProbeCompareErrorMessage {
+  type: 'PROBE_COMPARE_RESPONSE';
+  success: false;
+  error: CompareError;
+}
+
 export interface ForceRefreshRequestMessage {
   type: 'COMPARE_REQUEST';
   data: AuctionData;
@@ -113,6 +310,35 @@ export type Message =
   | HistoryRequestMessage
   | HistoryResponseMessage
   | HistoryErrorMessage
+  | WatchlistRequestMessage
+  | WatchlistResponseMessage
+  | WatchlistErrorMessage
+  | WatchLotMessage
+  | WatchLotResponseMessage
+  | WatchLotErrorMessage
+  | UnwatchLotMessage
+  | TrendsRequestMessage
+  | TrendsResponseMessage
+  | TrendsErrorMessage
+  | RecordAuctionResultMessage
+  | AuctionResultsRequestMessage
+  | AuctionResultsResponseMessage
+  | AuctionResultsErrorMessage
+  | CachedCompareRequestMessage
+  | CachedCompareResponseMessage
+  | CachedCompareErrorMessage
+  | BatchCompareRequestMessage
+  | BatchCompareResponseMessage
+  | BatchCompareErrorMessage
+  | ProbeCompareRequestMessage
+  | ProbeCompareResponseMessage
+  | ProbeCompareErrorMessage
+  | FlagResultMessage
+  | FlagResultResponseMessage
+  | FlagResultErrorMessage
+  | ExtractResolveRequestMessage
+  | ExtractResolveResponseMessage
+  | ExtractResolveErrorMessage
   | ForceRefreshRequestMessage;
 
 /**
@@ -195,7 +421,9 @@ export async function requestComparisonWithRefresh(
     const { error } = (response as CompareErrorMessage)
     const err = new Error(error.message);
     (err as any).code = error.code;
-    (err as any).usage = (error as any).usage
+    (err as any).usage = (error as any).usage;
+    (err as any).credits = error.credits;
+    (err as any).cacheOnlyAvailable = error.cacheOnlyAvailable
     throw err
   }
 
@@ -242,3 +470,210 @@ export async function requestHistory(
 
   return (response as HistoryResponseMessage).data
 }
+
+/**
+ * Request the user's watched lots
+ */
+export async function requestWatchlist(): Promise<WatchedLot[]> {
+  const response = await sendToBackground<WatchlistResponseMessage | WatchlistErrorMessage>({
+    type: 'WATCHLIST_REQUEST',
+  })
+
+  if (!response.success) {
+    const { error } = (response as WatchlistErrorMessage)
+    const err = new Error(error.message);
+    (err as any).code = error.code
+    throw err
+  }
+
+  return (response as WatchlistResponseMessage).data
+}
+
+/**
+ * Watch a lot, or update the latest bid of an already watched lot
+ */
+export async function watchLot(request: WatchLotRequest): Promise<WatchedLot> {
+  const response = await sendToBackground<WatchLotResponseMessage | WatchLotErrorMessage>({
+    type: 'WATCH_LOT',
+    data: request,
+  })
+
+  if (!response.success) {
+    const { error } = (response as WatchLotErrorMessage)
+    const err = new Error(error.message);
+    (err as any).code = error.code
+    throw err
+  }
+
+  return (response as WatchLotResponseMessage).data
+}
+
+/**
+ * Stop watching a lot
+ */
+export async function unwatchLot(lotId: string): Promise<void> {
+  const response = await sendToBackground<{ success: boolean; error?: string }>({
+    type: 'UNWATCH_LOT',
+    lotId,
+  })
+
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to stop watching lot')
+  }
+}
+
+/**
+ * Request the web price trend for a product (by loose signature)
+ */
+export async function requestPriceTrend(signature: string): Promise<PriceTrendPoint[]> {
+  const response = await sendToBackground<TrendsResponseMessage | TrendsErrorMessage>({
+    type: 'TRENDS_REQUEST',
+    signature,
+  })
+
+  if (!response.success) {
+    const { error } = (response as TrendsErrorMessage)
+    const err = new Error(error.message);
+    (err as any).code = error.code
+    throw err
+  }
+
+  return (response as TrendsResponseMessage).data
+}
+
+/**
+ * Record the final sale price of a closed lot
+ */
+export async function recordAuctionResult(request: RecordAuctionResultRequest): Promise<void> {
+  const response = await sendToBackground<{ success: boolean; error?: string }>({
+    type: 'RECORD_AUCTION_RESULT',
+    data: request,
+  })
+
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to record auction result')
+  }
+}
+
+/**
+ * Request the hammer prices of similar lots sold on a site
+ */
+export async function requestSimilarSales(
+  domain: string,
+  signature?: string,
+  category?: string,
+  currency?: string
+): Promise<SimilarSales | null> {
+  const response = await sendToBackground<AuctionResultsResponseMessage | AuctionResultsErrorMessage>({
+    type: 'AUCTION_RESULTS_REQUEST',
+    domain,
+    signature,
+    category,
+    currency,
+  })
+
+  if (!response.success) {
+    const { error } = (response as AuctionResultsErrorMessage)
+    const err = new Error(error.message);
+    (err as any).code = error.code
+    throw err
+  }
+
+  return (response as AuctionResultsResponseMessage).data
+}
+
+/**
+ * Look up the lots of a catalog page in the compare cache (free, no fresh fetch)
+ */
+export async function requestCachedComparisons(items: AuctionData[]): Promise<CachedCompareItem[]> {
+  const response = await sendToBackground<CachedCompareResponseMessage | CachedCompareErrorMessage>({
+    type: 'CACHED_COMPARE_REQUEST',
+    items,
+  })
+
+  if (!response.success) {
+    const { error } = (response as CachedCompareErrorMessage)
+    const err = new Error(error.message);
+    (err as any).code = error.code
+    throw err
+  }
+
+  return (response as CachedCompareResponseMessage).data
+}
+
+/**
+ * Compare several lots in one call (one credit per fresh fetch)
+ */
+export async function requestBatchComparison(items: AuctionData[]): Promise<CompareBatchResponse> {
+  const response = await sendToBackground<BatchCompareResponseMessage | BatchCompareErrorMessage>({
+    type: 'BATCH_COMPARE_REQUEST',
+    items,
+  })
+
+  if (!response.success) {
+    const { error } = (response as BatchCompareErrorMessage)
+    const err = new Error(error.message);
+    (err as any).code = error.code
+    throw err
+  }
+
+  return (response as BatchCompareResponseMessage).data
+}
+
+/**
+ * Ask whether comparing a lot would be free (cache hit) or cost a credit
+ */
+export async function probeComparison(data: AuctionData): Promise<CompareProbeResponse> {
+  const response = await sendToBackground<ProbeCompareResponseMessage | ProbeCompareErrorMessage>({
+    type: 'PROBE_COMPARE_REQUEST',
+    data,
+  })
+
+  if (!response.success) {
+    const { error } = (response as ProbeCompareErrorMessage)
+    const err = new Error(error.message);
+    (err as any).code = error.code
+    throw err
+  }
+
+  return (response as ProbeCompareResponseMessage).data
+}
+
+/**
+ * Flag a web result of a cached comparison as "not the same product"
+ */
+export async function flagWebResult(cacheEntryId: string, resultUrl: string): Promise<CacheFeedbackResponse> {
+  const response = await sendToBackground<FlagResultResponseMessage | FlagResultErrorMessage>({
+    type: 'FLAG_RESULT',
+    cacheEntryId,
+    resultUrl,
+  })
+
+  if (!response.success) {
+    const { error } = (response as FlagResultErrorMessage)
+    const err = new Error(error.message);
+    (err as any).code = error.code
+    throw err
+  }
+
+  return (response as FlagResultResponseMessage).data
+}
+
+/**
+ * Ask the server's AI resolver to pick a lot page's title and price candidates
+ */
+export async function resolveExtraction(request: ExtractResolveRequest): Promise<ExtractResolveResponse> {
+  const response = await sendToBackground<ExtractResolveResponseMessage | ExtractResolveErrorMessage>({
+    type: 'EXTRACT_RESOLVE_REQUEST',
+    request,
+  })
+
+  if (!response.success) {
+    const { error } = (response as ExtractResolveErrorMessage)
+    const err = new Error(error.message);
+    (err as any).code = error.code
+    throw err
+  }
+
+  return (response as ExtractResolveResponseMessage).data
+}
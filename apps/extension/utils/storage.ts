@@ -15,8 +15,12 @@ export interface ExtensionSettings {
   disabledDomains: string[];
   /** Whether to auto-expand the overlay */
   autoExpand: boolean;
+  /** Only run comparisons automatically when they are free (cache hits) */
+  autoCompareFreeOnly: boolean;
   /** Default margin percentage for verdict */
   marginPercent: number;
+  /** Pickup/transport cost added to every auction total */
+  transportCost: number;
   /** Sites where user has granted permission (site IDs) */
   enabledSites: string[];
   /** Origins where user has hidden the extension overlay */
@@ -30,7 +34,9 @@ const DEFAULT_SETTINGS: ExtensionSettings = {
   apiBase: typeof __API_BASE__ !== 'undefined' ? __API_BASE__ : 'http://localhost:3001',
   disabledDomains: [],
   autoExpand: true,
+  autoCompareFreeOnly: false,
   marginPercent: 10,
+  transportCost: 0,
   enabledSites: [],
   hiddenOrigins: [],
 }
@@ -311,3 +317,23 @@ export async function getHiddenOrigins(): Promise<string[]> {
   const settings = await getSettings()
   return settings.hiddenOrigins
 }
+
+// ========== Watchlist Notifications ==========
+
+/**
+ * Get the verdict changes already notified, keyed by watched lot ID
+ * (value is the verdictChangedAt timestamp that triggered the notification)
+ */
+export async function getNotifiedVerdictChanges(): Promise<Record<string, string>> {
+  const result = await chrome.storage.local.get('watchlistNotified')
+  return (result.watchlistNotified as Record<string, string>) || {}
+}
+
+/**
+ * Save the verdict changes already notified
+ */
+export async function saveNotifiedVerdictChanges(
+  notified: Record<string, string>
+): Promise<void> {
+  await chrome.storage.local.set({ watchlistNotified: notified })
+}
@@ -21,7 +21,7 @@ export default defineConfig({
     name: 'Auction Price Comparator',
     description: 'Compare auction bid prices with web market prices',
     version: '0.1.1',
-    permissions: ['storage', 'activeTab', 'alarms', 'scripting'],
+    permissions: ['storage', 'activeTab', 'alarms', 'scripting', 'notifications'],
     // Use optional_host_permissions for privacy-friendly permission requests
     optional_host_permissions: OPTIONAL_HOST_PERMISSIONS,
     // Allow web app to send messages to extension for auto-auth
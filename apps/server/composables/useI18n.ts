@@ -125,6 +125,7 @@ const messages = {
     belowMarket: 'below market',
     aboveMarket: 'above market',
     atMarket: 'at market price',
+    priceTrend: 'Web price trend',
 
     // Free credit info
     freeSearchExplanation: 'One comparison = one price check on the internet. Recent results are reused automatically.',
@@ -353,6 +354,7 @@ const messages = {
     belowMarket: 'sous le marché',
     aboveMarket: 'au-dessus du marché',
     atMarket: 'au prix du marché',
+    priceTrend: 'Évolution du prix web',
 
     // Free credit info
     freeSearchExplanation: 'Une comparaison = une vérification de prix sur Internet. Les résultats récents sont réutilisés automatiquement.',
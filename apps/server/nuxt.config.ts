@@ -12,10 +12,32 @@ export default defineNuxtConfig({
 
   nitro: {
     preset: 'node-server',
+    experimental: {
+      tasks: true,
+    },
+    scheduledTasks: {
+      // Re-check watched lots every 15 minutes
+      '*/15 * * * *': ['watchlist:recheck'],
+      // Refresh popular cache entries before they expire
+      '0 * * * *': ['cache:refresh'],
+    },
   },
 
   runtimeConfig: {
     serpApiKey: process.env.SERPAPI_KEY || '',
+    // Shopping providers to query, comma-separated: 'serpapi', 'ebay', 'fixture'
+    shoppingProviders: process.env.SHOPPING_PROVIDERS || '',
+    ebayClientId: process.env.EBAY_CLIENT_ID || '',
+    ebayClientSecret: process.env.EBAY_CLIENT_SECRET || '',
+    // JSON fixture file for offline development (used by the 'fixture' provider)
+    shoppingFixturesPath: process.env.SHOPPING_FIXTURES_PATH || '',
+    // Provider searches per day for proactive refreshes of popular cache entries (default 50)
+    cacheRefreshDailyBudget: process.env.CACHE_REFRESH_DAILY_BUDGET || '',
+    // Resale value as a fraction of new price, used when no results match the lot condition
+    depreciationUsed: process.env.DEPRECIATION_USED || '',
+    depreciationRefurbished: process.env.DEPRECIATION_REFURBISHED || '',
+    // Key for admin endpoints (metal prices), sent as the X-Admin-Key header; empty disables them
+    adminApiKey: process.env.ADMIN_API_KEY || '',
     stripeSecretKey: process.env.STRIPE_SECRET_KEY || '',
     stripeWebhookSecret: process.env.STRIPE_WEBHOOK_SECRET || '',
     // Credit pack Stripe price IDs (one-time payments, EUR)
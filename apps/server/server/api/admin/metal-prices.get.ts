@@ -0,0 +1,27 @@
+import { requireAdmin } from '../../utils/auth';
+import { listMetalPrices } from '../../utils/metal-prices';
+
+export default defineEventHandler(async (event) => {
+  try {
+    requireAdmin(event);
+
+    return {
+      success: true,
+      prices: await listMetalPrices(),
+    };
+  } catch (error: any) {
+    if (error.statusCode === 401 || error.statusCode === 403) {
+      setResponseStatus(event, error.statusCode);
+      return error.data;
+    }
+    console.error('[MetalPrices] Error listing prices:', error);
+    setResponseStatus(event, 500);
+    return {
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to list metal prices',
+      },
+    };
+  }
+});
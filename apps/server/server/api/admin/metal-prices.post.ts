@@ -0,0 +1,56 @@
+import type { Currency, PreciousMetal } from '@auction-comparator/shared';
+import { requireAdmin } from '../../utils/auth';
+import { PRECIOUS_METALS, isValidPricePerGram, listMetalPrices, saveMetalPrices } from '../../utils/metal-prices';
+
+const CURRENCIES: Currency[] = ['EUR', 'USD', 'GBP'];
+
+interface UpdateMetalPricesRequest {
+  currency: Currency;
+  /** Price per gram of pure metal, by metal */
+  prices: Partial<Record<PreciousMetal, number>>;
+}
+
+export default defineEventHandler(async (event) => {
+  try {
+    requireAdmin(event);
+    const body = await readBody<UpdateMetalPricesRequest>(event);
+
+    const entries = Object.entries(body?.prices ?? {});
+    if (
+      !body?.currency
+      || !CURRENCIES.includes(body.currency)
+      || entries.length === 0
+      || entries.some(([metal, price]) => !PRECIOUS_METALS.includes(metal as PreciousMetal) || !isValidPricePerGram(price))
+    ) {
+      setResponseStatus(event, 400);
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Expected a currency and positive prices per gram for gold, silver or platinum',
+        },
+      };
+    }
+
+    await saveMetalPrices(body.currency, body.prices);
+
+    return {
+      success: true,
+      prices: await listMetalPrices(),
+    };
+  } catch (error: any) {
+    if (error.statusCode === 401 || error.statusCode === 403) {
+      setResponseStatus(event, error.statusCode);
+      return error.data;
+    }
+    console.error('[MetalPrices] Error updating prices:', error);
+    setResponseStatus(event, 500);
+    return {
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to update metal prices',
+      },
+    };
+  }
+});
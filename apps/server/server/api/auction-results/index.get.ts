@@ -0,0 +1,41 @@
+import type { AuctionResultsResponse, ApiError } from '@auction-comparator/shared';
+import { requireAuth } from '../../utils/auth';
+import {
+  DEFAULT_RESULTS_DAYS,
+  MAX_RESULTS_DAYS,
+  getAuctionResultAggregates,
+} from '../../utils/auction-results';
+
+export default defineEventHandler(async (event): Promise<AuctionResultsResponse | ApiError> => {
+  try {
+    await requireAuth(event);
+
+    const query = getQuery(event);
+    const aggregates = await getAuctionResultAggregates({
+      domain: (query.domain as string | undefined) || undefined,
+      category: (query.category as string | undefined) || undefined,
+      signatureLoose: (query.signature as string | undefined) || undefined,
+      currency: (query.currency as string | undefined) || undefined,
+      days: Math.min(parseInt(query.days as string) || DEFAULT_RESULTS_DAYS, MAX_RESULTS_DAYS),
+    });
+
+    return {
+      success: true,
+      ...aggregates,
+    };
+  } catch (error: any) {
+    if (error.statusCode === 401) {
+      setResponseStatus(event, 401);
+      return error.data;
+    }
+    console.error('[AuctionResults] Error:', error);
+    setResponseStatus(event, 500);
+    return {
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to get auction results',
+      },
+    };
+  }
+});
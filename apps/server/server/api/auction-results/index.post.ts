@@ -0,0 +1,50 @@
+import type { RecordAuctionResultRequest, RecordAuctionResultResponse, ApiError } from '@auction-comparator/shared';
+import { requireAuth } from '../../utils/auth';
+import { recordAuctionResult } from '../../utils/auction-results';
+
+export default defineEventHandler(async (event): Promise<RecordAuctionResultResponse | ApiError> => {
+  try {
+    const user = await requireAuth(event);
+    const body = await readBody<RecordAuctionResultRequest>(event);
+
+    if (
+      !body?.lotUrl
+      || !body.siteDomain
+      || !body.title
+      || !body.currency
+      || typeof body.hammerPrice !== 'number'
+      || body.hammerPrice <= 0
+    ) {
+      setResponseStatus(event, 400);
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Missing or invalid sale fields',
+        },
+      };
+    }
+
+    const id = await recordAuctionResult(user.id, body);
+    console.log(`[AuctionResults] Recorded sale on ${body.siteDomain}: ${body.hammerPrice} ${body.currency}`);
+
+    return {
+      success: true,
+      id,
+    };
+  } catch (error: any) {
+    if (error.statusCode === 401) {
+      setResponseStatus(event, 401);
+      return error.data;
+    }
+    console.error('[AuctionResults] Error recording sale:', error);
+    setResponseStatus(event, 500);
+    return {
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to record auction result',
+      },
+    };
+  }
+});
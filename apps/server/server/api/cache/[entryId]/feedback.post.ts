@@ -0,0 +1,54 @@
+import type { ApiError, CacheFeedbackRequest, CacheFeedbackResponse } from '@auction-comparator/shared';
+import { requireAuth } from '../../../utils/auth';
+import { flagCacheResult } from '../../../utils/cache-feedback';
+
+export default defineEventHandler(async (event): Promise<CacheFeedbackResponse | ApiError> => {
+  try {
+    const user = await requireAuth(event);
+    const entryId = getRouterParam(event, 'entryId');
+    const body = await readBody<CacheFeedbackRequest>(event);
+
+    if (!entryId || !body?.resultUrl) {
+      setResponseStatus(event, 400);
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Cache entry ID and resultUrl are required',
+        },
+      };
+    }
+
+    const outcome = await flagCacheResult(entryId, user.id, body.resultUrl);
+
+    if (!outcome) {
+      setResponseStatus(event, 404);
+      return {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Result not found in this cache entry',
+        },
+      };
+    }
+
+    return {
+      success: true,
+      ...outcome,
+    };
+  } catch (error: any) {
+    if (error.statusCode === 401) {
+      setResponseStatus(event, 401);
+      return error.data;
+    }
+    console.error('[CacheFeedback] Error flagging result:', error);
+    setResponseStatus(event, 500);
+    return {
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to record feedback',
+      },
+    };
+  }
+});
@@ -1,57 +1,22 @@
 import type {
   CompareRequest,
-  CompareResponse,
   CompareError,
-  ItemCategory,
-  NormalizeRequest,
-  NormalizedResult,
-  CompareSource,
-} from '@auction-comparator/shared';
-import {
-  calculatePriceStats,
-  calculateConfidence,
-  calculateVerdict,
 } from '@auction-comparator/shared';
 import { getShoppingProvider } from '../providers';
 import { checkRateLimit, getRemainingRequests } from '../utils/rateLimit';
-import { buildSearchQuery } from '../utils/query';
 import { requireAuth } from '../utils/auth';
-import { normalizeHeuristic, generateNormalizeCacheKey } from '../utils/normalizer-heuristic';
-import { getNormalizerProvider } from '../utils/normalizer-providers';
-import { getCachedNormalization, setCachedNormalization } from '../utils/normalize-cache';
-import {
-  getDeterministicHints,
-  canonicalize,
-  computeSignatures,
-  getDefaultCacheTtl,
-} from '../utils/canonicalizer';
+import { resolveCache } from '../utils/compare-cache';
+import { hasCreditsAvailable } from '../utils/credits';
+import { isValidMarginPercent, resolveVerdictMargin } from '../utils/preferences';
 import {
-  resolveCache,
-  storeCacheEntry,
-  recordSearchHistory,
-} from '../utils/compare-cache';
-import { incrementCacheHit } from '../utils/quota';
-import {
-  hasCreditsAvailable,
-  consumeCredit,
-  getOrCreateUserCredits,
-} from '../utils/credits';
-import { deduplicateRequest } from '../utils/inflight';
-
-// Vehicle auction sites (fallback detection)
-const VEHICLE_SITES = [
-  'alcopa-auction.fr',
-  'alcopa-auction.com',
-  'vpauto.fr',
-  'encheres-vo.com',
-  'agorastore.fr',
-];
-
-function detectCategory(siteDomain?: string): ItemCategory {
-  if (!siteDomain) return 'product';
-  const domain = siteDomain.toLowerCase();
-  return VEHICLE_SITES.some(site => domain.includes(site)) ? 'vehicle' : 'product';
-}
+  compareCacheOnly,
+  compareFresh,
+  compareFromCache,
+  getCompareContext,
+  isValidCompareRequest,
+  normalizeCompareRequest,
+  refineCompareContext,
+} from '../utils/compare';
 
 export default defineEventHandler(async (event) => {
   // Require authentication
@@ -92,7 +57,7 @@ export default defineEventHandler(async (event) => {
   const body = await readBody<CompareRequest>(event);
 
   // Validate required fields
-  if (!body?.title || !body?.currency || !body?.locale || body?.auctionPrice === undefined) {
+  if (!isValidCompareRequest(body)) {
     setResponseStatus(event, 400);
     return {
       code: 'INVALID_REQUEST',
@@ -100,24 +65,29 @@ export default defineEventHandler(async (event) => {
     } satisfies CompareError;
   }
 
-  // Get API key from runtime config
-  const config = useRuntimeConfig();
-  const apiKey = config.serpApiKey;
+  if (body.marginPercent !== undefined && !isValidMarginPercent(body.marginPercent)) {
+    setResponseStatus(event, 400);
+    return {
+      code: 'INVALID_REQUEST',
+      message: 'marginPercent must be a number between 0 and 100',
+    } satisfies CompareError;
+  }
 
-  if (!apiKey) {
+  // Get the configured shopping providers
+  const shoppingProvider = getShoppingProvider();
+
+  if (!shoppingProvider.isAvailable()) {
     setResponseStatus(event, 500);
     return {
       code: 'API_ERROR',
-      message: 'Server not configured: missing SERPAPI_KEY',
+      message: 'Server not configured: no shopping provider available',
     } satisfies CompareError;
   }
 
-  // Use category from request, or detect from site domain
-  const category = body.category || detectCategory(body.siteDomain);
-  const locale = body.locale || 'fr';
-  const domain = body.siteDomain || 'unknown';
-  const lotUrl = body.lotUrl || '';
+  const context = getCompareContext(body);
+  const { category, domain } = context;
   const forceRefresh = body.forceRefresh || false;
+  const marginPct = await resolveVerdictMargin(user.id, body.marginPercent);
 
   console.log('[Compare] Request received:', {
     title: body.title?.slice(0, 50),
@@ -128,94 +98,12 @@ export default defineEventHandler(async (event) => {
     siteDomain: domain,
     extractionConfidence: body.extractionConfidence,
     forceRefresh,
+    marginPct,
   });
 
   // Step 1: Normalize the product
-  const extractionConfidence = body.extractionConfidence || 'medium';
-  const hasBrandAndModel = !!(body.brand && body.model);
-  const shouldNormalize = hasBrandAndModel
-    ? false
-    : (body.useNormalization ?? (extractionConfidence !== 'high'));
-
-  let normalized: NormalizedResult;
-
-  if (shouldNormalize) {
-    // Prepare normalization request with deterministic hints
-    const hints = getDeterministicHints(body.title);
-    const normalizeRequest: NormalizeRequest = {
-      rawTitle: body.title,
-      siteDomain: domain,
-      locale,
-      brandHint: body.brand,
-      modelHint: body.model,
-      yearHint: body.year,
-      categoryHint: category,
-      lotUrl,
-      hints,
-    };
-
-    const normalizeCacheKey = generateNormalizeCacheKey(normalizeRequest);
-    let cachedNormalized = getCachedNormalization(normalizeCacheKey);
-
-    if (cachedNormalized) {
-      // Re-canonicalize to ensure signatures are computed
-      normalized = canonicalize(cachedNormalized, locale);
-    } else {
-      // Try AI normalization first, fall back to heuristic
-      const provider = getNormalizerProvider();
-
-      if (provider && provider.isAvailable()) {
-        try {
-          console.log('[Compare] Using AI normalization for:', body.title.slice(0, 50));
-          normalized = await provider.normalize(normalizeRequest);
-          normalized = canonicalize(normalized, locale);
-        } catch (error) {
-          console.error('[Compare] AI normalization failed, using heuristic:', error);
-          normalized = normalizeHeuristic(normalizeRequest);
-        }
-      } else {
-        console.log('[Compare] Using heuristic normalization for:', body.title.slice(0, 50));
-        normalized = normalizeHeuristic(normalizeRequest);
-      }
-
-      // Cache the normalization result
-      setCachedNormalization(normalizeCacheKey, normalized);
-    }
-  } else {
-    // High confidence OR has brand+model - use deterministic query building
-    const hints = getDeterministicHints(body.title);
-    const query = buildSearchQuery(body);
-
-    // Create a minimal normalized result
-    normalized = {
-      normalizedTitle: body.title,
-      brand: body.brand || null,
-      model: body.model || null,
-      reference: null,
-      capacity: null,
-      capacity_gb: null,
-      condition: 'unknown',
-      condition_grade: 'unknown',
-      functional_state: hints.brokenConfidence >= 0.8 ? 'broken' : 'ok',
-      isAccessory: false,
-      category,
-      query,
-      altQueries: [],
-      confidence: 0.8,
-      conditionConfidence: 0.3,
-      usedAI: false,
-      hints,
-      signatures: computeSignatures(
-        body.brand || null,
-        body.model || null,
-        null,
-        null,
-        hints.brokenConfidence >= 0.8 ? 'broken' : 'ok',
-        'unknown',
-        locale
-      ),
-    };
-  }
+  const normalized = await normalizeCompareRequest(body, context);
+  const prepared = { body, context: refineCompareContext(context, body, normalized), normalized };
 
   console.log('[Compare] Normalized result:', {
     query: normalized.query,
@@ -247,56 +135,12 @@ export default defineEventHandler(async (event) => {
     // Cache hit - don't consume credits (cache hits are FREE!)
     console.log('[Compare] Cache HIT (' + cacheResult.source + ') - FREE');
 
-    await incrementCacheHit(user.id);
-
-    // Record in history
-    await recordSearchHistory(
+    return compareFromCache(
       user.id,
-      domain,
-      lotUrl,
-      body.title,
-      normalized,
-      cacheResult.source,
-      cacheResult.entry.id,
-      body.auctionPrice,
-      body.currency
+      prepared,
+      { entry: cacheResult.entry, source: cacheResult.source },
+      marginPct
     );
-
-    // Recalculate verdict with current auction price
-    const verdict = calculateVerdict(body.auctionPrice, cacheResult.entry.stats);
-
-    // Get current credits (for display, not consumption)
-    const currentCredits = await getOrCreateUserCredits(user.id);
-
-    return {
-      queryUsed: cacheResult.entry.queryUsed,
-      results: cacheResult.entry.results,
-      stats: cacheResult.entry.stats,
-      confidence: cacheResult.entry.confidence,
-      verdict,
-      cachedAt: cacheResult.entry.fetchedAt.getTime(),
-      expiresAt: cacheResult.entry.expiresAt.getTime(),
-      cache: {
-        source: cacheResult.source,
-        cacheEntryId: cacheResult.entry.id,
-        fetchedAt: cacheResult.entry.fetchedAt.getTime(),
-        expiresAt: cacheResult.entry.expiresAt.getTime(),
-        signatureUsed: cacheResult.source === 'cache_strict' ? signatures.strict : signatures.loose,
-      },
-      normalized: {
-        brand: normalized.brand,
-        model: normalized.model,
-        capacity_gb: normalized.capacity_gb,
-        condition_grade: normalized.condition_grade,
-        functional_state: normalized.functional_state,
-        category: normalized.category,
-        signatures,
-      },
-      credits: {
-        balance: currentCredits.balance,
-        freeAvailable: currentCredits.freeCreditsGranted === 0,
-      },
-    } satisfies CompareResponse;
   }
 
   // Cache miss - need fresh fetch
@@ -307,202 +151,15 @@ export default defineEventHandler(async (event) => {
   if (!creditCheck.available) {
     console.log('[Compare] No credits available');
 
-    const userCredits = await getOrCreateUserCredits(user.id);
-
-    setResponseStatus(event, 402);
-    return {
-      code: 'NO_CREDITS',
-      message: 'No credits remaining. Purchase credits to continue.',
-      credits: {
-        balance: userCredits.balance,
-        freeAvailable: userCredits.freeCreditsGranted === 0,
-      },
-      cacheOnlyAvailable: false,
-    } satisfies CompareError;
+    const outcome = await compareCacheOnly(user.id, prepared, marginPct);
+    setResponseStatus(event, outcome.status);
+    return outcome.body;
   }
 
   console.log('[Compare] Credits available via:', creditCheck.source);
 
-  // Step 4: Deduplicate in-flight requests and perform fresh fetch
-  const query = normalized.query;
-
-  const { result: fetchResult, wasDeduped } = await deduplicateRequest(
-    signatures.strict,
-    async () => {
-      console.log('[Compare] Performing fresh fetch for query:', query);
-
-      const provider = getShoppingProvider(apiKey);
-      const results = await provider.search({
-        query,
-        currency: body.currency,
-        locale,
-        maxResults: 15,
-        category,
-      });
-
-      return results;
-    }
-  );
-
-  if (wasDeduped) {
-    console.log('[Compare] Request was deduplicated');
-  }
-
-  console.log(`[Compare] Search returned ${fetchResult.length} raw results`);
-
-  // Filter and sort results by relevance
-  const relevanceThreshold = category === 'vehicle' ? 0.15 : 0.25;
-
-  let filteredResults = fetchResult
-    .filter((r) => r.relevanceScore >= relevanceThreshold)
-    .sort((a, b) => b.relevanceScore - a.relevanceScore);
-
-  // Filter out results from the same auction site (useless for price comparison)
-  if (domain && domain !== 'unknown') {
-    const domainLower = domain.toLowerCase();
-    const originalCount = filteredResults.length;
-
-    filteredResults = filteredResults.filter((r) => {
-      if (!r.source) return true;
-      const sourceLower = r.source.toLowerCase();
-
-      // Extract base domain (e.g., "agorastore" from "agorastore.fr" or "www.agorastore.fr")
-      const auctionBaseDomain = domainLower.replace(/^www\./, '').split('.')[0];
-      const resultBaseDomain = sourceLower.replace(/^www\./, '').split('.')[0];
-
-      // Also check if the URL contains the auction site domain
-      const urlContainsAuctionSite = r.url?.toLowerCase().includes(auctionBaseDomain);
-
-      return resultBaseDomain !== auctionBaseDomain && !urlContainsAuctionSite;
-    });
-
-    if (filteredResults.length < originalCount) {
-      console.log(`[Compare] Filtered out ${originalCount - filteredResults.length} results from same auction site (${domain})`);
-    }
-  }
-
-  // For vehicles, filter by price sanity check
-  if (category === 'vehicle' && body.auctionPrice > 0) {
-    const minReasonablePrice = body.auctionPrice * 0.2;
-    const originalCount = filteredResults.length;
-    filteredResults = filteredResults.filter((r) => r.price >= minReasonablePrice);
-    if (filteredResults.length < originalCount) {
-      console.log(`[Compare] Filtered out ${originalCount - filteredResults.length} vehicle results with suspiciously low prices`);
-    }
-  }
-
-  filteredResults = filteredResults.slice(0, 10);
-
-  console.log(`[Compare] After filtering (threshold ${relevanceThreshold}): ${filteredResults.length} results`);
-
-  // Handle no results
-  if (filteredResults.length === 0) {
-    if (fetchResult.length > 0) {
-      // Try relaxed filtering
-      const lowestThreshold = 0.05;
-      const relaxedResults = fetchResult
-        .filter((r) => r.relevanceScore >= lowestThreshold)
-        .sort((a, b) => b.relevanceScore - a.relevanceScore)
-        .slice(0, 10);
-
-      if (relaxedResults.length > 0) {
-        console.log(`[Compare] Using relaxed filtering: ${relaxedResults.length} results`);
-        filteredResults = relaxedResults;
-      }
-    }
-
-    if (filteredResults.length === 0) {
-      // Record failed search in history
-      await recordSearchHistory(
-        user.id,
-        domain,
-        lotUrl,
-        body.title,
-        normalized,
-        'fresh_fetch',
-        null,
-        body.auctionPrice,
-        body.currency
-      );
-
-      // Still consume credit for the API call (it was a real SerpApi request)
-      const noResultConsumeResult = await consumeCredit(user.id, 'no_results_' + crypto.randomUUID());
-      console.log('[Compare] Consumed credit for no-results fetch:', noResultConsumeResult);
-
-      setResponseStatus(event, 404);
-      return {
-        code: 'NO_RESULTS',
-        message: `No comparable ${category === 'vehicle' ? 'vehicles' : 'products'} found for: "${query}"`,
-      } satisfies CompareError;
-    }
-  }
-
-  // Calculate statistics
-  const stats = calculatePriceStats(filteredResults);
-  const confidence = calculateConfidence(filteredResults);
-  const verdict = calculateVerdict(body.auctionPrice, stats);
-
-  // Step 5: Store in cache
-  const cacheEntry = await storeCacheEntry(
-    signatures,
-    query,
-    filteredResults,
-    stats,
-    confidence,
-    getDefaultCacheTtl()
-  );
-
-  // Step 6: Consume credit and record history
-  const consumeResult = await consumeCredit(user.id, cacheEntry.id);
-  if (!consumeResult.success) {
-    console.error('[Compare] Failed to consume credit - race condition?');
-    // Continue anyway since we already made the API call
-  }
-
-  await recordSearchHistory(
-    user.id,
-    domain,
-    lotUrl,
-    body.title,
-    normalized,
-    'fresh_fetch',
-    cacheEntry.id,
-    body.auctionPrice,
-    body.currency
-  );
-
-  // Get updated credits info
-  const updatedCredits = await getOrCreateUserCredits(user.id);
-
-  console.log('[Compare] Fresh fetch complete, credits remaining:', updatedCredits.balance);
-
-  return {
-    queryUsed: query,
-    results: filteredResults,
-    stats,
-    confidence,
-    verdict,
-    cachedAt: cacheEntry.fetchedAt.getTime(),
-    expiresAt: cacheEntry.expiresAt.getTime(),
-    cache: {
-      source: 'fresh_fetch',
-      cacheEntryId: cacheEntry.id,
-      fetchedAt: cacheEntry.fetchedAt.getTime(),
-      expiresAt: cacheEntry.expiresAt.getTime(),
-      signatureUsed: signatures.strict,
-    },
-    normalized: {
-      brand: normalized.brand,
-      model: normalized.model,
-      capacity_gb: normalized.capacity_gb,
-      condition_grade: normalized.condition_grade,
-      functional_state: normalized.functional_state,
-      category: normalized.category,
-      signatures,
-    },
-    credits: {
-      balance: updatedCredits.balance,
-      freeAvailable: updatedCredits.freeCreditsGranted === 0,
-    },
-  } satisfies CompareResponse;
+  // Step 4: Fresh fetch, cache, consume credit and record history
+  const outcome = await compareFresh(user.id, prepared, shoppingProvider, marginPct);
+  setResponseStatus(event, outcome.status);
+  return outcome.body;
 });
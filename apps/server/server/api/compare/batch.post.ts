@@ -0,0 +1,200 @@
+import type {
+  CompareBatchRequest,
+  CompareBatchResponse,
+  CompareError,
+  CompareResponse,
+} from '@auction-comparator/shared';
+import { getShoppingProvider } from '../../providers';
+import { checkRateLimit, getRemainingRequests } from '../../utils/rateLimit';
+import { requireAuth } from '../../utils/auth';
+import { resolveCache } from '../../utils/compare-cache';
+import { hasCreditsAvailable } from '../../utils/credits';
+import { FREE_CREDITS } from '../../utils/credit-packs';
+import { mapWithConcurrency } from '../../utils/inflight';
+import { isValidMarginPercent, resolveVerdictMargin } from '../../utils/preferences';
+import {
+  compareCacheOnly,
+  compareFresh,
+  compareFromCache,
+  getCompareContext,
+  getCreditsInfo,
+  isValidCompareRequest,
+  normalizeCompareRequest,
+  refineCompareContext,
+  type PreparedCompare,
+} from '../../utils/compare';
+
+/** Lots per batch */
+const MAX_ITEMS = 20;
+
+/** Normalizer and search provider calls in flight at once */
+const CONCURRENCY = 3;
+
+/**
+ * Compare several lots in one call
+ * Lots are normalized together, then answered from cache where possible.
+ * Misses get one fresh fetch per distinct product signature, charged one
+ * credit each, until the user's credits run out; the remaining misses get
+ * a NO_CREDITS error. Items are returned in request order.
+ */
+export default defineEventHandler(async (event) => {
+  let user;
+  try {
+    user = await requireAuth(event);
+  } catch (error: any) {
+    setResponseStatus(event, 401);
+    return {
+      code: 'UNAUTHORIZED',
+      message: 'Authentication required',
+    } satisfies CompareError;
+  }
+
+  // The batch counts as one request; fresh fetches are bounded by credits
+  const retryAfter = checkRateLimit(user.id);
+  if (retryAfter > 0) {
+    setResponseStatus(event, 429);
+    event.node.res.setHeader('Retry-After', String(retryAfter));
+    return {
+      code: 'RATE_LIMITED',
+      message: 'Too many requests. Please try again later.',
+      retryAfter,
+    } satisfies CompareError;
+  }
+
+  event.node.res.setHeader('X-RateLimit-Remaining', String(getRemainingRequests(user.id)));
+
+  const body = await readBody<CompareBatchRequest>(event);
+
+  if (!Array.isArray(body?.items) || body.items.length === 0 || body.items.length > MAX_ITEMS) {
+    setResponseStatus(event, 400);
+    return {
+      code: 'INVALID_REQUEST',
+      message: `items must be an array of 1 to ${MAX_ITEMS} compare requests`,
+    } satisfies CompareError;
+  }
+
+  if (body.marginPercent !== undefined && !isValidMarginPercent(body.marginPercent)) {
+    setResponseStatus(event, 400);
+    return {
+      code: 'INVALID_REQUEST',
+      message: 'marginPercent must be a number between 0 and 100',
+    } satisfies CompareError;
+  }
+
+  const shoppingProvider = getShoppingProvider();
+
+  if (!shoppingProvider.isAvailable()) {
+    setResponseStatus(event, 500);
+    return {
+      code: 'API_ERROR',
+      message: 'Server not configured: no shopping provider available',
+    } satisfies CompareError;
+  }
+
+  const marginPct = await resolveVerdictMargin(user.id, body.marginPercent);
+  const results = new Array<CompareResponse | CompareError>(body.items.length);
+
+  console.log(`[Compare] Batch of ${body.items.length} lots received`);
+
+  // Step 1: Normalize all lots
+  const prepared = await mapWithConcurrency(body.items, CONCURRENCY, async (item): Promise<PreparedCompare | null> => {
+    if (!isValidCompareRequest(item)) return null;
+    const context = getCompareContext(item);
+    const normalized = await normalizeCompareRequest(item, context);
+    return { body: item, context: refineCompareContext(context, item, normalized), normalized };
+  });
+
+  // Step 2: Answer from cache (free)
+  const misses: number[] = [];
+  for (const [index, item] of prepared.entries()) {
+    if (!item) {
+      results[index] = {
+        code: 'INVALID_REQUEST',
+        message: 'Missing required fields: title, currency, locale, auctionPrice',
+      };
+      continue;
+    }
+
+    const cacheResult = await resolveCache(
+      item.normalized.signatures!,
+      item.normalized.condition_grade,
+      item.normalized.conditionConfidence,
+      item.body.forceRefresh || false
+    );
+
+    if (cacheResult.entry) {
+      results[index] = await compareFromCache(
+        user.id,
+        item,
+        { entry: cacheResult.entry, source: cacheResult.source },
+        marginPct
+      );
+    } else {
+      misses.push(index);
+    }
+  }
+
+  // Step 3: One fresh fetch per distinct signature, within the credit budget
+  const creditCheck = await hasCreditsAvailable(user.id);
+  let budget = creditCheck.balance + (creditCheck.freeAvailable ? FREE_CREDITS : 0);
+
+  const leaders = new Map<string, number>();
+  const followers: number[] = [];
+  for (const index of misses) {
+    const signature = prepared[index]!.normalized.signatures!.strict;
+    if (leaders.has(signature)) {
+      followers.push(index);
+    } else if (budget > 0) {
+      leaders.set(signature, index);
+      budget--;
+    } else {
+      results[index] = (await compareCacheOnly(user.id, prepared[index]!, marginPct)).body;
+    }
+  }
+
+  console.log(`[Compare] Batch: ${body.items.length - misses.length} from cache, ${leaders.size} fresh fetches`);
+
+  await mapWithConcurrency([...leaders.values()], CONCURRENCY, async (index) => {
+    const item = prepared[index]!;
+    try {
+      const outcome = await compareFresh(user.id, item, shoppingProvider, marginPct);
+      results[index] = outcome.body;
+    } catch (error) {
+      console.error('[Compare] Batch fresh fetch failed:', error);
+      results[index] = {
+        code: 'API_ERROR',
+        message: 'Price search failed for this lot',
+      };
+    }
+  });
+
+  // Step 4: Lots sharing a signature reuse the fresh entry (no extra credit)
+  for (const index of followers) {
+    const item = prepared[index]!;
+    const leaderResult = results[leaders.get(item.normalized.signatures!.strict)!]!;
+
+    const cacheResult = 'code' in leaderResult
+      ? null
+      : await resolveCache(
+        item.normalized.signatures!,
+        item.normalized.condition_grade,
+        item.normalized.conditionConfidence,
+        false
+      );
+
+    results[index] = cacheResult?.entry
+      ? await compareFromCache(
+        user.id,
+        item,
+        { entry: cacheResult.entry, source: cacheResult.source },
+        marginPct
+      )
+      : leaderResult;
+  }
+
+  return {
+    success: true,
+    items: results,
+    credits: await getCreditsInfo(user.id),
+  } satisfies CompareBatchResponse;
+});
@@ -0,0 +1,127 @@
+import type {
+  CachedCompareItem,
+  CachedCompareRequest,
+  CachedCompareResponse,
+  CompareError,
+  CompareRequest,
+} from '@auction-comparator/shared';
+import { checkRateLimit, getRemainingRequests } from '../../utils/rateLimit';
+import { requireAuth } from '../../utils/auth';
+import { resolveCache } from '../../utils/compare-cache';
+import { resolveVerdictMargin } from '../../utils/preferences';
+import { filterAccessoryMismatches } from '../../utils/verdict';
+import {
+  evaluateForLot,
+  getCompareContext,
+  isValidCompareRequest,
+  normalizeCompareRequest,
+  refineCompareContext,
+} from '../../utils/compare';
+
+/** Lots per lookup (a catalog page) */
+const MAX_ITEMS = 50;
+
+/**
+ * Look up one lot in the compare cache
+ */
+async function lookupCached(item: CompareRequest, marginPct: number): Promise<CachedCompareItem> {
+  const lotUrl = item?.lotUrl;
+  if (!isValidCompareRequest(item)) {
+    return { lotUrl, status: 'invalid' };
+  }
+
+  // Heuristic normalization only: a cache-only lookup never spends an AI call
+  const initialContext = getCompareContext(item);
+  const normalized = await normalizeCompareRequest(item, initialContext, { useAI: false });
+  const context = refineCompareContext(initialContext, item, normalized);
+  const signatures = normalized.signatures!;
+  const cacheResult = await resolveCache(
+    signatures,
+    normalized.condition_grade,
+    normalized.conditionConfidence,
+    false
+  );
+
+  if (!cacheResult.entry) {
+    return { lotUrl, status: 'miss' };
+  }
+
+  // Same basis as a full comparison: wine lots per bottle, vehicles adjusted
+  const evaluation = evaluateForLot(
+    { body: item, context, normalized },
+    filterAccessoryMismatches(cacheResult.entry.results, normalized.isAccessory, context.category).results,
+    marginPct
+  );
+
+  return {
+    lotUrl,
+    status: 'hit',
+    verdict: evaluation.verdict,
+    stats: evaluation.verdictBasis.stats,
+    confidence: cacheResult.entry.confidence,
+    cache: {
+      source: cacheResult.source,
+      cacheEntryId: cacheResult.entry.id,
+      fetchedAt: cacheResult.entry.fetchedAt.getTime(),
+      expiresAt: cacheResult.entry.expiresAt.getTime(),
+      signatureUsed: cacheResult.source === 'cache_strict' ? signatures.strict : signatures.loose,
+    },
+  };
+}
+
+/**
+ * Cache-only comparison of the lots on a catalog page
+ * Always free: no credits, no search provider calls and no history entries.
+ * Misses are reported so the caller can offer a paid comparison.
+ */
+export default defineEventHandler(async (event) => {
+  let user;
+  try {
+    user = await requireAuth(event);
+  } catch (error: any) {
+    setResponseStatus(event, 401);
+    return {
+      code: 'UNAUTHORIZED',
+      message: 'Authentication required',
+    } satisfies CompareError;
+  }
+
+  // The whole page counts as one request
+  const retryAfter = checkRateLimit(user.id);
+  if (retryAfter > 0) {
+    setResponseStatus(event, 429);
+    event.node.res.setHeader('Retry-After', String(retryAfter));
+    return {
+      code: 'RATE_LIMITED',
+      message: 'Too many requests. Please try again later.',
+      retryAfter,
+    } satisfies CompareError;
+  }
+
+  event.node.res.setHeader('X-RateLimit-Remaining', String(getRemainingRequests(user.id)));
+
+  const body = await readBody<CachedCompareRequest>(event);
+
+  if (!Array.isArray(body?.items) || body.items.length === 0 || body.items.length > MAX_ITEMS) {
+    setResponseStatus(event, 400);
+    return {
+      code: 'INVALID_REQUEST',
+      message: `items must be an array of 1 to ${MAX_ITEMS} compare requests`,
+    } satisfies CompareError;
+  }
+
+  const marginPct = await resolveVerdictMargin(user.id);
+
+  const items: CachedCompareItem[] = [];
+  for (const item of body.items) {
+    items.push(await lookupCached(item, marginPct));
+  }
+
+  const hits = items.filter(item => item.status === 'hit').length;
+  console.log(`[Compare] Cached lookup: ${hits}/${items.length} lots in cache`);
+
+  return {
+    success: true,
+    items,
+  } satisfies CachedCompareResponse;
+});
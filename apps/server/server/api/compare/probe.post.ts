@@ -0,0 +1,92 @@
+import type {
+  CompareError,
+  CompareProbeResponse,
+  CompareProbeSource,
+  CompareRequest,
+  ProductSignatures,
+} from '@auction-comparator/shared';
+import { checkRateLimit, getRemainingRequests } from '../../utils/rateLimit';
+import { requireAuth } from '../../utils/auth';
+import { resolveCache, resolveStaleCache } from '../../utils/compare-cache';
+import { hasCreditsAvailable } from '../../utils/credits';
+import { getCompareContext, isValidCompareRequest, normalizeCompareRequest } from '../../utils/compare';
+
+/**
+ * What a cache miss would turn into: a paid fresh fetch, or without credits
+ * the free stale entry cache-only mode serves (none on a forced refresh)
+ */
+async function probeMiss(
+  userId: string,
+  signatures: ProductSignatures,
+  forceRefresh: boolean
+): Promise<CompareProbeSource> {
+  const creditCheck = await hasCreditsAvailable(userId);
+  if (creditCheck.available) return 'miss';
+
+  const staleResult = await resolveStaleCache(signatures);
+  return staleResult.entry && !forceRefresh ? 'cache_stale' : 'no_credits';
+}
+
+/**
+ * Tell whether a comparison would be free (cache hit) or cost a credit
+ * Runs the same normalization and cache lookup as /api/compare, so the answer
+ * matches what a comparison would do, but never spends credits, never calls
+ * the search provider and records no history.
+ */
+export default defineEventHandler(async (event) => {
+  let user;
+  try {
+    user = await requireAuth(event);
+  } catch (error: any) {
+    setResponseStatus(event, 401);
+    return {
+      code: 'UNAUTHORIZED',
+      message: 'Authentication required',
+    } satisfies CompareError;
+  }
+
+  // Probes run on every overlay load: their own limit keeps the compare budget whole
+  const retryAfter = checkRateLimit(user.id, 'probe');
+  if (retryAfter > 0) {
+    setResponseStatus(event, 429);
+    event.node.res.setHeader('Retry-After', String(retryAfter));
+    return {
+      code: 'RATE_LIMITED',
+      message: 'Too many requests. Please try again later.',
+      retryAfter,
+    } satisfies CompareError;
+  }
+
+  event.node.res.setHeader('X-RateLimit-Remaining', String(getRemainingRequests(user.id, 'probe')));
+
+  const body = await readBody<CompareRequest>(event);
+
+  if (!isValidCompareRequest(body)) {
+    setResponseStatus(event, 400);
+    return {
+      code: 'INVALID_REQUEST',
+      message: 'Missing required fields: title, currency, locale, auctionPrice',
+    } satisfies CompareError;
+  }
+
+  // Same normalization as a comparison: its result is cached, so the
+  // comparison that follows reuses it and looks up the same signatures
+  const normalized = await normalizeCompareRequest(body, getCompareContext(body));
+  const cacheResult = await resolveCache(
+    normalized.signatures!,
+    normalized.condition_grade,
+    normalized.conditionConfidence,
+    body.forceRefresh || false
+  );
+
+  const source = cacheResult.entry && cacheResult.source !== 'fresh_fetch'
+    ? cacheResult.source as CompareProbeSource
+    : await probeMiss(user.id, normalized.signatures!, body.forceRefresh || false);
+  console.log(`[Compare] Probe: ${source} for "${body.title.slice(0, 50)}"`);
+
+  return {
+    success: true,
+    source,
+    cost: source === 'miss' ? 1 : 0,
+  } satisfies CompareProbeResponse;
+});
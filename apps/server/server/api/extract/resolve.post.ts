@@ -1,43 +1,14 @@
+import type { CompareError, ExtractResolveRequest, ExtractResolveResponse } from '@auction-comparator/shared';
+import { requireAuth } from '../../utils/auth';
+import { checkRateLimit, getRemainingRequests } from '../../utils/rateLimit';
+import { getCachedResolution, recordAiUsage, storeResolution } from '../../utils/extraction-resolutions';
+
 /**
  * AI-based extraction resolution endpoint
- * Called when heuristic extraction has low confidence
+ * Called when heuristic extraction has low confidence. Resolutions are cached
+ * per site template, so the LLM runs once per template, not once per lot.
  */
 
-export interface ExtractResolveRequest {
-  domain: string;
-  url: string;
-  titleCandidates: Array<{
-    text: string;
-    context: string;
-    score: number;
-    cssPath: string;
-  }>;
-  priceCandidates: Array<{
-    text: string;
-    context: string;
-    value: number | null;
-    score: number;
-    priceType: string;
-    cssPath: string;
-  }>;
-  config?: {
-    id: string;
-    name: string;
-    locale: string;
-    currency: string;
-  };
-}
-
-export interface ExtractResolveResponse {
-  success: boolean;
-  title?: string;
-  titleCssPath?: string;
-  priceCssPath?: string;
-  priceType?: 'current_bid' | 'starting_price' | 'estimate' | 'sold' | 'unknown';
-  matchedKeywords?: string[];
-  error?: string;
-}
-
 const SYSTEM_PROMPT = `You are an auction page data extractor. Your job is to identify the correct title and current bid price from a list of candidates extracted from an auction page.
 
 RULES:
@@ -121,7 +92,38 @@ function parseAIResponse(text: string): {
   };
 }
 
-export default defineEventHandler(async (event): Promise<ExtractResolveResponse> => {
+interface AiResolution {
+  /** AI provider that produced the response (the last one tried on failure) */
+  provider: string;
+  response: ExtractResolveResponse;
+}
+
+export default defineEventHandler(async (event): Promise<ExtractResolveResponse | CompareError> => {
+  // Require authentication: every resolution may spend LLM budget
+  let user;
+  try {
+    user = await requireAuth(event);
+  } catch (error: any) {
+    setResponseStatus(event, 401);
+    return {
+      code: 'UNAUTHORIZED',
+      message: 'Authentication required',
+    };
+  }
+
+  const retryAfter = checkRateLimit(user.id);
+  if (retryAfter > 0) {
+    setResponseStatus(event, 429);
+    event.node.res.setHeader('Retry-After', String(retryAfter));
+    return {
+      code: 'RATE_LIMITED',
+      message: 'Too many requests. Please try again later.',
+      retryAfter,
+    };
+  }
+
+  event.node.res.setHeader('X-RateLimit-Remaining', String(getRemainingRequests(user.id)));
+
   const body = await readBody<ExtractResolveRequest>(event);
 
   if (!body.domain || !body.url) {
@@ -138,6 +140,28 @@ export default defineEventHandler(async (event): Promise<ExtractResolveResponse>
     });
   }
 
+  body.titleCandidates ??= [];
+  body.priceCandidates ??= [];
+
+  // Same site template resolved before: no LLM call
+  const cached = await getCachedResolution(body);
+  if (cached) {
+    console.log('[ExtractResolve] Template cache hit for', body.domain);
+    return cached;
+  }
+
+  const { provider, response } = await resolveWithAi(body);
+
+  await recordAiUsage(user.id, 'extract_resolve', provider, response.success);
+  await storeResolution(body, response, provider);
+
+  return response;
+});
+
+/**
+ * Ask Ollama, then the cloud providers, to pick the title and price candidates
+ */
+async function resolveWithAi(body: ExtractResolveRequest): Promise<AiResolution> {
   // Get AI provider (prefer Ollama for local processing)
   const config = useRuntimeConfig();
   const ollamaUrl = config.ollamaUrl || process.env.OLLAMA_URL || 'http://localhost:11434';
@@ -145,14 +169,14 @@ export default defineEventHandler(async (event): Promise<ExtractResolveResponse>
 
   try {
     // Try Ollama first (local, fast)
-    const response = await fetch(ollamaUrl + '/api/generate', {
+    const response = await fetch(`${ollamaUrl}/api/generate`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
         model: ollamaModel,
-        prompt: SYSTEM_PROMPT + '\n\n' + buildUserPrompt(body),
+        prompt: `${SYSTEM_PROMPT}\n\n${buildUserPrompt(body)}`,
         stream: false,
         format: 'json',
       }),
@@ -169,8 +193,11 @@ export default defineEventHandler(async (event): Promise<ExtractResolveResponse>
       }
 
       return {
-        success: false,
-        error: 'AI resolution failed: ' + error,
+        provider: 'ollama',
+        response: {
+          success: false,
+          error: `AI resolution failed: ${error}`,
+        },
       };
     }
 
@@ -179,15 +206,17 @@ export default defineEventHandler(async (event): Promise<ExtractResolveResponse>
 
     // Find the selected candidates
     const selectedTitle = body.titleCandidates.find(c => c.cssPath === aiResult.titleCssPath);
-    const selectedPrice = body.priceCandidates.find(c => c.cssPath === aiResult.priceCssPath);
 
     return {
-      success: true,
-      title: selectedTitle?.text,
-      titleCssPath: aiResult.titleCssPath ?? undefined,
-      priceCssPath: aiResult.priceCssPath ?? undefined,
-      priceType: aiResult.priceType,
-      matchedKeywords: [], // Could extract from AI reasoning
+      provider: 'ollama',
+      response: {
+        success: true,
+        title: selectedTitle?.text,
+        titleCssPath: aiResult.titleCssPath ?? undefined,
+        priceCssPath: aiResult.priceCssPath ?? undefined,
+        priceType: aiResult.priceType,
+        matchedKeywords: [], // Could extract from AI reasoning
+      },
     };
   } catch (error) {
     console.error('[ExtractResolve] Error:', error);
@@ -199,16 +228,19 @@ export default defineEventHandler(async (event): Promise<ExtractResolveResponse>
     }
 
     return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
+      provider: 'ollama',
+      response: {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
     };
   }
-});
+}
 
 /**
  * Try cloud AI providers as fallback
  */
-async function tryCloudProvider(body: ExtractResolveRequest): Promise<ExtractResolveResponse | null> {
+async function tryCloudProvider(body: ExtractResolveRequest): Promise<AiResolution | null> {
   const config = useRuntimeConfig();
 
   // Try Anthropic
@@ -238,11 +270,14 @@ async function tryCloudProvider(body: ExtractResolveRequest): Promise<ExtractRes
           const selectedTitle = body.titleCandidates.find(c => c.cssPath === aiResult.titleCssPath);
 
           return {
-            success: true,
-            title: selectedTitle?.text,
-            titleCssPath: aiResult.titleCssPath ?? undefined,
-            priceCssPath: aiResult.priceCssPath ?? undefined,
-            priceType: aiResult.priceType,
+            provider: 'anthropic',
+            response: {
+              success: true,
+              title: selectedTitle?.text,
+              titleCssPath: aiResult.titleCssPath ?? undefined,
+              priceCssPath: aiResult.priceCssPath ?? undefined,
+              priceType: aiResult.priceType,
+            },
           };
         }
       }
@@ -280,11 +315,14 @@ async function tryCloudProvider(body: ExtractResolveRequest): Promise<ExtractRes
           const selectedTitle = body.titleCandidates.find(c => c.cssPath === aiResult.titleCssPath);
 
           return {
-            success: true,
-            title: selectedTitle?.text,
-            titleCssPath: aiResult.titleCssPath ?? undefined,
-            priceCssPath: aiResult.priceCssPath ?? undefined,
-            priceType: aiResult.priceType,
+            provider: 'openai',
+            response: {
+              success: true,
+              title: selectedTitle?.text,
+              titleCssPath: aiResult.titleCssPath ?? undefined,
+              priceCssPath: aiResult.priceCssPath ?? undefined,
+              priceType: aiResult.priceType,
+            },
           };
         }
       }
@@ -0,0 +1,56 @@
+import type { CompareError, PriceTrendResponse, TrendBucket } from '@auction-comparator/shared';
+import { requireAuth } from '../../utils/auth';
+import { DEFAULT_TREND_DAYS, MAX_TREND_DAYS, getPriceTrend } from '../../utils/price-trends';
+
+export default defineEventHandler(async (event): Promise<PriceTrendResponse | CompareError> => {
+  // Require authentication
+  try {
+    await requireAuth(event);
+  } catch (error: any) {
+    setResponseStatus(event, 401);
+    return {
+      code: 'UNAUTHORIZED',
+      message: 'Authentication required',
+    };
+  }
+
+  const signature = getRouterParam(event, 'signature');
+  if (!signature) {
+    setResponseStatus(event, 400);
+    return {
+      code: 'INVALID_REQUEST',
+      message: 'Product signature is required',
+    };
+  }
+
+  // Parse query parameters
+  const query = getQuery(event);
+  const bucket = (query.bucket as TrendBucket | undefined) ?? 'week';
+  const days = Math.min(parseInt(query.days as string) || DEFAULT_TREND_DAYS, MAX_TREND_DAYS);
+
+  if (!['day', 'week'].includes(bucket)) {
+    setResponseStatus(event, 400);
+    return {
+      code: 'INVALID_REQUEST',
+      message: 'Invalid bucket. Must be one of: day, week',
+    };
+  }
+
+  try {
+    const points = await getPriceTrend(signature, bucket, days);
+
+    return {
+      success: true,
+      signature,
+      bucket,
+      points,
+    };
+  } catch (error) {
+    console.error('[Trends] Error fetching price trend:', error);
+    setResponseStatus(event, 500);
+    return {
+      code: 'API_ERROR',
+      message: 'Failed to fetch price trend',
+    };
+  }
+});
@@ -1,9 +1,10 @@
 import type { CompareError } from '@auction-comparator/shared';
 import { requireAuth } from '../utils/auth';
 import { getCreditsSummary } from '../utils/credits';
+import { countAiUsage } from '../utils/extraction-resolutions';
 
 /**
- * GET /api/usage - Returns credit usage summary
+ * GET /api/usage - Returns credit usage summary and AI calls made for the user
  * Kept for backward compatibility, forwards to credits system
  */
 export default defineEventHandler(async (event): Promise<any | CompareError> => {
@@ -21,6 +22,7 @@ export default defineEventHandler(async (event): Promise<any | CompareError> =>
 
   try {
     const credits = await getCreditsSummary(user.id);
+    const aiRequests = await countAiUsage(user.id);
 
     // Return credit info in a format compatible with the old usage API
     return {
@@ -30,6 +32,7 @@ export default defineEventHandler(async (event): Promise<any | CompareError> =>
         totalPurchased: credits.totalPurchased,
         totalConsumed: credits.totalConsumed,
       },
+      aiRequests,
     };
   } catch (error) {
     console.error('[Usage] Error fetching credits:', error);
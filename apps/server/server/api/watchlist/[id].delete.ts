@@ -0,0 +1,50 @@
+import type { ApiError } from '@auction-comparator/shared';
+import { requireAuth } from '../../utils/auth';
+import { unwatchLot } from '../../utils/watchlist';
+
+export default defineEventHandler(async (event): Promise<{ success: true } | ApiError> => {
+  try {
+    const user = await requireAuth(event);
+    const lotId = getRouterParam(event, 'id');
+
+    if (!lotId) {
+      setResponseStatus(event, 400);
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Lot ID is required',
+        },
+      };
+    }
+
+    const removed = await unwatchLot(lotId, user.id);
+
+    if (!removed) {
+      setResponseStatus(event, 404);
+      return {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Watched lot not found',
+        },
+      };
+    }
+
+    return { success: true };
+  } catch (error: any) {
+    if (error.statusCode === 401) {
+      setResponseStatus(event, 401);
+      return error.data;
+    }
+    console.error('[Watchlist] Error removing lot:', error);
+    setResponseStatus(event, 500);
+    return {
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to remove lot',
+      },
+    };
+  }
+});
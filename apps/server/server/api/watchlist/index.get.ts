@@ -0,0 +1,29 @@
+import type { WatchlistResponse, ApiError } from '@auction-comparator/shared';
+import { requireAuth } from '../../utils/auth';
+import { getWatchlist } from '../../utils/watchlist';
+
+export default defineEventHandler(async (event): Promise<WatchlistResponse | ApiError> => {
+  try {
+    const user = await requireAuth(event);
+    const lots = await getWatchlist(user.id);
+
+    return {
+      success: true,
+      lots,
+    };
+  } catch (error: any) {
+    if (error.statusCode === 401) {
+      setResponseStatus(event, 401);
+      return error.data;
+    }
+    console.error('[Watchlist] Error:', error);
+    setResponseStatus(event, 500);
+    return {
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to get watchlist',
+      },
+    };
+  }
+});
@@ -0,0 +1,53 @@
+import type { WatchLotRequest, WatchLotResponse, ApiError } from '@auction-comparator/shared';
+import { isItemCategory } from '@auction-comparator/shared';
+import { requireAuth } from '../../utils/auth';
+import { watchLot } from '../../utils/watchlist';
+
+export default defineEventHandler(async (event): Promise<WatchLotResponse | ApiError> => {
+  try {
+    const user = await requireAuth(event);
+    const body = await readBody<WatchLotRequest>(event);
+
+    if (
+      !body?.lotUrl
+      || !body.siteDomain
+      || !body.title
+      || !body.currency
+      || !body.signatureStrict
+      || !body.signatureLoose
+      || typeof body.auctionPrice !== 'number'
+      || body.auctionPrice <= 0
+      || (body.category !== undefined && !isItemCategory(body.category))
+    ) {
+      setResponseStatus(event, 400);
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Missing or invalid lot fields',
+        },
+      };
+    }
+
+    const lot = await watchLot(user.id, body);
+
+    return {
+      success: true,
+      lot,
+    };
+  } catch (error: any) {
+    if (error.statusCode === 401) {
+      setResponseStatus(event, 401);
+      return error.data;
+    }
+    console.error('[Watchlist] Error watching lot:', error);
+    setResponseStatus(event, 500);
+    return {
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to watch lot',
+      },
+    };
+  }
+});
@@ -94,6 +94,31 @@ export function initializeDatabase() {
     CREATE INDEX IF NOT EXISTS idx_compare_cache_signature_loose ON compare_cache_entries(signature_loose);
     CREATE INDEX IF NOT EXISTS idx_compare_cache_expires ON compare_cache_entries(expires_at);
 
+    -- User flags on cached web results ("not the same product")
+    CREATE TABLE IF NOT EXISTS cache_result_flags (
+      id TEXT PRIMARY KEY,
+      cache_entry_id TEXT REFERENCES compare_cache_entries(id) ON DELETE SET NULL,
+      signature_strict TEXT NOT NULL,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      result_url TEXT NOT NULL,
+      result_title TEXT NOT NULL,
+      result_price REAL NOT NULL,
+      removed_at INTEGER,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_cache_result_flags_entry_user_url ON cache_result_flags(cache_entry_id, user_id, result_url);
+    CREATE INDEX IF NOT EXISTS idx_cache_result_flags_signature ON cache_result_flags(signature_strict);
+
+    -- Proactive cache refresh fetches (daily provider budget)
+    CREATE TABLE IF NOT EXISTS cache_refreshes (
+      id TEXT PRIMARY KEY,
+      cache_entry_id TEXT REFERENCES compare_cache_entries(id) ON DELETE SET NULL,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_cache_refreshes_created ON cache_refreshes(created_at);
+
     -- User search history
     CREATE TABLE IF NOT EXISTS search_history (
       id TEXT PRIMARY KEY,
@@ -114,6 +139,63 @@ export function initializeDatabase() {
     CREATE INDEX IF NOT EXISTS idx_search_history_user_created ON search_history(user_id, created_at);
     CREATE INDEX IF NOT EXISTS idx_search_history_domain ON search_history(domain);
 
+    -- Web price observations (append-only, one per fresh fetch)
+    CREATE TABLE IF NOT EXISTS price_observations (
+      id TEXT PRIMARY KEY,
+      signature_loose TEXT NOT NULL,
+      signature_strict TEXT NOT NULL,
+      median REAL NOT NULL,
+      min REAL NOT NULL,
+      max REAL NOT NULL,
+      result_count INTEGER NOT NULL,
+      observed_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_price_observations_signature_observed ON price_observations(signature_loose, observed_at);
+
+    -- Final sale prices of closed lots
+    CREATE TABLE IF NOT EXISTS auction_results (
+      id TEXT PRIMARY KEY,
+      user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+      lot_url TEXT NOT NULL UNIQUE,
+      domain TEXT NOT NULL,
+      title TEXT NOT NULL,
+      category TEXT,
+      signature_strict TEXT,
+      signature_loose TEXT,
+      hammer_price REAL NOT NULL,
+      total_price REAL,
+      currency TEXT NOT NULL,
+      sold_at INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_auction_results_domain ON auction_results(domain);
+    CREATE INDEX IF NOT EXISTS idx_auction_results_signature_loose ON auction_results(signature_loose);
+
+    -- Lots watched by users (re-checked in the background)
+    CREATE TABLE IF NOT EXISTS watched_lots (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      lot_url TEXT NOT NULL,
+      domain TEXT NOT NULL,
+      title TEXT NOT NULL,
+      signature_strict TEXT NOT NULL,
+      signature_loose TEXT NOT NULL,
+      auction_price REAL NOT NULL,
+      currency TEXT NOT NULL,
+      verdict_status TEXT,
+      previous_verdict_status TEXT,
+      verdict_changed_at INTEGER,
+      last_checked_at INTEGER,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_watched_lots_user_url ON watched_lots(user_id, lot_url);
+    CREATE INDEX IF NOT EXISTS idx_watched_lots_signature_strict ON watched_lots(signature_strict);
+
     -- Processed events (generic for multiple providers)
     CREATE TABLE IF NOT EXISTS processed_events (
       id TEXT PRIMARY KEY,
@@ -124,6 +206,43 @@ export function initializeDatabase() {
 
     CREATE UNIQUE INDEX IF NOT EXISTS idx_processed_events_provider_event ON processed_events(provider, event_id);
 
+    -- AI extraction resolutions per site template
+    CREATE TABLE IF NOT EXISTS extraction_resolutions (
+      id TEXT PRIMARY KEY,
+      domain TEXT NOT NULL,
+      template_hash TEXT NOT NULL,
+      title_css_path TEXT,
+      price_css_path TEXT,
+      price_type TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      hit_count INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_extraction_resolutions_domain_template ON extraction_resolutions(domain, template_hash);
+
+    -- AI usage per user (one row per LLM call)
+    CREATE TABLE IF NOT EXISTS ai_usage (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      feature TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      success INTEGER NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_ai_usage_user_created ON ai_usage(user_id, created_at);
+
+    -- Precious metal spot prices (per gram of pure metal)
+    CREATE TABLE IF NOT EXISTS metal_prices (
+      metal TEXT NOT NULL,
+      currency TEXT NOT NULL,
+      price_per_gram REAL NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_metal_prices_metal_currency ON metal_prices(metal, currency);
+
     -- User credits balance (credit pack system)
     CREATE TABLE IF NOT EXISTS user_credits (
       user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
@@ -176,11 +295,28 @@ export function initializeDatabase() {
     );
 
     CREATE INDEX IF NOT EXISTS idx_email_verification_tokens_user ON email_verification_tokens(user_id);
+
+    -- Per-user comparison preferences
+    CREATE TABLE IF NOT EXISTS user_preferences (
+      user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      margin_percent REAL NOT NULL DEFAULT 10,
+      updated_at INTEGER NOT NULL
+    );
   `);
 
   // Migrations: Add new columns if they don't exist
   const migrations: { table: string; column: string; type: string }[] = [
     { table: 'users', column: 'email_verified_at', type: 'INTEGER' },
+    { table: 'watched_lots', column: 'condition_grade', type: 'TEXT NOT NULL DEFAULT \'unknown\'' },
+    { table: 'watched_lots', column: 'category', type: 'TEXT' },
+    { table: 'watched_lots', column: 'attributes_json', type: 'TEXT' },
+    { table: 'compare_cache_entries', column: 'currency', type: 'TEXT' },
+    { table: 'compare_cache_entries', column: 'locale', type: 'TEXT' },
+    { table: 'compare_cache_entries', column: 'category', type: 'TEXT' },
+    { table: 'compare_cache_entries', column: 'site_domain', type: 'TEXT' },
+    { table: 'compare_cache_entries', column: 'hit_count', type: 'INTEGER NOT NULL DEFAULT 0' },
+    { table: 'compare_cache_entries', column: 'last_hit_at', type: 'INTEGER' },
+    { table: 'compare_cache_entries', column: 'refreshed_at', type: 'INTEGER' },
   ];
 
   for (const { table, column, type } of migrations) {
@@ -1,5 +1,6 @@
 import { sqliteTable, text, integer, real, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
 import { relations } from 'drizzle-orm';
+import { ITEM_CATEGORIES } from '@auction-comparator/shared';
 
 // Users table
 export const users = sqliteTable('users', {
@@ -50,11 +51,19 @@ export const emailVerificationTokens = sqliteTable('email_verification_tokens',
   index('email_verification_tokens_user_idx').on(table.userId),
 ]);
 
+// Per-user comparison preferences
+export const userPreferences = sqliteTable('user_preferences', {
+  userId: text('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  marginPercent: real('margin_percent').notNull().default(10), // Verdict margin, e.g. 10 = 10%
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   apiTokens: many(apiTokens),
   sessions: many(sessions),
   searchHistory: many(searchHistory),
+  watchedLots: many(watchedLots),
   emailVerificationTokens: many(emailVerificationTokens),
 }));
 
@@ -91,6 +100,14 @@ export const compareCacheEntries = sqliteTable('compare_cache_entries', {
   confidence: text('confidence', { enum: ['high', 'medium', 'low'] }).notNull(),
   fetchedAt: integer('fetched_at', { mode: 'timestamp' }).notNull(),
   expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
+  // Search parameters, kept so popular entries can be refreshed before they expire
+  currency: text('currency'),
+  locale: text('locale'),
+  category: text('category', { enum: ITEM_CATEGORIES }),
+  siteDomain: text('site_domain'),
+  hitCount: integer('hit_count').notNull().default(0),
+  lastHitAt: integer('last_hit_at', { mode: 'timestamp' }),
+  refreshedAt: integer('refreshed_at', { mode: 'timestamp' }), // last proactive refresh
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 }, (table) => [
@@ -98,6 +115,32 @@ export const compareCacheEntries = sqliteTable('compare_cache_entries', {
   index('compare_cache_expires_idx').on(table.expiresAt),
 ]);
 
+// "Not the same product" flags on cached web results, one per user and result
+// Kept after the result is removed, for auditing
+export const cacheResultFlags = sqliteTable('cache_result_flags', {
+  id: text('id').primaryKey(), // UUID
+  cacheEntryId: text('cache_entry_id').references(() => compareCacheEntries.id, { onDelete: 'set null' }),
+  signatureStrict: text('signature_strict').notNull(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  resultUrl: text('result_url').notNull(),
+  resultTitle: text('result_title').notNull(),
+  resultPrice: real('result_price').notNull(),
+  removedAt: integer('removed_at', { mode: 'timestamp' }), // When the result was dropped from the cache
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  uniqueIndex('cache_result_flags_entry_user_url_idx').on(table.cacheEntryId, table.userId, table.resultUrl),
+  index('cache_result_flags_signature_idx').on(table.signatureStrict),
+]);
+
+// Proactive cache refresh fetches, counted against the daily provider budget
+export const cacheRefreshes = sqliteTable('cache_refreshes', {
+  id: text('id').primaryKey(), // UUID
+  cacheEntryId: text('cache_entry_id').references(() => compareCacheEntries.id, { onDelete: 'set null' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  index('cache_refreshes_created_idx').on(table.createdAt),
+]);
+
 // User search history
 export const searchHistory = sqliteTable('search_history', {
   id: text('id').primaryKey(), // UUID
@@ -118,6 +161,66 @@ export const searchHistory = sqliteTable('search_history', {
   index('search_history_domain_idx').on(table.domain),
 ]);
 
+// Append-only web price observations (one per fresh fetch), kept after cache entries expire
+export const priceObservations = sqliteTable('price_observations', {
+  id: text('id').primaryKey(), // UUID
+  signatureLoose: text('signature_loose').notNull(),
+  signatureStrict: text('signature_strict').notNull(),
+  median: real('median').notNull(),
+  min: real('min').notNull(),
+  max: real('max').notNull(),
+  resultCount: integer('result_count').notNull(),
+  observedAt: integer('observed_at', { mode: 'timestamp' }).notNull(),
+}, (table) => [
+  index('price_observations_signature_observed_idx').on(table.signatureLoose, table.observedAt),
+]);
+
+// Final sale prices of closed lots, reported by the extension
+export const auctionResults = sqliteTable('auction_results', {
+  id: text('id').primaryKey(), // UUID
+  userId: text('user_id').references(() => users.id, { onDelete: 'set null' }), // Reporting user
+  lotUrl: text('lot_url').notNull().unique(),
+  domain: text('domain').notNull(),
+  title: text('title').notNull(),
+  category: text('category'),
+  signatureStrict: text('signature_strict'),
+  signatureLoose: text('signature_loose'),
+  hammerPrice: real('hammer_price').notNull(), // Final bid, before buyer fees
+  totalPrice: real('total_price'), // With buyer fees, when known
+  currency: text('currency').notNull(),
+  soldAt: integer('sold_at', { mode: 'timestamp' }).notNull(), // When the sale was first seen
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  index('auction_results_domain_idx').on(table.domain),
+  index('auction_results_signature_loose_idx').on(table.signatureLoose),
+]);
+
+// Lots watched by a user, re-checked in the background against cached stats
+export const watchedLots = sqliteTable('watched_lots', {
+  id: text('id').primaryKey(), // UUID
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  lotUrl: text('lot_url').notNull(),
+  domain: text('domain').notNull(),
+  title: text('title').notNull(),
+  signatureStrict: text('signature_strict').notNull(),
+  signatureLoose: text('signature_loose').notNull(),
+  auctionPrice: real('auction_price').notNull(), // Latest known total price (bid + fees)
+  currency: text('currency').notNull(),
+  conditionGrade: text('condition_grade', { enum: ['new', 'used', 'unknown'] }).notNull().default('unknown'),
+  category: text('category'), // Category the lot was compared in
+  attributesJson: text('attributes_json'), // JSON: year, vehicle, metal and wine attributes for rechecks
+  verdictStatus: text('verdict_status', { enum: ['worth_it', 'borderline', 'not_worth_it'] }),
+  previousVerdictStatus: text('previous_verdict_status', { enum: ['worth_it', 'borderline', 'not_worth_it'] }),
+  verdictChangedAt: integer('verdict_changed_at', { mode: 'timestamp' }),
+  lastCheckedAt: integer('last_checked_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  uniqueIndex('watched_lots_user_url_idx').on(table.userId, table.lotUrl),
+  index('watched_lots_signature_strict_idx').on(table.signatureStrict),
+]);
+
 // Processed webhook events (extending existing for generic use)
 export const processedEvents = sqliteTable('processed_events', {
   id: text('id').primaryKey(), // UUID
@@ -128,6 +231,53 @@ export const processedEvents = sqliteTable('processed_events', {
   uniqueIndex('processed_events_provider_event_idx').on(table.provider, table.eventId),
 ]);
 
+// AI extraction resolutions, shared by every lot page built from the same site template
+export const extractionResolutions = sqliteTable('extraction_resolutions', {
+  id: text('id').primaryKey(), // UUID
+  domain: text('domain').notNull(),
+  templateHash: text('template_hash').notNull(), // Hash of the candidate cssPaths
+  titleCssPath: text('title_css_path'),
+  priceCssPath: text('price_css_path'),
+  priceType: text('price_type', { enum: ['current_bid', 'starting_price', 'estimate', 'sold', 'unknown'] }).notNull(),
+  provider: text('provider').notNull(), // 'ollama', 'anthropic', 'openai'
+  hitCount: integer('hit_count').notNull().default(0),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  uniqueIndex('extraction_resolutions_domain_template_idx').on(table.domain, table.templateHash),
+]);
+
+// AI feature types counted per user
+export type AiUsageFeature = 'extract_resolve';
+
+// One row per LLM call made on behalf of a user
+export const aiUsage = sqliteTable('ai_usage', {
+  id: text('id').primaryKey(), // UUID
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  feature: text('feature', { enum: ['extract_resolve'] }).notNull(),
+  provider: text('provider').notNull(),
+  success: integer('success', { mode: 'boolean' }).notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  index('ai_usage_user_created_idx').on(table.userId, table.createdAt),
+]);
+
+// Spot prices of precious metals for melt values, set through the admin endpoint
+export const metalPrices = sqliteTable('metal_prices', {
+  metal: text('metal', { enum: ['gold', 'silver', 'platinum'] }).notNull(),
+  currency: text('currency', { enum: ['EUR', 'USD', 'GBP'] }).notNull(),
+  pricePerGram: real('price_per_gram').notNull(), // Pure metal (999.9)
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  uniqueIndex('metal_prices_metal_currency_idx').on(table.metal, table.currency),
+]);
+
+export const userPreferencesRelations = relations(userPreferences, ({ one }) => ({
+  user: one(users, {
+    fields: [userPreferences.userId],
+    references: [users.id],
+  }),
+}));
+
 export const compareCacheEntriesRelations = relations(compareCacheEntries, ({ many }) => ({
   searchHistories: many(searchHistory),
 }));
@@ -143,6 +293,13 @@ export const searchHistoryRelations = relations(searchHistory, ({ one }) => ({
   }),
 }));
 
+export const watchedLotsRelations = relations(watchedLots, ({ one }) => ({
+  user: one(users, {
+    fields: [watchedLots.userId],
+    references: [users.id],
+  }),
+}));
+
 // ============================================================
 // Credit Pack System Tables
 // ============================================================
@@ -229,12 +386,28 @@ export type Session = typeof sessions.$inferSelect;
 export type NewSession = typeof sessions.$inferInsert;
 export type EmailVerificationToken = typeof emailVerificationTokens.$inferSelect;
 export type NewEmailVerificationToken = typeof emailVerificationTokens.$inferInsert;
+export type UserPreferences = typeof userPreferences.$inferSelect;
+export type NewUserPreferences = typeof userPreferences.$inferInsert;
 export type CompareCacheEntry = typeof compareCacheEntries.$inferSelect;
 export type NewCompareCacheEntry = typeof compareCacheEntries.$inferInsert;
 export type SearchHistory = typeof searchHistory.$inferSelect;
 export type NewSearchHistory = typeof searchHistory.$inferInsert;
+export type PriceObservation = typeof priceObservations.$inferSelect;
+export type NewPriceObservation = typeof priceObservations.$inferInsert;
+export type AuctionResult = typeof auctionResults.$inferSelect;
+export type NewAuctionResult = typeof auctionResults.$inferInsert;
+export type CacheResultFlag = typeof cacheResultFlags.$inferSelect;
+export type NewCacheResultFlag = typeof cacheResultFlags.$inferInsert;
+export type CacheRefresh = typeof cacheRefreshes.$inferSelect;
+export type WatchedLot = typeof watchedLots.$inferSelect;
+export type NewWatchedLot = typeof watchedLots.$inferInsert;
 export type ProcessedEvent = typeof processedEvents.$inferSelect;
 export type NewProcessedEvent = typeof processedEvents.$inferInsert;
+export type ExtractionResolution = typeof extractionResolutions.$inferSelect;
+export type NewExtractionResolution = typeof extractionResolutions.$inferInsert;
+export type AiUsageEntry = typeof aiUsage.$inferSelect;
+export type NewAiUsageEntry = typeof aiUsage.$inferInsert;
+export type MetalPrice = typeof metalPrices.$inferSelect;
 export type UserCredits = typeof userCredits.$inferSelect;
 export type NewUserCredits = typeof userCredits.$inferInsert;
 export type CreditLedgerEntry = typeof creditLedger.$inferSelect;
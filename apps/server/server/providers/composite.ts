@@ -0,0 +1,124 @@
+import type { ShoppingProvider, ShoppingSearchOptions } from './base';
+import type { WebPriceResult } from '@auction-comparator/shared';
+import { getLandedCost } from '@auction-comparator/shared';
+
+/**
+ * Normalize a result URL for deduplication (host + path, no query/hash)
+ * Google search fallback URLs are not unique listings and are ignored.
+ */
+function getUrlKey(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.replace(/^www\./, '').toLowerCase();
+    if (host.startsWith('google.') && parsed.pathname === '/search') {
+      return null;
+    }
+    return `${host}${parsed.pathname.replace(/\/$/, '')}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Normalize a result title for deduplication
+ */
+function getTitleKey(title: string): string {
+  return title
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Merge results from several providers, dropping duplicates by URL or title
+ * When two results collide, the more relevant one is kept.
+ */
+export function mergeResults(resultSets: WebPriceResult[][]): WebPriceResult[] {
+  const merged: WebPriceResult[] = [];
+  const indexByKey = new Map<string, number>();
+
+  for (const results of resultSets) {
+    for (const result of results) {
+      const urlKey = getUrlKey(result.url);
+      const keys = [`title:${getTitleKey(result.title)}`];
+      if (urlKey) keys.push(`url:${urlKey}`);
+
+      const existingIndex = keys
+        .map((key) => indexByKey.get(key))
+        .find((index) => index !== undefined);
+
+      if (existingIndex === undefined) {
+        merged.push(result);
+        keys.forEach((key) => indexByKey.set(key, merged.length - 1));
+        continue;
+      }
+
+      const existing = merged[existingIndex];
+      if (existing && result.relevanceScore > existing.relevanceScore) {
+        merged[existingIndex] = result;
+      }
+      keys.forEach((key) => indexByKey.set(key, existingIndex));
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Fans a search out to several providers and merges their results
+ * A failing provider is logged and skipped; the search only fails if all do.
+ */
+export class CompositeProvider implements ShoppingProvider {
+  id: string;
+  name: string;
+
+  private providers: ShoppingProvider[];
+
+  constructor(providers: ShoppingProvider[]) {
+    this.providers = providers;
+    this.id = providers.map((p) => p.id).join(',');
+    this.name = providers.map((p) => p.name).join(' + ');
+  }
+
+  isAvailable(): boolean {
+    return this.providers.some((p) => p.isAvailable());
+  }
+
+  async search(options: ShoppingSearchOptions): Promise<WebPriceResult[]> {
+    const available = this.providers.filter((p) => p.isAvailable());
+
+    if (available.length === 0) {
+      throw new Error('No shopping provider configured');
+    }
+
+    const errors: unknown[] = [];
+    const outcomes = await Promise.all(available.map(async (provider): Promise<WebPriceResult[] | null> => {
+      try {
+        const results = await provider.search(options);
+        console.log(`[Providers] ${provider.id} returned ${results.length} results`);
+        return results.map((r) => ({
+          ...r,
+          provider: r.provider ?? provider.id,
+          landedCost: getLandedCost(r),
+        }));
+      } catch (error) {
+        console.error(`[Providers] ${provider.id} search failed:`, error);
+        errors.push(error);
+        return null;
+      }
+    }));
+
+    const resultSets = outcomes.filter((r): r is WebPriceResult[] => r !== null);
+
+    if (resultSets.length === 0) {
+      throw errors[0];
+    }
+
+    const merged = mergeResults(resultSets);
+    console.log(`[Providers] Merged ${resultSets.flat().length} results into ${merged.length}`);
+
+    return merged;
+  }
+}
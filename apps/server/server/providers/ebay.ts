@@ -0,0 +1,168 @@
+import type { ShoppingProvider, ShoppingSearchOptions } from './base';
+import type { Currency, WebPriceResult } from '@auction-comparator/shared';
+import { calculateSpecRelevanceScore } from '@auction-comparator/shared';
+
+interface EbayTokenResponse {
+  access_token: string;
+  expires_in: number;
+}
+
+interface EbayItemSale {
+  title: string;
+  itemWebUrl?: string;
+  lastSoldPrice?: {
+    value: string;
+    currency: string;
+  };
+  lastSoldDate?: string;
+  condition?: string;
+  image?: {
+    imageUrl?: string;
+  };
+}
+
+interface EbayItemSalesResponse {
+  itemSales?: EbayItemSale[];
+}
+
+const EBAY_API_BASE = 'https://api.ebay.com';
+const INSIGHTS_SCOPE = 'https://api.ebay.com/oauth/api_scope/buy.marketplace.insights';
+
+/**
+ * Map a search locale to an eBay marketplace
+ */
+function getMarketplaceId(locale: string): string {
+  const lang = locale.toLowerCase();
+  if (lang.startsWith('fr')) return 'EBAY_FR';
+  if (lang.startsWith('de')) return 'EBAY_DE';
+  if (lang.startsWith('it')) return 'EBAY_IT';
+  if (lang.startsWith('es')) return 'EBAY_ES';
+  if (lang === 'en-gb') return 'EBAY_GB';
+  return 'EBAY_US';
+}
+
+/**
+ * eBay sold listings via the Marketplace Insights API
+ * Sold prices reflect what buyers actually paid, which is a useful
+ * counterweight to asking prices from shopping results.
+ */
+export class EbaySoldProvider implements ShoppingProvider {
+  id = 'ebay';
+  name = 'eBay Sold Listings';
+
+  private clientId: string;
+  private clientSecret: string;
+  private accessToken: string | null = null;
+  private tokenExpiresAt = 0;
+
+  constructor(clientId: string, clientSecret: string) {
+    this.clientId = clientId;
+    this.clientSecret = clientSecret;
+  }
+
+  isAvailable(): boolean {
+    return Boolean(this.clientId && this.clientSecret);
+  }
+
+  async search(options: ShoppingSearchOptions): Promise<WebPriceResult[]> {
+    if (!this.isAvailable()) {
+      throw new Error('eBay credentials not configured');
+    }
+
+    const { query, currency, locale, maxResults = 10 } = options;
+    const token = await this.getAccessToken();
+
+    const params = new URLSearchParams({
+      q: query,
+      limit: String(maxResults),
+    });
+
+    const response = await fetch(`${EBAY_API_BASE}/buy/marketplace_insights/v1_beta/item_sales/search?${params}`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'X-EBAY-C-MARKETPLACE-ID': getMarketplaceId(locale),
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`eBay request failed: ${response.status}`);
+    }
+
+    const data: EbayItemSalesResponse = await response.json();
+
+    return (data.itemSales || [])
+      .map((sale) => this.mapSale(sale, query, currency))
+      .filter((r): r is WebPriceResult => r !== null);
+  }
+
+  /**
+   * Get an application token (client credentials grant), cached until expiry
+   */
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.tokenExpiresAt) {
+      return this.accessToken;
+    }
+
+    const credentials = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
+    const response = await fetch(`${EBAY_API_BASE}/identity/v1/oauth2/token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Authorization': `Basic ${credentials}`,
+      },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        scope: INSIGHTS_SCOPE,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`eBay token request failed: ${response.status}`);
+    }
+
+    const data: EbayTokenResponse = await response.json();
+    this.accessToken = data.access_token;
+    // Refresh a minute before the token actually expires
+    this.tokenExpiresAt = Date.now() + (data.expires_in - 60) * 1000;
+
+    return this.accessToken;
+  }
+
+  private mapSale(
+    sale: EbayItemSale,
+    query: string,
+    currency: Currency
+  ): WebPriceResult | null {
+    if (!sale.lastSoldPrice || !sale.itemWebUrl) {
+      return null;
+    }
+
+    // Prices are not converted; skip sales in another currency
+    if (sale.lastSoldPrice.currency !== currency) {
+      return null;
+    }
+
+    const price = parseFloat(sale.lastSoldPrice.value);
+    if (!price || price <= 0) {
+      return null;
+    }
+
+    let source = 'ebay';
+    try {
+      source = new URL(sale.itemWebUrl).hostname.replace('www.', '');
+    } catch {
+      // Keep default
+    }
+
+    return {
+      title: sale.title,
+      price,
+      priceString: `${sale.lastSoldPrice.value} ${sale.lastSoldPrice.currency}`,
+      source,
+      url: sale.itemWebUrl,
+      thumbnail: sale.image?.imageUrl,
+      condition: sale.condition,
+      relevanceScore: calculateSpecRelevanceScore(query, sale.title),
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import { readFileSync } from 'fs';
+import type { ShoppingProvider, ShoppingSearchOptions } from './base';
+import type { WebPriceResult } from '@auction-comparator/shared';
+import { calculateSpecRelevanceScore } from '@auction-comparator/shared';
+
+type FixtureResult = Omit<WebPriceResult, 'relevanceScore'>;
+
+/**
+ * Local JSON fixture provider for offline development
+ * The fixture file is a JSON array of results (without relevanceScore);
+ * results are scored against the query and only relevant ones are returned.
+ */
+export class FixtureProvider implements ShoppingProvider {
+  id = 'fixture';
+  name = 'Local JSON Fixtures';
+
+  private path: string;
+  private fixtures: FixtureResult[] | null = null;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  isAvailable(): boolean {
+    return Boolean(this.path);
+  }
+
+  async search(options: ShoppingSearchOptions): Promise<WebPriceResult[]> {
+    if (!this.isAvailable()) {
+      throw new Error('Shopping fixtures path not configured');
+    }
+
+    const { query, currency, maxResults = 10 } = options;
+
+    return this.loadFixtures()
+      .map((fixture) => ({
+        ...fixture,
+        relevanceScore: calculateSpecRelevanceScore(query, fixture.title),
+      }))
+      .filter((r) => r.relevanceScore > 0)
+      .sort((a, b) => b.relevanceScore - a.relevanceScore)
+      .slice(0, maxResults)
+      .map((r) => ({ ...r, priceString: r.priceString || `${r.price} ${currency}` }));
+  }
+
+  private loadFixtures(): FixtureResult[] {
+    if (!this.fixtures) {
+      this.fixtures = JSON.parse(readFileSync(this.path, 'utf-8')) as FixtureResult[];
+      console.log(`[Fixtures] Loaded ${this.fixtures.length} results from ${this.path}`);
+    }
+    return this.fixtures;
+  }
+}
@@ -1,16 +1,62 @@
 import type { ShoppingProvider } from './base';
 import { SerpApiProvider } from './serpapi';
+import { EbaySoldProvider } from './ebay';
+import { FixtureProvider } from './fixture';
+import { CompositeProvider } from './composite';
 
 export type { ShoppingProvider, ShoppingSearchOptions } from './base';
+export { mergeResults } from './composite';
+
+/** Providers used when SHOPPING_PROVIDERS is not set */
+const DEFAULT_PROVIDERS = 'serpapi,ebay';
 
 let provider: ShoppingProvider | null = null;
+let providerConfigKey = '';
+
+/**
+ * Build a provider by its identifier from runtime config
+ */
+function createProvider(id: string, config: ReturnType<typeof useRuntimeConfig>): ShoppingProvider | null {
+  switch (id) {
+    case 'serpapi':
+      return new SerpApiProvider(config.serpApiKey);
+    case 'ebay':
+      return new EbaySoldProvider(config.ebayClientId, config.ebayClientSecret);
+    case 'fixture':
+      return new FixtureProvider(config.shoppingFixturesPath);
+    default:
+      console.warn(`[Providers] Unknown shopping provider: ${id}`);
+      return null;
+  }
+}
 
 /**
  * Get the configured shopping provider
+ * Every provider listed in SHOPPING_PROVIDERS that has its credentials
+ * configured is queried, and results are merged.
  */
-export function getShoppingProvider(apiKey: string): ShoppingProvider {
-  if (!provider || (provider as SerpApiProvider).isAvailable() !== Boolean(apiKey)) {
-    provider = new SerpApiProvider(apiKey);
+export function getShoppingProvider(): ShoppingProvider {
+  const config = useRuntimeConfig();
+  const ids = (config.shoppingProviders || DEFAULT_PROVIDERS)
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  const configKey = JSON.stringify([
+    ids,
+    config.serpApiKey,
+    config.ebayClientId,
+    config.ebayClientSecret,
+    config.shoppingFixturesPath,
+  ]);
+
+  if (!provider || providerConfigKey !== configKey) {
+    const providers = ids
+      .map((id) => createProvider(id, config))
+      .filter((p): p is ShoppingProvider => p !== null && p.isAvailable());
+    provider = new CompositeProvider(providers);
+    providerConfigKey = configKey;
   }
+
   return provider;
 }
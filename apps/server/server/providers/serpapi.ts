@@ -1,8 +1,16 @@
 import type { ShoppingProvider, ShoppingSearchOptions } from './base';
 import type { Currency, WebPriceResult } from '@auction-comparator/shared';
-import { parsePriceString, calculateRelevanceScore } from '@auction-comparator/shared';
+import {
+  calculateSpecRelevanceScore,
+  parseDeliveryText,
+  parsePriceString,
+  parseVehicleAttributes,
+} from '@auction-comparator/shared';
 import { getGoogleDomain, getCountryCode } from '../utils/query';
 
+/** Model years apart that still count as the same vehicle in relevance scoring */
+const VEHICLE_YEAR_TOLERANCE = 2;
+
 interface SerpApiShoppingResult {
   title: string;
   link?: string;
@@ -209,7 +217,7 @@ export class SerpApiProvider implements ShoppingProvider {
       // Keep default
     }
 
-    const relevanceScore = calculateRelevanceScore(query, result.title);
+    const relevanceScore = calculateSpecRelevanceScore(query, result.title);
 
     return {
       title: result.title,
@@ -328,7 +336,7 @@ export class SerpApiProvider implements ShoppingProvider {
     const url = result.link || result.product_link ||
       `https://www.google.com/search?q=${encodeURIComponent(result.title)}`;
 
-    const relevanceScore = calculateRelevanceScore(query, result.title);
+    const relevanceScore = calculateSpecRelevanceScore(query, result.title);
 
     return {
       title: result.title,
@@ -338,8 +346,7 @@ export class SerpApiProvider implements ShoppingProvider {
       url,
       thumbnail: result.thumbnail,
       condition: result.second_hand_condition,
-      shippingIncluded: result.delivery?.toLowerCase().includes('livraison gratuite') ||
-        result.delivery?.toLowerCase().includes('free'),
+      ...parseDeliveryText(result.delivery),
       relevanceScore,
     };
   }
@@ -421,7 +428,8 @@ export class SerpApiProvider implements ShoppingProvider {
       // Keep default
     }
 
-    const relevanceScore = calculateRelevanceScore(query, result.title);
+    // Neighbouring model years are still comparable vehicles
+    const relevanceScore = calculateSpecRelevanceScore(query, result.title, { yearTolerance: VEHICLE_YEAR_TOLERANCE });
 
     // Require higher relevance for vehicles
     if (relevanceScore < 0.2) {
@@ -437,6 +445,8 @@ export class SerpApiProvider implements ShoppingProvider {
       url: result.link,
       thumbnail: result.thumbnail,
       condition: 'used',
+      // Mileage, year, fuel and gearbox as listed by lacentrale, leboncoin...
+      vehicle: parseVehicleAttributes(textToSearch),
       relevanceScore,
     };
   }
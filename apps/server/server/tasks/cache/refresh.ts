@@ -0,0 +1,13 @@
+import { refreshPopularCacheEntries } from '../../utils/cache-refresh';
+
+export default defineTask({
+  meta: {
+    name: 'cache:refresh',
+    description: 'Refresh popular compare cache entries before they expire',
+  },
+  async run() {
+    const summary = await refreshPopularCacheEntries();
+    console.log(`[CacheRefresh] Refreshed ${summary.refreshed}/${summary.candidates} popular entries, ${summary.budgetLeft} searches left today`);
+    return { result: summary };
+  },
+});
@@ -0,0 +1,13 @@
+import { recheckWatchlist } from '../../utils/watchlist';
+
+export default defineTask({
+  meta: {
+    name: 'watchlist:recheck',
+    description: 'Re-check watched lots against cached market stats',
+  },
+  async run() {
+    const summary = await recheckWatchlist();
+    console.log(`[Watchlist] Re-checked ${summary.checked} lots, ${summary.changed} verdict changes`);
+    return { result: summary };
+  },
+});
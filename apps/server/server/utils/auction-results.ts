@@ -0,0 +1,211 @@
+import { and, eq, gt } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import type {
+  AuctionResultAggregate,
+  AuctionResultsResponse,
+  Currency,
+  RecordAuctionResultRequest,
+  SimilarSales,
+} from '@auction-comparator/shared';
+import { median } from '@auction-comparator/shared';
+import { db, auctionResults } from '../db';
+import type { AuctionResult } from '../db/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Only recent sales are aggregated, in days */
+export const DEFAULT_RESULTS_DAYS = 365;
+export const MAX_RESULTS_DAYS = 730;
+
+/** Category matches are looser: require a few lots before showing a hint */
+const MIN_CATEGORY_SALES = 3;
+
+export interface AuctionResultsQuery {
+  domain?: string;
+  category?: string;
+  signatureLoose?: string;
+  /** Currency of the lot: similar sales in other currencies are left out */
+  currency?: string;
+  days?: number;
+}
+
+/** Columns the aggregates need */
+type SaleRow = Pick<AuctionResult, 'domain' | 'category' | 'hammerPrice' | 'currency'>;
+
+/**
+ * Record the final sale of a lot (one result per lot URL)
+ * The first report is kept: only its reporter may correct it, so no user can
+ * overwrite another's hammer price in the shared aggregates. Returns the result ID
+ */
+export async function recordAuctionResult(
+  userId: string,
+  request: RecordAuctionResultRequest
+): Promise<string> {
+  const now = new Date();
+
+  const existing = await db.query.auctionResults.findFirst({
+    where: eq(auctionResults.lotUrl, request.lotUrl),
+  });
+  if (existing && existing.userId !== userId) {
+    return existing.id;
+  }
+
+  const fields = {
+    userId,
+    domain: request.siteDomain,
+    title: request.title,
+    category: request.category ?? null,
+    signatureStrict: request.signatureStrict ?? null,
+    signatureLoose: request.signatureLoose ?? null,
+    hammerPrice: request.hammerPrice,
+    totalPrice: request.totalPrice ?? null,
+    currency: request.currency,
+    updatedAt: now,
+  };
+
+  if (existing) {
+    await db.update(auctionResults)
+      .set(fields)
+      .where(eq(auctionResults.id, existing.id));
+    return existing.id;
+  }
+
+  const id = crypto.randomUUID();
+  await db.insert(auctionResults).values({
+    id,
+    lotUrl: request.lotUrl,
+    ...fields,
+    soldAt: now,
+    createdAt: now,
+  });
+
+  return id;
+}
+
+/**
+ * Load the recent sales matching the filters, narrowed in SQL
+ */
+function findSales(since: Date, ...filters: (SQL | undefined)[]): Promise<SaleRow[]> {
+  return db.select({
+    domain: auctionResults.domain,
+    category: auctionResults.category,
+    hammerPrice: auctionResults.hammerPrice,
+    currency: auctionResults.currency,
+  })
+    .from(auctionResults)
+    .where(and(gt(auctionResults.soldAt, since), ...filters));
+}
+
+/**
+ * Summarize the hammer prices of a group of results sharing a currency
+ */
+function summarize(results: SaleRow[]): Omit<AuctionResultAggregate, 'key'> {
+  const prices = results.map((r) => r.hammerPrice);
+  return {
+    currency: (results[0]?.currency ?? 'EUR') as Currency,
+    count: prices.length,
+    median: Math.round(median(prices) * 100) / 100,
+    min: Math.min(...prices),
+    max: Math.max(...prices),
+  };
+}
+
+/**
+ * Keep the sales of the most common currency, so prices are never mixed
+ */
+function inMainCurrency(results: SaleRow[]): SaleRow[] {
+  const counts = new Map<string, number>();
+  for (const result of results) {
+    counts.set(result.currency, (counts.get(result.currency) ?? 0) + 1);
+  }
+  const [main] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+  return results.filter((r) => r.currency === main);
+}
+
+/**
+ * Group results by a key (and currency), largest groups first
+ */
+function aggregateBy(
+  results: SaleRow[],
+  keyOf: (result: SaleRow) => string
+): AuctionResultAggregate[] {
+  const groups = new Map<string, { key: string; results: SaleRow[] }>();
+
+  for (const result of results) {
+    const key = keyOf(result);
+    const groupId = `${key}|${result.currency}`;
+    const group = groups.get(groupId);
+    if (group) {
+      group.results.push(result);
+    } else {
+      groups.set(groupId, { key, results: [result] });
+    }
+  }
+
+  return [...groups.values()]
+    .map(({ key, results: groupResults }) => ({ key, ...summarize(groupResults) }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Find sales of similar lots on a site: same product signature first, then
+ * the same category, in the lot's currency (or the most common one)
+ */
+async function findSimilarSales(
+  domain: string,
+  query: AuctionResultsQuery,
+  since: Date
+): Promise<SimilarSales | null> {
+  const onDomain = [
+    eq(auctionResults.domain, domain),
+    query.currency ? eq(auctionResults.currency, query.currency) : undefined,
+  ];
+
+  if (query.signatureLoose) {
+    const bySignature = inMainCurrency(
+      await findSales(since, ...onDomain, eq(auctionResults.signatureLoose, query.signatureLoose))
+    );
+    if (bySignature.length > 0) {
+      return { domain, matchedOn: 'signature', ...summarize(bySignature) };
+    }
+  }
+
+  if (query.category) {
+    const byCategory = inMainCurrency(
+      await findSales(since, ...onDomain, eq(auctionResults.category, query.category))
+    );
+    if (byCategory.length >= MIN_CATEGORY_SALES) {
+      return { domain, matchedOn: 'category', ...summarize(byCategory) };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Aggregate recent hammer prices per domain and per category
+ * The domain filter narrows the per-category aggregates and the category
+ * filter narrows the per-domain ones.
+ */
+export async function getAuctionResultAggregates(
+  query: AuctionResultsQuery
+): Promise<Omit<AuctionResultsResponse, 'success'>> {
+  const since = new Date(Date.now() - (query.days ?? DEFAULT_RESULTS_DAYS) * DAY_MS);
+
+  const inCategory = await findSales(
+    since,
+    query.category ? eq(auctionResults.category, query.category) : undefined
+  );
+  const onDomain = await findSales(
+    since,
+    query.domain ? eq(auctionResults.domain, query.domain) : undefined
+  );
+
+  return {
+    byDomain: aggregateBy(inCategory, (r) => r.domain),
+    byCategory: aggregateBy(onDomain, (r) => r.category ?? 'unknown'),
+    similar: query.domain
+      ? await findSimilarSales(query.domain, query, since)
+      : null,
+  };
+}
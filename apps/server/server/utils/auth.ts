@@ -1,4 +1,4 @@
-import { randomBytes, createHash } from 'crypto';
+import { randomBytes, createHash, timingSafeEqual } from 'crypto';
 import bcrypt from 'bcrypt';
 import { eq, and, isNull, gt } from 'drizzle-orm';
 import { db, users, apiTokens, sessions } from '../db';
@@ -359,3 +359,40 @@ export async function requireAuth(event: H3Event): Promise<User> {
   }
   return user;
 }
+
+/**
+ * Require the admin API key (X-Admin-Key header) - throws 401 if missing or wrong
+ * Admin endpoints are disabled (403) when no key is configured.
+ */
+export function requireAdmin(event: H3Event): void {
+  const adminApiKey = String(useRuntimeConfig().adminApiKey || '');
+  if (!adminApiKey) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Forbidden',
+      data: {
+        success: false,
+        error: {
+          code: 'ADMIN_DISABLED',
+          message: 'Admin endpoints are disabled',
+        },
+      },
+    });
+  }
+
+  const provided = createHash('sha256').update(getHeader(event, 'x-admin-key') ?? '').digest();
+  const expected = createHash('sha256').update(adminApiKey).digest();
+  if (!timingSafeEqual(provided, expected)) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized',
+      data: {
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Admin key required',
+        },
+      },
+    });
+  }
+}
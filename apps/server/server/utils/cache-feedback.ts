@@ -0,0 +1,116 @@
+import { and, eq, isNotNull, isNull, sql } from 'drizzle-orm';
+import type { WebPriceResult } from '@auction-comparator/shared';
+import { DEFAULT_MARGIN_PCT } from '@auction-comparator/shared';
+import { db, cacheResultFlags, compareCacheEntries } from '../db';
+import { evaluateResults } from './verdict';
+
+export interface FlagResultOutcome {
+  flagCount: number;
+  removed: boolean;
+}
+
+/** Independent users needed before a result is dropped from the shared cache */
+const MIN_FLAGS_TO_REMOVE = 2;
+
+/**
+ * Drop a result from a cache entry and recompute its stats and confidence
+ * An entry left without results is deleted so the next comparison fetches again.
+ */
+async function removeCachedResult(entryId: string, results: WebPriceResult[], resultUrl: string): Promise<void> {
+  const now = new Date();
+  const remaining = results.filter((r) => r.url !== resultUrl);
+
+  if (remaining.length === 0) {
+    await db.delete(compareCacheEntries).where(eq(compareCacheEntries.id, entryId));
+  } else {
+    // Stats only depend on the results; verdicts are recomputed per lot on each hit
+    const { stats, confidence } = evaluateResults(remaining, 'unknown', 0, DEFAULT_MARGIN_PCT);
+    await db.update(compareCacheEntries)
+      .set({
+        resultsJson: JSON.stringify(remaining),
+        statsJson: JSON.stringify(stats),
+        confidence,
+        updatedAt: now,
+      })
+      .where(eq(compareCacheEntries.id, entryId));
+  }
+
+  await db.update(cacheResultFlags)
+    .set({ removedAt: now })
+    .where(and(
+      eq(cacheResultFlags.cacheEntryId, entryId),
+      eq(cacheResultFlags.resultUrl, resultUrl),
+      isNull(cacheResultFlags.removedAt)
+    ));
+}
+
+/**
+ * Drop the results already removed from the product's cache entry
+ * Flags are matched on the product signature, so a refresh or a fresh fetch
+ * rewriting the entry does not bring removed listings back.
+ */
+export async function withoutRemovedResults(
+  signatureStrict: string,
+  results: WebPriceResult[]
+): Promise<WebPriceResult[]> {
+  const removed = await db.selectDistinct({ resultUrl: cacheResultFlags.resultUrl })
+    .from(cacheResultFlags)
+    .where(and(
+      eq(cacheResultFlags.signatureStrict, signatureStrict),
+      isNotNull(cacheResultFlags.removedAt)
+    ));
+  if (removed.length === 0) return results;
+
+  const removedUrls = new Set(removed.map((r) => r.resultUrl));
+  return results.filter((r) => !removedUrls.has(r.url));
+}
+
+/**
+ * Flag a cached web result as "not the same product"
+ * Each user counts once per result; once enough users agree, the result is
+ * removed from the shared entry. Returns null if the entry or result is unknown.
+ */
+export async function flagCacheResult(
+  entryId: string,
+  userId: string,
+  resultUrl: string
+): Promise<FlagResultOutcome | null> {
+  const entry = await db.query.compareCacheEntries.findFirst({
+    where: eq(compareCacheEntries.id, entryId),
+  });
+  if (!entry) return null;
+
+  const results = JSON.parse(entry.resultsJson) as WebPriceResult[];
+  const result = results.find((r) => r.url === resultUrl);
+  if (!result) return null;
+
+  await db.insert(cacheResultFlags)
+    .values({
+      id: crypto.randomUUID(),
+      cacheEntryId: entryId,
+      signatureStrict: entry.signatureStrict,
+      userId,
+      resultUrl,
+      resultTitle: result.title,
+      resultPrice: result.price,
+      createdAt: new Date(),
+    })
+    .onConflictDoNothing();
+
+  const [row] = await db.select({ count: sql<number>`count(*)` })
+    .from(cacheResultFlags)
+    .where(and(
+      eq(cacheResultFlags.cacheEntryId, entryId),
+      eq(cacheResultFlags.resultUrl, resultUrl)
+    ));
+  const flagCount = row?.count ?? 0;
+
+  if (flagCount < MIN_FLAGS_TO_REMOVE) {
+    return { flagCount, removed: false };
+  }
+
+  await removeCachedResult(entryId, results, resultUrl);
+  console.log(`[CacheFeedback] Removed "${result.title.slice(0, 50)}" from cache entry ${entryId} after ${flagCount} flags`);
+
+  return { flagCount, removed: true };
+}
@@ -0,0 +1,172 @@
+import { and, desc, eq, gt, gte, isNotNull, isNull, lt, or, sql } from 'drizzle-orm';
+import type { Currency } from '@auction-comparator/shared';
+import { DEFAULT_MARGIN_PCT, getCategoryStrategy, isItemCategory } from '@auction-comparator/shared';
+import { db, cacheRefreshes, compareCacheEntries } from '../db';
+import type { CompareCacheEntry } from '../db/schema';
+import { getShoppingProvider } from '../providers';
+import { getDefaultCacheTtl } from './canonicalizer';
+import { withoutRemovedResults } from './cache-feedback';
+import { storeCacheEntry } from './compare-cache';
+import { filterFreshResults } from './compare';
+import { deduplicateRequest } from './inflight';
+import { evaluateResults } from './verdict';
+
+export interface CacheRefreshSummary {
+  /** Entries due for a refresh */
+  candidates: number;
+  refreshed: number;
+  failed: number;
+  /** Provider searches left in today's budget */
+  budgetLeft: number;
+}
+
+/** Provider searches allowed per day when CACHE_REFRESH_DAILY_BUDGET is not set */
+const DEFAULT_DAILY_BUDGET = 50;
+
+/** Most-hit entries refreshed per run */
+const TOP_N = 20;
+
+/** Entries expiring within this window are refreshed (task runs hourly) */
+const REFRESH_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+/** Hits needed before an entry is worth refreshing */
+const MIN_HITS = 3;
+
+/**
+ * Get the configured daily budget of proactive provider searches
+ */
+function getDailyBudget(): number {
+  const value = useRuntimeConfig().cacheRefreshDailyBudget;
+  const budget = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  return Number.isFinite(budget) && budget >= 0 ? budget : DEFAULT_DAILY_BUDGET;
+}
+
+/**
+ * Count the proactive refresh fetches already done today (UTC)
+ * Every fetch is logged, so an entry refreshed twice in a day counts twice.
+ */
+async function countRefreshesToday(now: Date): Promise<number> {
+  const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+  const [row] = await db.select({ count: sql<number>`count(*)` })
+    .from(cacheRefreshes)
+    .where(gte(cacheRefreshes.createdAt, startOfDay));
+
+  return row?.count ?? 0;
+}
+
+/**
+ * Find popular entries about to expire
+ * An entry qualifies once it has enough hits and was hit again since its last
+ * fetch, so products nobody looks at anymore stop being refreshed. A refresh
+ * that found nothing is not retried within the same window.
+ */
+function getRefreshCandidates(now: Date, limit: number): Promise<CompareCacheEntry[]> {
+  const windowStart = new Date(now.getTime() - REFRESH_WINDOW_MS);
+
+  return db.query.compareCacheEntries.findMany({
+    where: and(
+      gt(compareCacheEntries.expiresAt, now),
+      lt(compareCacheEntries.expiresAt, new Date(now.getTime() + REFRESH_WINDOW_MS)),
+      or(isNull(compareCacheEntries.refreshedAt), lt(compareCacheEntries.refreshedAt, windowStart)),
+      gte(compareCacheEntries.hitCount, MIN_HITS),
+      gt(compareCacheEntries.lastHitAt, compareCacheEntries.fetchedAt),
+      isNotNull(compareCacheEntries.currency),
+      isNotNull(compareCacheEntries.locale)
+    ),
+    orderBy: [desc(compareCacheEntries.hitCount)],
+    limit,
+  });
+}
+
+/**
+ * Re-run the search of a cache entry and store the new results
+ * Returns false when the search found nothing usable (the old results are kept)
+ */
+async function refreshEntry(entry: CompareCacheEntry, now: Date): Promise<boolean> {
+  const shoppingProvider = getShoppingProvider();
+  const category = isItemCategory(entry.category) ? entry.category : 'product';
+  const context = {
+    category,
+    locale: entry.locale!,
+    domain: entry.siteDomain ?? 'unknown',
+    lotUrl: '',
+  };
+
+  // Counted against the daily budget even if the search fails
+  await db.update(compareCacheEntries)
+    .set({ refreshedAt: now })
+    .where(eq(compareCacheEntries.id, entry.id));
+  await db.insert(cacheRefreshes).values({
+    id: crypto.randomUUID(),
+    cacheEntryId: entry.id,
+    createdAt: now,
+  });
+
+  const { result: fetchResult } = await deduplicateRequest(entry.signatureStrict, () =>
+    shoppingProvider.search({
+      query: entry.queryUsed,
+      currency: entry.currency as Currency,
+      locale: context.locale,
+      maxResults: 15,
+      category: getCategoryStrategy(category).searchMode,
+    })
+  );
+
+  // No auction price here: the price sanity check is skipped, and the query
+  // stands in for the lot title when dropping excluded terms
+  const filteredResults = await withoutRemovedResults(
+    entry.signatureStrict,
+    filterFreshResults(fetchResult, context, 0, entry.queryUsed)
+  );
+  if (filteredResults.length === 0) {
+    return false;
+  }
+
+  // Stats only depend on the results; the verdict is recomputed per lot on each hit
+  const { stats, confidence } = evaluateResults(filteredResults, 'unknown', 0, DEFAULT_MARGIN_PCT);
+
+  await storeCacheEntry(
+    { strict: entry.signatureStrict, loose: entry.signatureLoose },
+    entry.queryUsed,
+    filteredResults,
+    stats,
+    confidence,
+    { ttlMs: getDefaultCacheTtl() }
+  );
+
+  return true;
+}
+
+/**
+ * Refresh the most-hit cache entries shortly before they expire, within the
+ * daily provider budget, so popular products rarely cost users a fresh fetch
+ */
+export async function refreshPopularCacheEntries(): Promise<CacheRefreshSummary> {
+  const now = new Date();
+  let budgetLeft = Math.max(0, getDailyBudget() - await countRefreshesToday(now));
+
+  if (budgetLeft === 0 || !getShoppingProvider().isAvailable()) {
+    return { candidates: 0, refreshed: 0, failed: 0, budgetLeft };
+  }
+
+  const candidates = await getRefreshCandidates(now, Math.min(TOP_N, budgetLeft));
+  let refreshed = 0;
+  let failed = 0;
+
+  for (const entry of candidates) {
+    budgetLeft--;
+    try {
+      if (await refreshEntry(entry, now)) {
+        refreshed++;
+      } else {
+        failed++;
+      }
+    } catch (error) {
+      failed++;
+      console.error(`[CacheRefresh] Refresh failed for "${entry.queryUsed}":`, error);
+    }
+  }
+
+  return { candidates: candidates.length, refreshed, failed, budgetLeft };
+}
@@ -6,6 +6,7 @@ import type {
   DeterministicHints,
   ProductSignatures,
 } from '@auction-comparator/shared';
+import { parseCapacityToGb } from '@auction-comparator/shared';
 
 // Broken/for-parts indicators (French + English)
 const BROKEN_INDICATORS = [
@@ -62,18 +63,6 @@ const CONDITION_INDICATORS: { pattern: RegExp; condition: ConditionGrade; weight
   { pattern: /\bbon\s*[ée]tat\b/i, condition: 'used', weight: 0.7 },
 ];
 
-// Capacity patterns with normalization to GB
-const CAPACITY_PATTERNS: { pattern: RegExp; toGb: (match: RegExpMatchArray) => number }[] = [
-  // TB/To patterns
-  { pattern: /(\d+(?:[.,]\d+)?)\s*(?:tb|to)\b/i, toGb: (m) => parseFloat(m[1].replace(',', '.')) * 1024 },
-  // GB/Go patterns
-  { pattern: /(\d+)\s*(?:gb|go)\b/i, toGb: (m) => parseInt(m[1], 10) },
-  // MB/Mo patterns (rare but possible)
-  { pattern: /(\d+)\s*(?:mb|mo)\b/i, toGb: (m) => Math.round(parseInt(m[1], 10) / 1024) },
-  // Bare numbers that look like common capacities
-  { pattern: /\b(16|32|64|128|256|512|1024|2048)\b(?!\s*(?:gb|go|tb|to|mb|mo|g|t|px|mp|inch|pouces?|"))/i, toGb: (m) => parseInt(m[1], 10) },
-];
-
 /**
  * Detect broken/for-parts indicators in text
  */
@@ -140,23 +129,6 @@ export function getDeterministicHints(rawTitle: string): DeterministicHints {
   };
 }
 
-/**
- * Parse capacity from text and normalize to GB
- */
-export function parseCapacityToGb(text: string): number | null {
-  for (const { pattern, toGb } of CAPACITY_PATTERNS) {
-    const match = text.match(pattern);
-    if (match) {
-      const gb = toGb(match);
-      // Validate reasonable capacity values
-      if (gb >= 1 && gb <= 16384) {
-        return gb;
-      }
-    }
-  }
-  return null;
-}
-
 /**
  * Normalize brand string
  */
@@ -1,14 +1,16 @@
-import { eq, and, gt, lt } from 'drizzle-orm';
+import { eq, and, gt, lt, desc, sql } from 'drizzle-orm';
 import { db, compareCacheEntries, searchHistory } from '../db';
 import type { CompareCacheEntry, CompareSource } from '../db/schema';
 import type {
   WebPriceResult,
   PriceStats,
   ConfidenceLevel,
+  ItemCategory,
   ProductSignatures,
   NormalizedResult,
 } from '@auction-comparator/shared';
 import { getDefaultCacheTtl, getLooseCacheTtl, shouldAllowLooseLookup } from './canonicalizer';
+import { recordPriceObservation } from './price-trends';
 
 export interface CacheEntry {
   id: string;
@@ -27,6 +29,23 @@ export interface CacheLookupResult {
   source: CompareSource;
 }
 
+/**
+ * Search parameters kept with a cache entry so it can be refreshed later
+ */
+export interface CacheSearchParams {
+  currency: string;
+  locale: string;
+  category: ItemCategory;
+  siteDomain: string;
+}
+
+export interface StoreCacheOptions {
+  /** Time to live (defaults to getDefaultCacheTtl) */
+  ttlMs?: number;
+  /** Search parameters of the fetch, for proactive refreshes */
+  search?: CacheSearchParams;
+}
+
 /**
  * Parse stored cache entry from database
  */
@@ -126,6 +145,51 @@ export async function resolveCache(
   return { entry: null, source: 'fresh_fetch' };
 }
 
+/**
+ * Find the most recent entry for a product, ignoring expiry and loose-lookup rules
+ * Only used in cache-only mode, where stale data beats no data
+ */
+export async function resolveStaleCache(
+  signatures: ProductSignatures
+): Promise<CacheLookupResult> {
+  const strictEntry = await db.query.compareCacheEntries.findFirst({
+    where: eq(compareCacheEntries.signatureStrict, signatures.strict),
+  });
+  if (strictEntry) {
+    return { entry: parseCacheEntry(strictEntry), source: 'cache_strict' };
+  }
+
+  const looseEntry = await db.query.compareCacheEntries.findFirst({
+    where: eq(compareCacheEntries.signatureLoose, signatures.loose),
+    orderBy: [desc(compareCacheEntries.fetchedAt)],
+  });
+  if (looseEntry) {
+    return { entry: parseCacheEntry(looseEntry), source: 'cache_loose' };
+  }
+
+  return { entry: null, source: 'fresh_fetch' };
+}
+
+/**
+ * List the providers that contributed results, e.g. 'serpapi,ebay'
+ */
+function getContributingProviders(results: WebPriceResult[]): string {
+  const providers = [...new Set(results.map((r) => r.provider ?? 'serpapi'))];
+  return providers.length > 0 ? providers.join(',') : 'serpapi';
+}
+
+/**
+ * Count a cache hit on an entry (drives proactive refreshes of popular entries)
+ */
+export async function recordCacheHit(entryId: string): Promise<void> {
+  await db.update(compareCacheEntries)
+    .set({
+      hitCount: sql`${compareCacheEntries.hitCount} + 1`,
+      lastHitAt: new Date(),
+    })
+    .where(eq(compareCacheEntries.id, entryId));
+}
+
 /**
  * Store a new cache entry
  */
@@ -135,12 +199,16 @@ export async function storeCacheEntry(
   results: WebPriceResult[],
   stats: PriceStats,
   confidence: ConfidenceLevel,
-  ttlMs?: number
+  options: StoreCacheOptions = {}
 ): Promise<CacheEntry> {
   const now = new Date();
-  const ttl = ttlMs ?? getDefaultCacheTtl();
+  const ttl = options.ttlMs ?? getDefaultCacheTtl();
   const expiresAt = new Date(now.getTime() + ttl);
   const id = crypto.randomUUID();
+  const provider = getContributingProviders(results);
+
+  // Keep the price history: the cache entry below is overwritten on refresh
+  await recordPriceObservation(signatures, stats, now);
 
   // Check if entry already exists
   const existing = await db.query.compareCacheEntries.findFirst({
@@ -151,12 +219,14 @@ export async function storeCacheEntry(
     // Update existing entry
     await db.update(compareCacheEntries)
       .set({
+        provider,
         queryUsed,
         resultsJson: JSON.stringify(results),
         statsJson: JSON.stringify(stats),
         confidence,
         fetchedAt: now,
         expiresAt,
+        ...options.search,
         updatedAt: now,
       })
       .where(eq(compareCacheEntries.id, existing.id));
@@ -179,13 +249,14 @@ export async function storeCacheEntry(
     id,
     signatureStrict: signatures.strict,
     signatureLoose: signatures.loose,
-    provider: 'serpapi',
+    provider,
     queryUsed,
     resultsJson: JSON.stringify(results),
     statsJson: JSON.stringify(stats),
     confidence,
     fetchedAt: now,
     expiresAt,
+    ...options.search,
     createdAt: now,
     updatedAt: now,
   });
@@ -315,6 +386,7 @@ export async function getSearchHistory(
         auctionPrice: entry.auctionPrice,
         currency: entry.currency,
         compareSource: entry.compareSource,
+        signatureLoose: entry.signatureLoose || undefined,
         stats: cacheStats,
         fetchedAt: entry.cacheEntry?.fetchedAt?.toISOString(),
       };
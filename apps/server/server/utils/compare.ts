@@ -0,0 +1,814 @@
+import type {
+  CompareError,
+  CompareRequest,
+  CompareResponse,
+  CompareSource,
+  CreditsInfo,
+  ItemCategory,
+  MeltValue,
+  MetalAttributes,
+  NormalizeRequest,
+  NormalizedResult,
+  ProductSignatures,
+  WebPriceResult,
+} from '@auction-comparator/shared';
+import {
+  DEFAULT_MARGIN_PCT,
+  calculateConfidence,
+  containsTerm,
+  detectCategoryFromText,
+  getCategoryStrategy,
+  isItemCategory,
+  isWineTitle,
+  parseMetalAttributes,
+  parseWineAttributes,
+  toPerBottleResults,
+} from '@auction-comparator/shared';
+import type { ShoppingProvider } from '../providers';
+import { buildSearchQuery } from './query';
+import { normalizeHeuristic, generateNormalizeCacheKey } from './normalizer-heuristic';
+import { normalizeWine } from './normalizer-wine';
+import { getNormalizerProvider } from './normalizer-providers';
+import { getCachedNormalization, setCachedNormalization } from './normalize-cache';
+import {
+  getDeterministicHints,
+  canonicalize,
+  computeSignatures,
+  getDefaultCacheTtl,
+} from './canonicalizer';
+import {
+  storeCacheEntry,
+  recordSearchHistory,
+  recordCacheHit,
+  resolveStaleCache,
+  type CacheEntry,
+} from './compare-cache';
+import { incrementCacheHit } from './quota';
+import { consumeCredit, getOrCreateUserCredits } from './credits';
+import { deduplicateRequest } from './inflight';
+import { decodeVin, type DecodedVin } from './vin-decoder';
+import { computeMeltValue } from './metal-prices';
+import { withoutRemovedResults } from './cache-feedback';
+import {
+  applyMeltValue,
+  applyVehicleBasis,
+  classifyAccessories,
+  evaluateResults,
+  filterAccessoryMismatches,
+  type ResultsEvaluation,
+} from './verdict';
+
+// Vehicle auction sites (fallback detection)
+const VEHICLE_SITES = [
+  'alcopa-auction.fr',
+  'alcopa-auction.com',
+  'vpauto.fr',
+  'encheres-vo.com',
+  'agorastore.fr',
+];
+
+export interface CompareContext {
+  category: ItemCategory;
+  locale: string;
+  domain: string;
+  lotUrl: string;
+}
+
+/**
+ * A validated compare request with its context and normalized product
+ */
+export interface PreparedCompare {
+  body: CompareRequest;
+  context: CompareContext;
+  normalized: NormalizedResult;
+}
+
+/**
+ * What a verdict needs from a lot: a prepared comparison, or a watched lot
+ * rebuilt from its stored attributes
+ */
+export interface LotToEvaluate {
+  body: Pick<CompareRequest, 'title' | 'auctionPrice' | 'currency' | 'year' | 'vehicle' | 'metal'>;
+  context: Pick<CompareContext, 'category'>;
+  normalized: Pick<NormalizedResult, 'condition_grade' | 'year' | 'wine'>;
+}
+
+/**
+ * Outcome of one comparison: the response body and its HTTP status
+ */
+export interface CompareOutcome {
+  status: number;
+  body: CompareResponse | CompareError;
+}
+
+export interface NormalizeCompareOptions {
+  /**
+   * Allow AI normalization on a normalization cache miss (default true)
+   * Free lookups pass false: they use the heuristic and leave the cache alone
+   */
+  useAI?: boolean;
+}
+
+export function detectCategory(siteDomain?: string): ItemCategory {
+  if (!siteDomain) return 'product';
+  const domain = siteDomain.toLowerCase();
+  return VEHICLE_SITES.some(site => domain.includes(site)) ? 'vehicle' : 'product';
+}
+
+/**
+ * Narrow a generic product context to the category the normalizer found
+ * A specific category sent by the adapter (breadcrumbs) or implied by a
+ * vehicle site is kept as is; the adapters' 'product' default is refined.
+ */
+export function refineCompareContext(
+  context: CompareContext,
+  body: CompareRequest,
+  normalized: NormalizedResult
+): CompareContext {
+  if ((body.category && body.category !== 'product') || context.category !== 'product') return context;
+  if (!isItemCategory(normalized.category) || normalized.category === 'product') return context;
+
+  console.log('[Compare] Category from normalizer:', normalized.category);
+  return { ...context, category: normalized.category };
+}
+
+/**
+ * Check that a compare request has the fields every comparison needs
+ */
+export function isValidCompareRequest(body: CompareRequest | null | undefined): body is CompareRequest {
+  return !!body?.title && !!body.currency && !!body.locale && body.auctionPrice !== undefined;
+}
+
+/**
+ * Resolve category, locale, domain and lot URL defaults for a request
+ */
+export function getCompareContext(body: CompareRequest): CompareContext {
+  return {
+    // Use category from request, or detect from site domain
+    category: body.category || detectCategory(body.siteDomain),
+    locale: body.locale || 'fr',
+    domain: body.siteDomain || 'unknown',
+    lotUrl: body.lotUrl || '',
+  };
+}
+
+/**
+ * Fill brand, model and year of a vehicle request from its decoded VIN
+ * The decoded manufacturer replaces brands guessed from slugs; the page's
+ * model and year are kept when present since they are usually more specific.
+ */
+function applyDecodedVin(body: CompareRequest, decoded: DecodedVin): CompareRequest {
+  if (!decoded.manufacturer) return body;
+
+  return {
+    ...body,
+    brand: decoded.manufacturer,
+    model: body.model || decoded.model || undefined,
+    year: body.year ?? decoded.modelYear ?? undefined,
+    extractionConfidence: 'high',
+  };
+}
+
+/**
+ * Normalize the product of a compare request into a search query and signatures
+ * Low-confidence extractions go through the (cached) normalizer; requests with
+ * brand and model or a high-confidence extraction build the query directly.
+ */
+export async function normalizeCompareRequest(
+  body: CompareRequest,
+  context: CompareContext,
+  options: NormalizeCompareOptions = {}
+): Promise<NormalizedResult> {
+  const { category, locale, domain, lotUrl } = context;
+
+  const decodedVin = category === 'vehicle' && body.vehicle?.vin ? decodeVin(body.vehicle.vin) : null;
+  if (decodedVin) {
+    console.log('[Compare] Decoded VIN:', decodedVin.vin, decodedVin.manufacturer, decodedVin.model, decodedVin.modelYear, decodedVin.plant);
+  }
+  const request = decodedVin ? applyDecodedVin(body, decodedVin) : body;
+
+  // Wine lots are priced per bottle and keyed by vintage and format, not by AI brand/model
+  if (category === 'wine' || (category === 'product' && isWineTitle(request.title))) {
+    return normalizeWine(request, locale);
+  }
+
+  const extractionConfidence = request.extractionConfidence || 'medium';
+  const hasBrandAndModel = !!(request.brand && request.model);
+  const shouldNormalize = hasBrandAndModel
+    ? false
+    : (request.useNormalization ?? (extractionConfidence !== 'high'));
+
+  const hints = getDeterministicHints(request.title);
+
+  if (!shouldNormalize) {
+    // High confidence OR has brand+model - use deterministic query building
+    // A generic product context still takes the category its title names
+    const titleCategory = category === 'product' ? detectCategoryFromText(request.title) ?? category : category;
+    const query = buildSearchQuery({ ...request, category: titleCategory });
+
+    // Same maker, descriptor section and year: the VIN pins the exact variant
+    const reference = decodedVin?.manufacturer
+      ? [decodedVin.wmi + decodedVin.vds, request.year].filter(Boolean).join(':')
+      : null;
+
+    // Create a minimal normalized result
+    return {
+      normalizedTitle: request.title,
+      brand: request.brand || null,
+      model: request.model || null,
+      year: request.year ?? null,
+      reference,
+      capacity: null,
+      capacity_gb: null,
+      condition: 'unknown',
+      condition_grade: 'unknown',
+      functional_state: hints.brokenConfidence >= 0.8 ? 'broken' : 'ok',
+      isAccessory: false,
+      category: titleCategory,
+      query,
+      altQueries: [],
+      confidence: 0.8,
+      conditionConfidence: 0.3,
+      usedAI: false,
+      hints,
+      signatures: computeSignatures(
+        request.brand || null,
+        request.model || null,
+        reference,
+        null,
+        hints.brokenConfidence >= 0.8 ? 'broken' : 'ok',
+        'unknown',
+        locale
+      ),
+    };
+  }
+
+  // Prepare normalization request with deterministic hints
+  const normalizeRequest: NormalizeRequest = {
+    rawTitle: request.title,
+    siteDomain: domain,
+    locale,
+    brandHint: request.brand,
+    modelHint: request.model,
+    yearHint: request.year,
+    // A generic product context leaves the normalizer free to find a category
+    categoryHint: category !== 'product' ? category : undefined,
+    lotUrl,
+    hints,
+  };
+
+  const normalizeCacheKey = generateNormalizeCacheKey(normalizeRequest);
+  const cachedNormalized = getCachedNormalization(normalizeCacheKey);
+
+  if (cachedNormalized) {
+    // Re-canonicalize to ensure signatures are computed
+    return canonicalize(cachedNormalized, locale);
+  }
+
+  if (options.useAI === false) {
+    return normalizeHeuristic(normalizeRequest);
+  }
+
+  // Try AI normalization first, fall back to heuristic
+  let normalized: NormalizedResult;
+  const provider = getNormalizerProvider();
+
+  if (provider && provider.isAvailable()) {
+    try {
+      console.log('[Compare] Using AI normalization for:', request.title.slice(0, 50));
+      normalized = await provider.normalize(normalizeRequest);
+      normalized = canonicalize(normalized, locale);
+    } catch (error) {
+      console.error('[Compare] AI normalization failed, using heuristic:', error);
+      normalized = normalizeHeuristic(normalizeRequest);
+    }
+  } else {
+    console.log('[Compare] Using heuristic normalization for:', request.title.slice(0, 50));
+    normalized = normalizeHeuristic(normalizeRequest);
+  }
+
+  // Cache the normalization result
+  setCachedNormalization(normalizeCacheKey, normalized);
+
+  return normalized;
+}
+
+/**
+ * Stats and verdict for a lot
+ * The margin is raised to the category's floor. Vehicles with a known mileage
+ * or year are compared against listing prices adjusted to them rather than
+ * the raw median.
+ */
+export function evaluateForLot(
+  prepared: LotToEvaluate,
+  results: WebPriceResult[],
+  userMarginPct: number,
+  meltValue: MeltValue | null = null
+): ResultsEvaluation {
+  const { body, context, normalized } = prepared;
+  // Category floors are in percent, verdict margins are fractions
+  const marginPct = Math.max(userMarginPct, getCategoryStrategy(context.category).minMarginPct / 100);
+
+  if (context.category === 'wine') {
+    return evaluatePerBottle(prepared, results, marginPct);
+  }
+
+  const evaluation = evaluateResults(results, normalized.condition_grade, body.auctionPrice, marginPct);
+
+  if (context.category === 'vehicle') {
+    const vehicle = { ...body.vehicle, year: body.vehicle?.year ?? body.year ?? normalized.year ?? undefined };
+    return applyVehicleBasis(evaluation, vehicle, body.auctionPrice, marginPct);
+  }
+
+  return meltValue ? applyMeltValue(evaluation, meltValue, body.auctionPrice) : evaluation;
+}
+
+/**
+ * Precious metal of a jewelry lot, from the metal sent by the extension or
+ * read from the title
+ * Other lots have none: a "Gold" phone is not worth its weight in gold.
+ */
+export function getLotMetal(prepared: LotToEvaluate): MetalAttributes | null {
+  const { body, context } = prepared;
+  const isJewelry = context.category === 'jewelry' ||
+    (context.category === 'product' && detectCategoryFromText(body.title) === 'jewelry');
+  if (!isJewelry) return null;
+
+  return body.metal ?? parseMetalAttributes(body.title);
+}
+
+/**
+ * Melt value of a jewelry lot (null for other lots or without a stored metal price)
+ */
+export async function getLotMeltValue(prepared: LotToEvaluate): Promise<MeltValue | null> {
+  const { body } = prepared;
+  const metal = getLotMetal(prepared);
+  const meltValue = metal ? await computeMeltValue(metal, body.currency) : null;
+  if (meltValue) {
+    console.log('[Compare] Melt value:', meltValue.weightGrams, 'g', meltValue.metal, meltValue.fineness, '=', meltValue.value, body.currency);
+  }
+  return meltValue;
+}
+
+/**
+ * Evaluate a wine lot per bottle: the auction total (fees included) split over
+ * the lot's bottles against listing prices split over theirs
+ */
+function evaluatePerBottle(
+  prepared: LotToEvaluate,
+  results: WebPriceResult[],
+  marginPct: number
+): ResultsEvaluation {
+  const { body, normalized } = prepared;
+  const wine = normalized.wine ?? parseWineAttributes(body.title);
+  const perBottle = toPerBottleResults(results, wine);
+  const auctionPrice = body.auctionPrice / wine.bottleCount;
+
+  console.log('[Compare] Wine per bottle:', wine.bottleCount, 'x', wine.bottleSizeCl ?? '?', 'cl,', auctionPrice.toFixed(2), 'each,', perBottle.excludedCount, 'listings of another size or vintage');
+
+  const evaluation = evaluateResults(perBottle.results, normalized.condition_grade, auctionPrice, marginPct);
+  return {
+    ...evaluation,
+    verdictBasis: {
+      ...evaluation.verdictBasis,
+      perBottle: {
+        bottleCount: wine.bottleCount,
+        ...(wine.bottleSizeCl && { bottleSizeCl: wine.bottleSizeCl }),
+        auctionPrice,
+        excludedCount: perBottle.excludedCount,
+      },
+    },
+  };
+}
+
+/**
+ * Current credits of a user, as returned with comparisons
+ */
+export async function getCreditsInfo(userId: string): Promise<CreditsInfo> {
+  const credits = await getOrCreateUserCredits(userId);
+  return {
+    balance: credits.balance,
+    freeAvailable: credits.freeCreditsGranted === 0,
+  };
+}
+
+/**
+ * Error returned when a fresh fetch is needed but no credits remain
+ */
+export async function noCreditsError(userId: string, cacheOnlyAvailable = false): Promise<CompareError> {
+  return {
+    code: 'NO_CREDITS',
+    message: 'No credits remaining. Purchase credits to continue.',
+    credits: await getCreditsInfo(userId),
+    cacheOnlyAvailable,
+  };
+}
+
+/**
+ * Product info returned with a comparison
+ */
+function toNormalizedInfo(normalized: NormalizedResult, signatures: ProductSignatures): CompareResponse['normalized'] {
+  return {
+    brand: normalized.brand,
+    model: normalized.model,
+    capacity_gb: normalized.capacity_gb,
+    condition_grade: normalized.condition_grade,
+    functional_state: normalized.functional_state,
+    category: normalized.category,
+    signatures,
+  };
+}
+
+/**
+ * Answer a comparison from a cache entry (free)
+ * Stats and verdict are recalculated for the current auction price and lot condition.
+ */
+export async function compareFromCache(
+  userId: string,
+  prepared: PreparedCompare,
+  cache: { entry: CacheEntry; source: CompareSource; stale?: boolean },
+  marginPct: number
+): Promise<CompareResponse> {
+  const { body, context, normalized } = prepared;
+  const { entry, source, stale } = cache;
+  const signatures = normalized.signatures!;
+
+  await incrementCacheHit(userId);
+  await recordCacheHit(entry.id);
+
+  // Record in history
+  await recordSearchHistory(
+    userId,
+    context.domain,
+    context.lotUrl,
+    body.title,
+    normalized,
+    source,
+    entry.id,
+    body.auctionPrice,
+    body.currency
+  );
+
+  const lotResults = filterAccessoryMismatches(entry.results, normalized.isAccessory, context.category);
+  const meltValue = await getLotMeltValue(prepared);
+  const evaluation = evaluateForLot(prepared, lotResults.results, marginPct, meltValue);
+
+  return {
+    queryUsed: entry.queryUsed,
+    results: evaluation.results,
+    excludedResults: evaluation.excludedResults,
+    accessoryExcludedCount: lotResults.excludedCount,
+    stats: evaluation.stats,
+    conditionStats: evaluation.conditionStats,
+    verdictBasis: evaluation.verdictBasis,
+    ...(meltValue && { meltValue }),
+    confidence: entry.confidence,
+    verdict: evaluation.verdict,
+    cachedAt: entry.fetchedAt.getTime(),
+    expiresAt: entry.expiresAt.getTime(),
+    cache: {
+      source,
+      cacheEntryId: entry.id,
+      fetchedAt: entry.fetchedAt.getTime(),
+      expiresAt: entry.expiresAt.getTime(),
+      signatureUsed: source === 'cache_strict' ? signatures.strict : signatures.loose,
+      ...(stale && { stale, ageMs: Date.now() - entry.fetchedAt.getTime() }),
+    },
+    normalized: toNormalizedInfo(normalized, signatures),
+    // Current credits (for display, not consumption)
+    credits: await getCreditsInfo(userId),
+  };
+}
+
+/**
+ * Answer a comparison for a user without credits (cache-only mode)
+ * The most recent cached entry is served, marked stale, even if expired or a
+ * loose match; with nothing cached, or on a forced refresh, NO_CREDITS is returned.
+ */
+export async function compareCacheOnly(
+  userId: string,
+  prepared: PreparedCompare,
+  marginPct: number
+): Promise<CompareOutcome> {
+  const staleResult = await resolveStaleCache(prepared.normalized.signatures!);
+
+  if (!staleResult.entry || prepared.body.forceRefresh) {
+    return { status: 402, body: await noCreditsError(userId, !!staleResult.entry) };
+  }
+
+  console.log(`[Compare] Cache-only mode: serving stale entry (${staleResult.source})`);
+
+  return {
+    status: 200,
+    body: await compareFromCache(
+      userId,
+      prepared,
+      { entry: staleResult.entry, source: staleResult.source, stale: true },
+      marginPct
+    ),
+  };
+}
+
+/**
+ * Keep the relevant fresh results: the category's relevance threshold and
+ * excluded terms, no listings from the auction site itself, the category's
+ * price sanity check, then a relaxed threshold if nothing is left. Kept
+ * results are classified as accessory or main item.
+ */
+export function filterFreshResults(
+  fetchResult: WebPriceResult[],
+  context: CompareContext,
+  auctionPrice: number,
+  lotTitle = ''
+): WebPriceResult[] {
+  const { category, domain } = context;
+  const strategy = getCategoryStrategy(category);
+
+  // Filter and sort results by relevance
+  const { relevanceThreshold } = strategy;
+
+  let filteredResults = fetchResult
+    .filter((r) => r.relevanceScore >= relevanceThreshold)
+    .sort((a, b) => b.relevanceScore - a.relevanceScore);
+
+  // Drop other kinds of items (reproductions, empty bottles) unless the lot is one
+  const excludedTerms = strategy.excludedResultTerms.filter((term) => !containsTerm(lotTitle, term));
+  if (excludedTerms.length > 0) {
+    const originalCount = filteredResults.length;
+    filteredResults = filteredResults.filter((r) => !excludedTerms.some((term) => containsTerm(r.title, term)));
+    if (filteredResults.length < originalCount) {
+      console.log(`[Compare] Filtered out ${originalCount - filteredResults.length} ${category} results of another kind`);
+    }
+  }
+
+  // Filter out results from the same auction site (useless for price comparison)
+  if (domain && domain !== 'unknown') {
+    const domainLower = domain.toLowerCase();
+    const originalCount = filteredResults.length;
+
+    filteredResults = filteredResults.filter((r) => {
+      if (!r.source) return true;
+      const sourceLower = r.source.toLowerCase();
+
+      // Extract base domain (e.g., "agorastore" from "agorastore.fr" or "www.agorastore.fr")
+      const [auctionBaseDomain = ''] = domainLower.replace(/^www\./, '').split('.');
+      const [resultBaseDomain] = sourceLower.replace(/^www\./, '').split('.');
+
+      // Also check if the URL contains the auction site domain
+      const urlContainsAuctionSite = r.url?.toLowerCase().includes(auctionBaseDomain);
+
+      return resultBaseDomain !== auctionBaseDomain && !urlContainsAuctionSite;
+    });
+
+    if (filteredResults.length < originalCount) {
+      console.log(`[Compare] Filtered out ${originalCount - filteredResults.length} results from same auction site (${domain})`);
+    }
+  }
+
+  // Price sanity check for categories where much cheaper listings are other items
+  if (strategy.minPriceRatio > 0 && auctionPrice > 0) {
+    const minReasonablePrice = auctionPrice * strategy.minPriceRatio;
+    const originalCount = filteredResults.length;
+    filteredResults = filteredResults.filter((r) => r.price >= minReasonablePrice);
+    if (filteredResults.length < originalCount) {
+      console.log(`[Compare] Filtered out ${originalCount - filteredResults.length} ${category} results with suspiciously low prices`);
+    }
+  }
+
+  filteredResults = filteredResults.slice(0, 10);
+
+  console.log(`[Compare] After filtering (threshold ${relevanceThreshold}): ${filteredResults.length} results`);
+
+  if (filteredResults.length === 0 && fetchResult.length > 0) {
+    // Try relaxed filtering
+    const lowestThreshold = 0.05;
+    const relaxedResults = fetchResult
+      .filter((r) => r.relevanceScore >= lowestThreshold)
+      .sort((a, b) => b.relevanceScore - a.relevanceScore)
+      .slice(0, 10);
+
+    if (relaxedResults.length > 0) {
+      console.log(`[Compare] Using relaxed filtering: ${relaxedResults.length} results`);
+      filteredResults = relaxedResults;
+    }
+  }
+
+  return classifyAccessories(filteredResults);
+}
+
+/** Below this many filtered results, the normalizer's alternative queries are tried */
+const FALLBACK_MIN_RESULTS = 3;
+
+/** Results kept after merging the primary and fallback searches */
+const MAX_MERGED_RESULTS = 10;
+
+/**
+ * Whether filtered results are too few or too weak to trust on their own
+ */
+function needsFallbackSearch(results: WebPriceResult[]): boolean {
+  return results.length < FALLBACK_MIN_RESULTS || calculateConfidence(results) === 'low';
+}
+
+/**
+ * Search the primary query, then the normalizer's alternative queries in order
+ * while the results are not good enough
+ * Results are merged by URL (the first query to find a listing keeps it) and
+ * tagged with the query that produced them. All searches together count as a
+ * single fresh fetch for credits.
+ */
+async function searchWithFallback(
+  prepared: PreparedCompare,
+  shoppingProvider: ShoppingProvider
+): Promise<WebPriceResult[]> {
+  const { body, context, normalized } = prepared;
+  const { category, locale } = context;
+  const signatures = normalized.signatures!;
+
+  const queries = [normalized.query];
+  for (const altQuery of normalized.altQueries) {
+    const trimmed = altQuery.trim();
+    if (trimmed && !queries.some((q) => q.toLowerCase() === trimmed.toLowerCase())) {
+      queries.push(trimmed);
+    }
+  }
+
+  let merged: WebPriceResult[] = [];
+  const seenUrls = new Set<string>();
+
+  for (const [index, query] of queries.entries()) {
+    if (index > 0) {
+      if (!needsFallbackSearch(merged)) break;
+      console.log(`[Compare] ${merged.length} usable results, trying fallback query:`, query);
+    }
+
+    // The primary search keeps the bare signature so cache refreshes share it
+    const { result: fetchResult, wasDeduped } = await deduplicateRequest(
+      index === 0 ? signatures.strict : `${signatures.strict}:${query}`,
+      async () => {
+        console.log(`[Compare] Performing fresh fetch via ${shoppingProvider.id} for query:`, query);
+
+        const results = await shoppingProvider.search({
+          query,
+          currency: body.currency,
+          locale,
+          maxResults: 15,
+          category: getCategoryStrategy(category).searchMode,
+        });
+
+        return results;
+      }
+    );
+
+    if (wasDeduped) {
+      console.log('[Compare] Request was deduplicated');
+    }
+
+    console.log(`[Compare] Search returned ${fetchResult.length} raw results`);
+
+    const newResults = filterFreshResults(fetchResult, context, body.auctionPrice, body.title)
+      .filter((r) => !seenUrls.has(r.url))
+      .map((r) => ({ ...r, matchedQuery: query }));
+    newResults.forEach((r) => seenUrls.add(r.url));
+
+    merged = [...merged, ...newResults]
+      .sort((a, b) => b.relevanceScore - a.relevanceScore)
+      .slice(0, MAX_MERGED_RESULTS);
+  }
+
+  return merged;
+}
+
+/**
+ * Run a fresh search for a lot, cache it and consume one credit
+ * The caller checks that a credit is available first. A search with no
+ * usable results still consumes the credit (it was a real provider call).
+ */
+export async function compareFresh(
+  userId: string,
+  prepared: PreparedCompare,
+  shoppingProvider: ShoppingProvider,
+  marginPct: number
+): Promise<CompareOutcome> {
+  const { body, context, normalized } = prepared;
+  const { category, locale, domain, lotUrl } = context;
+  const signatures = normalized.signatures!;
+  const { query } = normalized;
+
+  const filteredResults = await withoutRemovedResults(
+    signatures.strict,
+    await searchWithFallback(prepared, shoppingProvider)
+  );
+
+  // Handle no results
+  if (filteredResults.length === 0) {
+    // Record failed search in history
+    await recordSearchHistory(
+      userId,
+      domain,
+      lotUrl,
+      body.title,
+      normalized,
+      'fresh_fetch',
+      null,
+      body.auctionPrice,
+      body.currency
+    );
+
+    // Still consume credit for the API call (it was a real SerpApi request)
+    const noResultConsumeResult = await consumeCredit(userId, `no_results_${crypto.randomUUID()}`);
+    console.log('[Compare] Consumed credit for no-results fetch:', noResultConsumeResult);
+
+    return {
+      status: 404,
+      body: {
+        code: 'NO_RESULTS',
+        message: `No comparable ${category === 'vehicle' ? 'vehicles' : 'products'} found for: "${query}"`,
+      },
+    };
+  }
+
+  // Calculate statistics (accessory mismatches and outliers removed) and condition-aware verdict
+  // The cache keeps every result: lots sharing the entry may differ in class
+  const lotResults = filterAccessoryMismatches(filteredResults, normalized.isAccessory, category);
+  if (lotResults.excludedCount > 0) {
+    console.log(`[Compare] Excluded ${lotResults.excludedCount} results that are ${normalized.isAccessory ? 'main items' : 'accessories'}`);
+  }
+  const meltValue = await getLotMeltValue(prepared);
+  const evaluation = evaluateForLot(prepared, lotResults.results, marginPct, meltValue);
+  const { stats, confidence, verdict } = evaluation;
+  if (evaluation.excludedResults.length > 0) {
+    console.log(`[Compare] Excluded ${evaluation.excludedResults.length} price outliers from stats`);
+  }
+  console.log('[Compare] Verdict basis:', {
+    condition: evaluation.verdictBasis.condition,
+    adjusted: evaluation.verdictBasis.adjusted,
+    depreciationFactor: evaluation.verdictBasis.depreciationFactor,
+    vehicleAdjustment: evaluation.verdictBasis.vehicleAdjustment,
+  });
+
+  // Store in cache with stats of the raw results: the entry and the price
+  // history are shared by lots whose own stats differ (per bottle, vehicle-adjusted...)
+  const shared = evaluateResults(filteredResults, 'unknown', 0, DEFAULT_MARGIN_PCT);
+  const cacheEntry = await storeCacheEntry(
+    signatures,
+    query,
+    filteredResults,
+    shared.stats,
+    shared.confidence,
+    {
+      ttlMs: getDefaultCacheTtl(),
+      search: { currency: body.currency, locale, category, siteDomain: domain },
+    }
+  );
+
+  // Consume credit and record history
+  const consumeResult = await consumeCredit(userId, cacheEntry.id);
+  if (!consumeResult.success) {
+    console.error('[Compare] Failed to consume credit - race condition?');
+    // Continue anyway since we already made the API call
+  }
+
+  await recordSearchHistory(
+    userId,
+    domain,
+    lotUrl,
+    body.title,
+    normalized,
+    'fresh_fetch',
+    cacheEntry.id,
+    body.auctionPrice,
+    body.currency
+  );
+
+  // Get updated credits info
+  const credits = await getCreditsInfo(userId);
+
+  console.log('[Compare] Fresh fetch complete, credits remaining:', credits.balance);
+
+  return {
+    status: 200,
+    body: {
+      queryUsed: query,
+      results: evaluation.results,
+      excludedResults: evaluation.excludedResults,
+      accessoryExcludedCount: lotResults.excludedCount,
+      stats,
+      conditionStats: evaluation.conditionStats,
+      verdictBasis: evaluation.verdictBasis,
+      ...(meltValue && { meltValue }),
+      confidence,
+      verdict,
+      cachedAt: cacheEntry.fetchedAt.getTime(),
+      expiresAt: cacheEntry.expiresAt.getTime(),
+      cache: {
+        source: 'fresh_fetch',
+        cacheEntryId: cacheEntry.id,
+        fetchedAt: cacheEntry.fetchedAt.getTime(),
+        expiresAt: cacheEntry.expiresAt.getTime(),
+        signatureUsed: signatures.strict,
+      },
+      normalized: toNormalizedInfo(normalized, signatures),
+      credits,
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import { createHash } from 'crypto';
+import { and, eq, gte, sql } from 'drizzle-orm';
+import type { ExtractResolveRequest, ExtractResolveResponse } from '@auction-comparator/shared';
+import { db, aiUsage, extractionResolutions } from '../db';
+import type { AiUsageFeature } from '../db/schema';
+
+/**
+ * Hash of the candidate cssPaths of a lot page
+ * Paths are tag:nth-of-type chains without ids or classes, so every lot page
+ * rendered from the same site template hashes the same.
+ */
+export function computeTemplateHash(request: ExtractResolveRequest): string {
+  const titlePaths = [...new Set(request.titleCandidates.map((c) => c.cssPath))].sort();
+  const pricePaths = [...new Set(request.priceCandidates.map((c) => c.cssPath))].sort();
+
+  return createHash('sha256')
+    .update(`${titlePaths.join('\n')}\n|\n${pricePaths.join('\n')}`)
+    .digest('hex');
+}
+
+/**
+ * Get the resolution stored for a page's domain and template
+ */
+export async function getCachedResolution(request: ExtractResolveRequest): Promise<ExtractResolveResponse | null> {
+  const resolution = await db.query.extractionResolutions.findFirst({
+    where: and(
+      eq(extractionResolutions.domain, request.domain),
+      eq(extractionResolutions.templateHash, computeTemplateHash(request))
+    ),
+  });
+  if (!resolution) return null;
+
+  await db.update(extractionResolutions)
+    .set({ hitCount: sql`${extractionResolutions.hitCount} + 1` })
+    .where(eq(extractionResolutions.id, resolution.id));
+
+  const selectedTitle = request.titleCandidates.find((c) => c.cssPath === resolution.titleCssPath);
+
+  return {
+    success: true,
+    title: selectedTitle?.text,
+    titleCssPath: resolution.titleCssPath ?? undefined,
+    priceCssPath: resolution.priceCssPath ?? undefined,
+    priceType: resolution.priceType,
+    matchedKeywords: [],
+    cached: true,
+  };
+}
+
+/**
+ * Store a successful resolution for the page's domain and template
+ * Resolutions that selected nothing are not stored, so the page is retried.
+ */
+export async function storeResolution(
+  request: ExtractResolveRequest,
+  response: ExtractResolveResponse,
+  provider: string
+): Promise<void> {
+  if (!response.success || (!response.titleCssPath && !response.priceCssPath)) {
+    return;
+  }
+
+  const values = {
+    titleCssPath: response.titleCssPath ?? null,
+    priceCssPath: response.priceCssPath ?? null,
+    priceType: response.priceType ?? 'unknown',
+    provider,
+  };
+
+  await db.insert(extractionResolutions)
+    .values({
+      id: crypto.randomUUID(),
+      domain: request.domain,
+      templateHash: computeTemplateHash(request),
+      ...values,
+    })
+    .onConflictDoUpdate({
+      target: [extractionResolutions.domain, extractionResolutions.templateHash],
+      set: values,
+    });
+}
+
+/**
+ * Record an LLM call made on behalf of a user
+ */
+export async function recordAiUsage(
+  userId: string,
+  feature: AiUsageFeature,
+  provider: string,
+  success: boolean
+): Promise<void> {
+  await db.insert(aiUsage).values({
+    id: crypto.randomUUID(),
+    userId,
+    feature,
+    provider,
+    success,
+  });
+}
+
+/**
+ * Count the LLM calls made on behalf of a user, optionally since a date
+ */
+export async function countAiUsage(userId: string, since?: Date): Promise<number> {
+  const [row] = await db.select({ count: sql<number>`count(*)` })
+    .from(aiUsage)
+    .where(since
+      ? and(eq(aiUsage.userId, userId), gte(aiUsage.createdAt, since))
+      : eq(aiUsage.userId, userId));
+
+  return row?.count ?? 0;
+}
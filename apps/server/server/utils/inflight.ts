@@ -63,6 +63,29 @@ export async function deduplicateRequest<T>(
   }
 }
 
+/**
+ * Run an async function over items with at most `limit` calls in flight
+ * Results keep the order of the items
+ */
+export async function mapWithConcurrency<TItem, TResult>(
+  items: TItem[],
+  limit: number,
+  fn: (item: TItem, index: number) => Promise<TResult>
+): Promise<TResult[]> {
+  const results = new Array<TResult>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!, index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
 /**
  * Check if a request is currently in-flight
  */
@@ -0,0 +1,71 @@
+import { and, eq } from 'drizzle-orm';
+import type { Currency, MeltValue, MetalAttributes, PreciousMetal } from '@auction-comparator/shared';
+import { db, metalPrices } from '../db';
+import type { MetalPrice } from '../db/schema';
+
+export const PRECIOUS_METALS: PreciousMetal[] = ['gold', 'silver', 'platinum'];
+
+/**
+ * Whether a value is a usable price per gram
+ */
+export function isValidPricePerGram(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * All stored metal prices
+ */
+export async function listMetalPrices(): Promise<MetalPrice[]> {
+  const prices = await db.select().from(metalPrices);
+  return prices;
+}
+
+/**
+ * Store the prices per gram of pure metal for one currency
+ * Metals left out keep their previous price.
+ */
+export async function saveMetalPrices(
+  currency: Currency,
+  prices: Partial<Record<PreciousMetal, number>>
+): Promise<void> {
+  const updatedAt = new Date();
+
+  for (const metal of PRECIOUS_METALS) {
+    const pricePerGram = prices[metal];
+    if (pricePerGram === undefined) continue;
+
+    await db.insert(metalPrices)
+      .values({ metal, currency, pricePerGram, updatedAt })
+      .onConflictDoUpdate({
+        target: [metalPrices.metal, metalPrices.currency],
+        set: { pricePerGram, updatedAt },
+      });
+  }
+
+  console.log('[MetalPrices] Updated', currency, prices);
+}
+
+/**
+ * Melt value of a lot's metal in the request currency
+ * Returns null without a stated weight or a stored price for the metal.
+ */
+export async function computeMeltValue(metal: MetalAttributes, currency: Currency): Promise<MeltValue | null> {
+  if (!metal.weightGrams) return null;
+
+  const price = await db.query.metalPrices.findFirst({
+    where: and(eq(metalPrices.metal, metal.metal), eq(metalPrices.currency, currency)),
+  });
+  if (!price) return null;
+
+  const value = metal.weightGrams * (metal.fineness / 1000) * price.pricePerGram;
+
+  return {
+    metal: metal.metal,
+    fineness: metal.fineness,
+    weightGrams: metal.weightGrams,
+    ...(metal.grossWeight && { grossWeight: true }),
+    pricePerGram: price.pricePerGram,
+    value: Math.round(value * 100) / 100,
+    priceUpdatedAt: price.updatedAt.getTime(),
+  };
+}
@@ -5,10 +5,10 @@ import type {
   ConditionGrade,
   FunctionalState,
 } from '@auction-comparator/shared';
+import { detectCategoryFromText, parseCapacityToGb } from '@auction-comparator/shared';
 import { createHash } from 'crypto';
 import {
   getDeterministicHints,
-  parseCapacityToGb,
   resolveFunctionalState,
   resolveConditionGrade,
   computeSignatures,
@@ -56,13 +56,26 @@ const ACCESSORY_KEYWORDS = [
   'accessoire', 'accessory', 'accessories',
   'chargeur', 'charger', 'cable', 'câble',
   'housse', 'case', 'cover', 'coque', 'étui',
-  'adaptateur', 'adapter', 'support', 'stand',
+  'adaptateur', 'adapter', 'support mural', 'support voiture', 'support de charge', 'stand',
   'télécommande', 'remote', 'manette', 'controller',
   'batterie', 'battery', 'pile', 'piles',
   'écouteur', 'earphone', 'earbuds', 'casque audio',
-  'protection', 'protector', 'film',
+  'protection', 'protector', 'film protecteur', 'film de protection', 'verre trempé',
 ];
 
+// Nouns of main items: an accessory keyword after one only describes the item
+const PRODUCT_NOUNS = [
+  'téléphone', 'telephone', 'smartphone', 'phone', 'tablette', 'tablet',
+  'ordinateur', 'computer', 'laptop', 'console', 'téléviseur', 'televiseur', 'tv',
+  'appareil photo', 'camera', 'enceinte', 'speaker', 'montre', 'watch',
+];
+
+// Battery state of a main item, e.g. "batterie neuve", "batterie à 92 %"
+const BATTERY_STATE_PATTERN = /(?:batterie|battery)(?:\s+(?:health|santé|sante|à|a|:))*\s*(?:neuve|new|\d{1,3}\s*%)/giu;
+
+// Bundled extras: "avec chargeur", "+ coque", "chargeur inclus"
+const BUNDLED_EXTRAS_PATTERN = /(?:^|\s)(?:avec|with|incluant|including)\s.*$|\+.*$|\S+\s+(?:incluse?s?|included)\b/giu;
+
 // Known brands for detection
 const KNOWN_BRANDS = [
   // Tech
@@ -140,6 +153,36 @@ const IMPORTANT_TYPE_WORDS = [
   'new', 'used', 'refurbished',
 ];
 
+/**
+ * Position of the first whole-word match of any term, or -1
+ */
+function firstTermIndex(text: string, terms: string[]): number {
+  const positions = terms
+    .map(term => text.search(new RegExp(`(?<![\\p{L}\\p{N}])${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\p{L}\\p{N}])`, 'u')))
+    .filter(position => position >= 0);
+  return positions.length > 0 ? Math.min(...positions) : -1;
+}
+
+/**
+ * Whether a title describes an accessory (case, charger, remote...) rather than a main item
+ * Keywords match whole words, so "Standard" is not a stand. Bundled extras and
+ * battery states are ignored, and a keyword only counts when it comes before
+ * the brand or product noun: "Coque iPhone 13" is an accessory, "iPhone 13 -
+ * Batterie neuve" or "MacBook Air M1 avec chargeur" are not.
+ */
+export function isAccessoryTitle(title: string): boolean {
+  const main = title.toLowerCase()
+    .replace(BUNDLED_EXTRAS_PATTERN, ' ')
+    .replace(BATTERY_STATE_PATTERN, ' ');
+
+  const keywordAt = firstTermIndex(main, ACCESSORY_KEYWORDS);
+  if (keywordAt < 0) {
+    return false;
+  }
+  const productAt = firstTermIndex(main, [...KNOWN_BRANDS.map(b => b.toLowerCase()), ...PRODUCT_NOUNS]);
+  return productAt < 0 || keywordAt < productAt;
+}
+
 /**
  * Generate cache key for normalization request
  */
@@ -179,9 +222,7 @@ export function normalizeHeuristic(request: NormalizeRequest): NormalizedResult
   }
   
   // 3. Detect if accessory
-  const isAccessory = ACCESSORY_KEYWORDS.some(kw => 
-    titleLower.includes(kw.toLowerCase())
-  );
+  const isAccessory = isAccessoryTitle(originalTitle);
   
   // 4. Detect brand
   let brand: string | null = request.brandHint ?? null;
@@ -359,8 +400,8 @@ export function normalizeHeuristic(request: NormalizeRequest): NormalizedResult
     locale
   );
 
-  // Detect category
-  const category = request.categoryHint || (isVehicle ? 'vehicle' : 'product');
+  // Detect category (car brands alone only shape the query: "Peugeot" also makes pepper mills)
+  const category = request.categoryHint || detectCategoryFromText(originalTitle) || 'product';
 
   return {
     normalizedTitle,
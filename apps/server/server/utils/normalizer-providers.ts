@@ -5,10 +5,10 @@ import type {
   ConditionGrade,
   FunctionalState,
 } from '@auction-comparator/shared';
+import { ITEM_CATEGORIES, isItemCategory, parseCapacityToGb } from '@auction-comparator/shared';
 import { generateNormalizeCacheKey } from './normalizer-heuristic';
 import {
   getDeterministicHints,
-  parseCapacityToGb,
   resolveFunctionalState,
   resolveConditionGrade,
   computeSignatures,
@@ -49,7 +49,7 @@ IMPORTANT:
 - Confidence should be 0.0 to 1.0 based on how certain you are
 - altQueries should have max 2 alternative search queries
 - isAccessory = true if it's a case, cable, charger, etc. rather than the main device
-- category: "product" or "vehicle"`;
+- category: one of ${ITEM_CATEGORIES.map((c) => `"${c}"`).join(', ')} ("product" when none fits)`;
 
 /**
  * Build user prompt for normalization
@@ -90,7 +90,7 @@ Respond with JSON only:
   "capacity_gb": integer GB or null,
   "condition": "new|used|unknown",
   "functional_state": "ok|broken|unknown",
-  "category": "product|vehicle",
+  "category": "${ITEM_CATEGORIES.join('|')}",
   "isAccessory": true/false,
   "query": "main search query",
   "altQueries": ["alt query 1", "alt query 2"],
@@ -186,7 +186,9 @@ function parseAIResponse(text: string, request: NormalizeRequest): NormalizedRes
   );
 
   // Parse category
-  const category = data.category === 'vehicle' ? 'vehicle' : (request.categoryHint || 'product');
+  const category = isItemCategory(data.category) && data.category !== 'product'
+    ? data.category
+    : (request.categoryHint || 'product');
 
   return {
     normalizedTitle: String(data.normalizedTitle),
@@ -0,0 +1,79 @@
+import type { CompareRequest, NormalizedResult } from '@auction-comparator/shared';
+import { parseWineAttributes } from '@auction-comparator/shared';
+import { buildSearchQuery } from './query';
+import { computeSignatures, getDeterministicHints } from './canonicalizer';
+
+/** Standard bottles (wine, spirits), left out of the query */
+const STANDARD_SIZES_CL = [70, 75];
+
+/** Format names for the query */
+const FORMAT_NAMES: Record<number, string> = {
+  37.5: 'demi-bouteille',
+  62: 'clavelin',
+  150: 'magnum',
+  300: 'jéroboam',
+  600: 'impériale',
+};
+
+/** Vintages, volumes, bottle counts and formats: the reference already holds them */
+const TITLE_NOISE_PATTERN = /\b(?:19\d{2}|20[0-4]\d)\b|\d+(?:[.,]\d+)?\s*(?:cl|ml|l|litres?)\b|\b\d{1,3}\s*[x×]|\b(?:\d{1,3}\s*)?(?:bouteilles?|btles?|blles?|bottles?|magnums?|demi-bouteilles?|j[ée]roboams?|imp[ée]riales?|clavelins?|fillettes?)\b|\b(?:caisse|carton|coffret|lot|case)\s+(?:de|of)\s+\d{1,3}\b/gi;
+
+/**
+ * The words of a wine title that name the wine, lowercased and without accents
+ * ("6 bouteilles Château Margaux 2015" -> "chateau margaux")
+ */
+function wineTitleKey(title: string): string {
+  return title.toLowerCase()
+    .replace(TITLE_NOISE_PATTERN, ' ')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalize a wine or spirits lot without AI
+ * Producer and appellation stand in for brand and model; the vintage and
+ * bottle size go into the signature so 2015 and 2016 magnums never share a cache entry.
+ */
+export function normalizeWine(request: CompareRequest, locale: string): NormalizedResult {
+  const wine = parseWineAttributes(request.title);
+  const hints = getDeterministicHints(request.title);
+
+  const brand = wine.producer ?? request.brand ?? null;
+  const model = wine.appellation ?? request.model ?? null;
+  const format = wine.bottleSizeCl && !STANDARD_SIZES_CL.includes(wine.bottleSizeCl)
+    ? FORMAT_NAMES[wine.bottleSizeCl] ?? `${wine.bottleSizeCl}cl`
+    : undefined;
+
+  const query = brand
+    ? [brand, model, wine.vintage, format].filter(Boolean).join(' ')
+    : buildSearchQuery({ ...request, category: 'wine', year: wine.vintage ?? request.year });
+
+  // Without a producer the appellation is too broad: the title words tell wines apart
+  const bottle = `${wine.vintage ?? 'nv'}:${wine.bottleSizeCl ?? 75}cl`;
+  const reference = wine.producer ? bottle : `${bottle}:${wineTitleKey(request.title)}`;
+
+  return {
+    normalizedTitle: request.title,
+    brand,
+    model,
+    year: wine.vintage ?? null,
+    reference,
+    capacity: null,
+    capacity_gb: null,
+    condition: 'unknown',
+    condition_grade: 'unknown',
+    functional_state: 'ok',
+    isAccessory: false,
+    category: 'wine',
+    wine,
+    query,
+    altQueries: model && brand ? [[model, wine.vintage].filter(Boolean).join(' ')] : [],
+    confidence: brand && model ? 0.8 : 0.6,
+    conditionConfidence: 0.3,
+    usedAI: false,
+    hints,
+    signatures: computeSignatures(brand, model, reference, null, 'ok', 'unknown', locale),
+  };
+}
@@ -0,0 +1,65 @@
+import { eq } from 'drizzle-orm';
+import { DEFAULT_MARGIN_PCT } from '@auction-comparator/shared';
+import { db, userPreferences } from '../db';
+import type { UserPreferences } from '../db/schema';
+
+/** Allowed range for the verdict margin, in percent */
+const MIN_MARGIN_PERCENT = 0;
+const MAX_MARGIN_PERCENT = 100;
+
+/**
+ * Check that a margin percentage is a usable value
+ */
+export function isValidMarginPercent(value: unknown): value is number {
+  return typeof value === 'number'
+    && Number.isFinite(value)
+    && value >= MIN_MARGIN_PERCENT
+    && value <= MAX_MARGIN_PERCENT;
+}
+
+/**
+ * Get stored preferences for a user (null if never saved)
+ */
+export async function getUserPreferences(userId: string): Promise<UserPreferences | null> {
+  const preferences = await db.query.userPreferences.findFirst({
+    where: eq(userPreferences.userId, userId),
+  });
+
+  return preferences ?? null;
+}
+
+/**
+ * Save the verdict margin preference for a user
+ */
+export async function saveMarginPreference(userId: string, marginPercent: number): Promise<void> {
+  const now = new Date();
+
+  await db.insert(userPreferences)
+    .values({ userId, marginPercent, updatedAt: now })
+    .onConflictDoUpdate({
+      target: userPreferences.userId,
+      set: { marginPercent, updatedAt: now },
+    });
+}
+
+/**
+ * Resolve the verdict margin for a comparison
+ * A margin sent with the request wins and is persisted; otherwise the stored
+ * preference is used, then the shared default.
+ * Returns the margin as a fraction (e.g., 0.10 for 10%)
+ */
+export async function resolveVerdictMargin(
+  userId: string,
+  requestedPercent?: number
+): Promise<number> {
+  if (requestedPercent !== undefined) {
+    const preferences = await getUserPreferences(userId);
+    if (preferences?.marginPercent !== requestedPercent) {
+      await saveMarginPreference(userId, requestedPercent);
+    }
+    return requestedPercent / 100;
+  }
+
+  const preferences = await getUserPreferences(userId);
+  return preferences ? preferences.marginPercent / 100 : DEFAULT_MARGIN_PCT;
+}
@@ -0,0 +1,86 @@
+import { and, asc, eq, gt } from 'drizzle-orm';
+import type {
+  PriceStats,
+  PriceTrendPoint,
+  ProductSignatures,
+  TrendBucket,
+} from '@auction-comparator/shared';
+import { median } from '@auction-comparator/shared';
+import { db, priceObservations } from '../db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Allowed trend window, in days */
+export const DEFAULT_TREND_DAYS = 90;
+export const MAX_TREND_DAYS = 365;
+
+/**
+ * Append a web price observation for a freshly fetched product
+ */
+export async function recordPriceObservation(
+  signatures: ProductSignatures,
+  stats: PriceStats,
+  observedAt: Date = new Date()
+): Promise<void> {
+  if (stats.count === 0) return;
+
+  await db.insert(priceObservations).values({
+    id: crypto.randomUUID(),
+    signatureLoose: signatures.loose,
+    signatureStrict: signatures.strict,
+    median: stats.median,
+    min: stats.min,
+    max: stats.max,
+    resultCount: stats.count,
+    observedAt,
+  });
+}
+
+/**
+ * Start of the bucket containing a date (UTC midnight, weeks start on Monday)
+ */
+function getBucketStart(date: Date, bucket: TrendBucket): number {
+  const dayStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  if (bucket === 'day') return dayStart;
+
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return dayStart - daysSinceMonday * DAY_MS;
+}
+
+/**
+ * Get the bucketed web price history for a product
+ */
+export async function getPriceTrend(
+  signatureLoose: string,
+  bucket: TrendBucket,
+  days: number = DEFAULT_TREND_DAYS
+): Promise<PriceTrendPoint[]> {
+  const since = new Date(Date.now() - days * DAY_MS);
+
+  const observations = await db.query.priceObservations.findMany({
+    where: and(
+      eq(priceObservations.signatureLoose, signatureLoose),
+      gt(priceObservations.observedAt, since)
+    ),
+    orderBy: [asc(priceObservations.observedAt)],
+  });
+
+  const buckets = new Map<number, { medians: number[]; min: number }>();
+  for (const observation of observations) {
+    const start = getBucketStart(observation.observedAt, bucket);
+    const current = buckets.get(start);
+    if (current) {
+      current.medians.push(observation.median);
+      current.min = Math.min(current.min, observation.min);
+    } else {
+      buckets.set(start, { medians: [observation.median], min: observation.min });
+    }
+  }
+
+  return [...buckets.entries()].map(([start, { medians, min }]) => ({
+    bucketStart: new Date(start).toISOString(),
+    median: Math.round(median(medians) * 100) / 100,
+    min,
+    observations: medians.length,
+  }));
+}
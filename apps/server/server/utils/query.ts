@@ -1,4 +1,5 @@
-import type { CompareRequest } from '@auction-comparator/shared';
+import type { CategoryStrategy, CompareRequest } from '@auction-comparator/shared';
+import { containsTerm, getCategoryStrategy } from '@auction-comparator/shared';
 
 // Important product type qualifiers that significantly affect price
 const IMPORTANT_TYPE_QUALIFIERS = [
@@ -30,10 +31,13 @@ const PRODUCT_BASE_WORDS: Record<string, string> = {
 
 /**
  * Build an optimized search query from the compare request
+ * The category strategy adds the words that move prices in that category
+ * (materials, formats, techniques) and the year of vintages.
  */
 export function buildSearchQuery(request: CompareRequest): string {
   const parts: string[] = [];
   const titleLower = request.title.toLowerCase();
+  const strategy = getCategoryStrategy(request.category);
 
   // Add brand and model first for better matching
   if (request.brand) {
@@ -46,11 +50,21 @@ export function buildSearchQuery(request: CompareRequest): string {
 
   // Extract important type qualifiers from title
   const typeQualifiers = extractTypeQualifiers(request.title);
+  for (const qualifier of extractCategoryQualifiers(request.title, strategy)) {
+    if (!typeQualifiers.some(q => containsTerm(q, qualifier))) {
+      typeQualifiers.push(qualifier);
+    }
+  }
   if (typeQualifiers.length > 0) {
     parts.push(...typeQualifiers);
     console.log('[Query] Found type qualifiers:', typeQualifiers);
   }
 
+  const queryYear = strategy.queryIncludesYear && request.year ? String(request.year) : null;
+  if (queryYear) {
+    parts.push(queryYear);
+  }
+
   // If we have brand, model, and type qualifiers, that's usually enough
   if (request.brand && request.model && typeQualifiers.length > 0) {
     const query = parts.join(' ').trim();
@@ -76,10 +90,13 @@ export function buildSearchQuery(request: CompareRequest): string {
     cleanTitle = cleanTitle.replace(new RegExp(escapeRegex(request.model), 'gi'), '').trim();
   }
 
-  // Remove type qualifiers we already added
+  // Remove type qualifiers and the year we already added
   for (const qualifier of typeQualifiers) {
     cleanTitle = cleanTitle.replace(new RegExp(escapeRegex(qualifier), 'gi'), '').trim();
   }
+  if (queryYear) {
+    cleanTitle = cleanTitle.replace(new RegExp(`\\b${queryYear}\\b`, 'g'), '').trim();
+  }
 
   // Remove common auction-specific terms
   cleanTitle = cleanTitle
@@ -147,6 +164,23 @@ function extractTypeQualifiers(title: string): string[] {
   return unique.slice(0, 3); // Allow up to 3 for base word + 2 qualifiers
 }
 
+/**
+ * Extract the category's price-moving words from the title
+ * A qualifier inside a longer one already found ("grand cru" in "grand cru
+ * classé") is skipped.
+ */
+function extractCategoryQualifiers(title: string, strategy: CategoryStrategy): string[] {
+  const found: string[] = [];
+
+  for (const qualifier of strategy.queryQualifiers) {
+    if (containsTerm(title, qualifier) && !found.some(f => containsTerm(f, qualifier))) {
+      found.push(qualifier);
+    }
+  }
+
+  return found.slice(0, 2);
+}
+
 /**
  * Escape special regex characters
  */
@@ -11,10 +11,19 @@ const MAX_REQUESTS_AUTH = 30;
 /** Maximum requests per window for unauthenticated (per IP) */
 const MAX_REQUESTS_UNAUTH = 10;
 
+/** Maximum compare probes per window: one per overlay load, kept apart from comparisons */
+const MAX_REQUESTS_PROBE = 60;
+
 /** Window size in milliseconds (1 minute) */
 const WINDOW_MS = 60 * 1000;
 
-export type RateLimitType = 'auth' | 'ip';
+export type RateLimitType = 'auth' | 'ip' | 'probe';
+
+const MAX_REQUESTS: Record<RateLimitType, number> = {
+  auth: MAX_REQUESTS_AUTH,
+  ip: MAX_REQUESTS_UNAUTH,
+  probe: MAX_REQUESTS_PROBE,
+};
 
 /**
  * Check if a client has exceeded rate limits
@@ -24,7 +33,7 @@ export function checkRateLimit(clientId: string, type: RateLimitType = 'auth'):
   const now = Date.now();
   const key = `${type}:${clientId}`;
   const entry = rateLimits.get(key);
-  const maxRequests = type === 'auth' ? MAX_REQUESTS_AUTH : MAX_REQUESTS_UNAUTH;
+  const maxRequests = MAX_REQUESTS[type];
 
   // Clean up expired entries periodically
   if (Math.random() < 0.01) {
@@ -75,7 +84,7 @@ export function getRemainingRequests(clientId: string, type: RateLimitType = 'au
   const now = Date.now();
   const key = `${type}:${clientId}`;
   const entry = rateLimits.get(key);
-  const maxRequests = type === 'auth' ? MAX_REQUESTS_AUTH : MAX_REQUESTS_UNAUTH;
+  const maxRequests = MAX_REQUESTS[type];
 
   if (!entry || entry.resetAt <= now) {
     return maxRequests;
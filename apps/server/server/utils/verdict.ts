@@ -0,0 +1,168 @@
+import type {
+  ConditionGrade,
+  ConfidenceLevel,
+  DepreciationFactors,
+  PriceStats,
+  ResultCondition,
+  MeltValue,
+  VehicleAttributes,
+  Verdict,
+  VerdictBasis,
+  WebPriceResult,
+} from '@auction-comparator/shared';
+import {
+  DEFAULT_DEPRECIATION_FACTORS,
+  calculateConditionStats,
+  calculateConfidence,
+  calculatePriceStats,
+  calculateVerdict,
+  getCategoryStrategy,
+  rejectOutliers,
+  selectVehicleBasis,
+  selectVerdictBasis,
+} from '@auction-comparator/shared';
+import { isAccessoryTitle } from './normalizer-heuristic';
+
+export interface ResultsEvaluation {
+  /** Results used for stats (outliers removed) */
+  results: WebPriceResult[];
+  /** Results rejected as price outliers */
+  excludedResults: WebPriceResult[];
+  /** Stats over all kept results */
+  stats: PriceStats;
+  confidence: ConfidenceLevel;
+  /** Stats per condition group */
+  conditionStats: Partial<Record<ResultCondition, PriceStats>>;
+  /** Group the verdict was computed against */
+  verdictBasis: VerdictBasis;
+  verdict: Verdict;
+}
+
+export interface AccessoryFilterResult {
+  /** Results of the same class as the lot */
+  results: WebPriceResult[];
+  /** Results dropped for being of the other class */
+  excludedCount: number;
+}
+
+/**
+ * Mark each result as an accessory or a main item from its title
+ */
+export function classifyAccessories(results: WebPriceResult[]): WebPriceResult[] {
+  return results.map((r) => ({ ...r, isAccessory: r.isAccessory ?? isAccessoryTitle(r.title) }));
+}
+
+/**
+ * Keep the results of the same class as the lot, so an iPhone is not priced
+ * against iPhone cases (and a case not against iPhones)
+ * If no result matches, all are kept: the lot's own class is then the likelier mistake.
+ * Categories without accessories (vehicles, wine) keep every result.
+ */
+export function filterAccessoryMismatches(
+  results: WebPriceResult[],
+  lotIsAccessory: boolean,
+  category?: string | null
+): AccessoryFilterResult {
+  const classified = classifyAccessories(results);
+  if (!getCategoryStrategy(category).filtersAccessories) {
+    return { results: classified, excludedCount: 0 };
+  }
+  const matching = classified.filter((r) => r.isAccessory === lotIsAccessory);
+
+  if (matching.length === 0) {
+    return { results: classified, excludedCount: 0 };
+  }
+
+  return { results: matching, excludedCount: classified.length - matching.length };
+}
+
+/**
+ * Parse a depreciation factor from config (must be in (0, 1])
+ */
+function parseFactor(value: unknown, fallback: number): number {
+  const factor = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(factor) && factor > 0 && factor <= 1 ? factor : fallback;
+}
+
+/**
+ * Get the configured depreciation factors
+ */
+export function getDepreciationFactors(): DepreciationFactors {
+  const config = useRuntimeConfig();
+
+  return {
+    used: parseFactor(config.depreciationUsed, DEFAULT_DEPRECIATION_FACTORS.used),
+    refurbished: parseFactor(config.depreciationRefurbished, DEFAULT_DEPRECIATION_FACTORS.refurbished),
+  };
+}
+
+/**
+ * Compute stats and verdict for a set of filtered web results
+ * Outliers are rejected first, then the verdict compares against the
+ * condition group matching the lot.
+ */
+export function evaluateResults(
+  results: WebPriceResult[],
+  conditionGrade: ConditionGrade,
+  auctionPrice: number,
+  marginPct: number
+): ResultsEvaluation {
+  const { kept, outliers } = rejectOutliers(results);
+  const stats = calculatePriceStats(kept, outliers.length);
+  const verdictBasis = selectVerdictBasis(kept, conditionGrade, stats, getDepreciationFactors());
+
+  return {
+    results: kept,
+    excludedResults: outliers,
+    stats,
+    confidence: calculateConfidence(kept),
+    conditionStats: calculateConditionStats(kept),
+    verdictBasis,
+    verdict: calculateVerdict(auctionPrice, verdictBasis.stats, marginPct),
+  };
+}
+
+/**
+ * Re-base a vehicle lot's verdict on listing prices adjusted to its mileage and year
+ * The evaluation is returned unchanged when the regression cannot be fitted.
+ */
+export function applyVehicleBasis(
+  evaluation: ResultsEvaluation,
+  vehicle: VehicleAttributes,
+  auctionPrice: number,
+  marginPct: number
+): ResultsEvaluation {
+  const verdictBasis = selectVehicleBasis(evaluation.results, vehicle);
+  if (!verdictBasis) return evaluation;
+
+  return {
+    ...evaluation,
+    verdictBasis,
+    verdict: calculateVerdict(auctionPrice, verdictBasis.stats, marginPct),
+  };
+}
+
+/**
+ * Re-base a precious-metal lot's verdict on its melt value
+ * Bought below the metal value, the lot is worth it whatever retail listings say;
+ * above it, or with a gross weight (stones included), the web verdict stands.
+ */
+export function applyMeltValue(
+  evaluation: ResultsEvaluation,
+  meltValue: MeltValue,
+  auctionPrice: number
+): ResultsEvaluation {
+  if (meltValue.grossWeight || auctionPrice >= meltValue.value) return evaluation;
+
+  const savings = ((meltValue.value - auctionPrice) / meltValue.value) * 100;
+  return {
+    ...evaluation,
+    verdict: {
+      status: 'worth_it',
+      margin: Math.round(savings * 10) / 10,
+      reason: `${Math.round(savings)}% below melt value`,
+      marginPercent: evaluation.verdict.marginPercent,
+      belowMeltValue: true,
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import { PLANT_CODES, VAG_MODEL_CODES, WMI_TABLE } from './vin-manufacturers';
+
+export interface DecodedVin {
+  vin: string;
+  /** World manufacturer identifier (positions 1-3) */
+  wmi: string;
+  /** Vehicle descriptor section (positions 4-8): body, engine and model codes */
+  vds: string;
+  manufacturer: string | null;
+  model: string | null;
+  modelYear: number | null;
+  /** Raw plant code (position 11) */
+  plantCode: string;
+  plant: string | null;
+  /** ISO 3779 check digit matches (only mandatory for North American VINs) */
+  checkDigitValid: boolean;
+}
+
+const VIN_FORMAT = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+/** Model year codes in cycle order: A is 1980 and 2010, 9 is 2009 and 2039 */
+const YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+const CHECK_DIGIT_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+/** Letter values for the check digit (I, O and Q never appear) */
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const VAG_MANUFACTURERS = new Set(['Volkswagen', 'Audi', 'Seat', 'Skoda']);
+
+/**
+ * Check the ISO 3779 check digit (position 9)
+ */
+function hasValidCheckDigit(vin: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < vin.length; i++) {
+    const char = vin.charAt(i);
+    const value = /\d/.test(char) ? parseInt(char, 10) : TRANSLITERATION[char] ?? 0;
+    sum += value * (CHECK_DIGIT_WEIGHTS[i] ?? 0);
+  }
+
+  const remainder = sum % 11;
+  return vin.charAt(8) === (remainder === 10 ? 'X' : String(remainder));
+}
+
+/**
+ * Read the model year from position 10
+ * The code cycles every 30 years; the latest year not after next year wins,
+ * except for North American VINs where a letter in position 7 means 2010+.
+ */
+function decodeModelYear(vin: string, now: Date): number | null {
+  const index = YEAR_CODES.indexOf(vin.charAt(9));
+  if (index === -1) return null;
+
+  if (/^[1-5]/.test(vin)) {
+    return 1980 + index + (/[A-Z]/.test(vin.charAt(6)) ? 30 : 0);
+  }
+
+  const maxYear = now.getFullYear() + 1;
+  let year = 1980 + index;
+  while (year + 30 <= maxYear) {
+    year += 30;
+  }
+  return year <= maxYear ? year : null;
+}
+
+/**
+ * Decode a VIN offline: manufacturer from the WMI, model from the VDS where
+ * the maker's codes are known, model year and assembly plant
+ * Returns null when the string is not a well-formed VIN, or is a North
+ * American VIN failing its mandatory check digit (a misread).
+ */
+export function decodeVin(rawVin: string, now: Date = new Date()): DecodedVin | null {
+  const vin = rawVin.trim().toUpperCase();
+  if (!VIN_FORMAT.test(vin)) return null;
+
+  const checkDigitValid = hasValidCheckDigit(vin);
+  if (/^[1-5]/.test(vin) && !checkDigitValid) return null;
+
+  const wmi = vin.slice(0, 3);
+  const entry = WMI_TABLE[wmi];
+  const manufacturer = entry?.manufacturer ?? null;
+  const plantCode = vin.charAt(10);
+
+  return {
+    vin,
+    wmi,
+    vds: vin.slice(3, 8),
+    manufacturer,
+    model: manufacturer && VAG_MANUFACTURERS.has(manufacturer)
+      ? VAG_MODEL_CODES[vin.slice(6, 8)] ?? null
+      : null,
+    modelYear: entry?.encodesYear ? decodeModelYear(vin, now) : null,
+    plantCode,
+    plant: manufacturer ? PLANT_CODES[manufacturer]?.[plantCode] ?? null : null,
+    checkDigitValid,
+  };
+}
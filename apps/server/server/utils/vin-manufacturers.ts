@@ -0,0 +1,193 @@
+/**
+ * Bundled VIN lookup tables for the offline decoder
+ * Covers the makes sold at French vehicle auctions; unknown WMIs decode to
+ * no manufacturer rather than a guess.
+ */
+
+export interface WmiEntry {
+  manufacturer: string;
+  /** Position 10 holds the model year (European makers often leave it unused) */
+  encodesYear?: boolean;
+}
+
+/**
+ * World manufacturer identifiers (VIN positions 1-3)
+ */
+export const WMI_TABLE: Record<string, WmiEntry> = {
+  // France
+  VF1: { manufacturer: 'Renault' },
+  VF6: { manufacturer: 'Renault Trucks' },
+  UU1: { manufacturer: 'Dacia' },
+  VF3: { manufacturer: 'Peugeot' },
+  VR3: { manufacturer: 'Peugeot' },
+  VF7: { manufacturer: 'Citroën' },
+  VR7: { manufacturer: 'Citroën' },
+  VR1: { manufacturer: 'DS' },
+  VNK: { manufacturer: 'Toyota' },
+  // Germany
+  WVW: { manufacturer: 'Volkswagen', encodesYear: true },
+  WVG: { manufacturer: 'Volkswagen', encodesYear: true },
+  WV1: { manufacturer: 'Volkswagen', encodesYear: true },
+  WV2: { manufacturer: 'Volkswagen', encodesYear: true },
+  WAU: { manufacturer: 'Audi', encodesYear: true },
+  WA1: { manufacturer: 'Audi', encodesYear: true },
+  TRU: { manufacturer: 'Audi', encodesYear: true },
+  WBA: { manufacturer: 'BMW', encodesYear: true },
+  WBS: { manufacturer: 'BMW', encodesYear: true },
+  WBY: { manufacturer: 'BMW', encodesYear: true },
+  WMW: { manufacturer: 'Mini', encodesYear: true },
+  WDB: { manufacturer: 'Mercedes' },
+  WDD: { manufacturer: 'Mercedes' },
+  WDC: { manufacturer: 'Mercedes' },
+  W1K: { manufacturer: 'Mercedes' },
+  W1N: { manufacturer: 'Mercedes' },
+  WDF: { manufacturer: 'Mercedes' },
+  W1V: { manufacturer: 'Mercedes' },
+  WME: { manufacturer: 'Smart' },
+  WP0: { manufacturer: 'Porsche', encodesYear: true },
+  WP1: { manufacturer: 'Porsche', encodesYear: true },
+  W0L: { manufacturer: 'Opel' },
+  W0V: { manufacturer: 'Opel' },
+  VXK: { manufacturer: 'Opel' },
+  WF0: { manufacturer: 'Ford' },
+  WMA: { manufacturer: 'MAN' },
+  // Rest of Europe
+  VSS: { manufacturer: 'Seat', encodesYear: true },
+  TMB: { manufacturer: 'Skoda', encodesYear: true },
+  VS6: { manufacturer: 'Ford' },
+  NM0: { manufacturer: 'Ford' },
+  ZFA: { manufacturer: 'Fiat' },
+  ZAR: { manufacturer: 'Alfa Romeo' },
+  ZLA: { manufacturer: 'Lancia' },
+  ZAC: { manufacturer: 'Jeep' },
+  ZCF: { manufacturer: 'Iveco' },
+  ZFF: { manufacturer: 'Ferrari' },
+  ZAM: { manufacturer: 'Maserati' },
+  ZHW: { manufacturer: 'Lamborghini' },
+  YV1: { manufacturer: 'Volvo', encodesYear: true },
+  YV4: { manufacturer: 'Volvo', encodesYear: true },
+  YS3: { manufacturer: 'Saab' },
+  XLR: { manufacturer: 'DAF' },
+  SAL: { manufacturer: 'Land Rover' },
+  SAJ: { manufacturer: 'Jaguar' },
+  SB1: { manufacturer: 'Toyota' },
+  NMT: { manufacturer: 'Toyota' },
+  SJN: { manufacturer: 'Nissan' },
+  VSK: { manufacturer: 'Nissan' },
+  SHH: { manufacturer: 'Honda' },
+  TMA: { manufacturer: 'Hyundai', encodesYear: true },
+  NLH: { manufacturer: 'Hyundai', encodesYear: true },
+  U5Y: { manufacturer: 'Kia', encodesYear: true },
+  U6Y: { manufacturer: 'Kia', encodesYear: true },
+  TSM: { manufacturer: 'Suzuki' },
+  XP7: { manufacturer: 'Tesla', encodesYear: true },
+  // Asia
+  JTD: { manufacturer: 'Toyota' },
+  JTE: { manufacturer: 'Toyota' },
+  JTH: { manufacturer: 'Lexus' },
+  JN1: { manufacturer: 'Nissan' },
+  JHM: { manufacturer: 'Honda' },
+  JMZ: { manufacturer: 'Mazda' },
+  JMB: { manufacturer: 'Mitsubishi' },
+  JSA: { manufacturer: 'Suzuki' },
+  JF1: { manufacturer: 'Subaru' },
+  KMH: { manufacturer: 'Hyundai', encodesYear: true },
+  KNA: { manufacturer: 'Kia', encodesYear: true },
+  KNE: { manufacturer: 'Kia', encodesYear: true },
+  LRW: { manufacturer: 'Tesla', encodesYear: true },
+  // North America (position 10 is always the model year)
+  '1C4': { manufacturer: 'Jeep', encodesYear: true },
+  '5YJ': { manufacturer: 'Tesla', encodesYear: true },
+  '7SA': { manufacturer: 'Tesla', encodesYear: true },
+};
+
+/**
+ * Model codes of Volkswagen group VINs (positions 7-8, after the "ZZZ" filler)
+ */
+export const VAG_MODEL_CODES: Record<string, string> = {
+  // Volkswagen
+  '1K': 'Golf',
+  '5K': 'Golf',
+  'AU': 'Golf',
+  'CD': 'Golf',
+  '9N': 'Polo',
+  '6R': 'Polo',
+  '6C': 'Polo',
+  'AW': 'Polo',
+  '3C': 'Passat',
+  '3G': 'Passat',
+  '5N': 'Tiguan',
+  'AD': 'Tiguan',
+  '1T': 'Touran',
+  '5T': 'Touran',
+  'A1': 'T-Roc',
+  'AA': 'Up',
+  '2K': 'Caddy',
+  '7J': 'Transporter',
+  '7H': 'Transporter',
+  '7N': 'Sharan',
+  '3H': 'Arteon',
+  'E1': 'ID.3',
+  // Audi
+  '8X': 'A1',
+  'GB': 'A1',
+  '8P': 'A3',
+  '8V': 'A3',
+  '8Y': 'A3',
+  '8E': 'A4',
+  '8K': 'A4',
+  '8W': 'A4',
+  '8T': 'A5',
+  'F5': 'A5',
+  '4F': 'A6',
+  '4G': 'A6',
+  '4A': 'A6',
+  '8U': 'Q3',
+  'F3': 'Q3',
+  '8R': 'Q5',
+  'FY': 'Q5',
+  '4L': 'Q7',
+  '4M': 'Q7',
+  '8J': 'TT',
+  'FV': 'TT',
+  // Seat
+  '1P': 'Leon',
+  '5F': 'Leon',
+  'KL': 'Leon',
+  '6J': 'Ibiza',
+  '6P': 'Ibiza',
+  'KH': 'Ateca',
+  // Skoda
+  '1Z': 'Octavia',
+  '5E': 'Octavia',
+  'NX': 'Octavia',
+  '5J': 'Fabia',
+  'NJ': 'Fabia',
+  'PJ': 'Fabia',
+  '3T': 'Superb',
+  '3V': 'Superb',
+  'NS': 'Kodiaq',
+  'NU': 'Karoq',
+};
+
+/**
+ * Assembly plants by manufacturer (VIN position 11)
+ */
+export const PLANT_CODES: Record<string, Record<string, string>> = {
+  Volkswagen: {
+    W: 'Wolfsburg',
+    E: 'Emden',
+    H: 'Hannover',
+    P: 'Zwickau',
+    Y: 'Pamplona',
+    M: 'Puebla',
+  },
+  Audi: {
+    A: 'Ingolstadt',
+    N: 'Neckarsulm',
+    1: 'Győr',
+  },
+  Seat: {
+    R: 'Martorell',
+  },
+};
@@ -0,0 +1,305 @@
+import { eq, and, desc, gt } from 'drizzle-orm';
+import type {
+  MetalAttributes,
+  VehicleAttributes,
+  VerdictStatus,
+  WebPriceResult,
+  WatchLotRequest,
+  WatchedLot as WatchedLotDto,
+  WineAttributes,
+} from '@auction-comparator/shared';
+import { DEFAULT_MARGIN_PCT, isItemCategory, parseWineAttributes } from '@auction-comparator/shared';
+import { db, watchedLots, compareCacheEntries } from '../db';
+import type { CompareCacheEntry, WatchedLot } from '../db/schema';
+import { getUserPreferences } from './preferences';
+import { isAccessoryTitle } from './normalizer-heuristic';
+import { filterAccessoryMismatches } from './verdict';
+import { detectCategory, evaluateForLot, getLotMeltValue } from './compare';
+import type { LotToEvaluate } from './compare';
+
+export interface WatchlistRecheckSummary {
+  checked: number;
+  changed: number;
+}
+
+interface LotResults {
+  results: WebPriceResult[];
+  /** Category the entry was searched in */
+  category: string | null;
+}
+
+/** Lot attributes a recheck needs beyond the title and price */
+interface WatchedLotAttributes {
+  year?: number;
+  vehicle?: VehicleAttributes;
+  metal?: MetalAttributes;
+  wine?: WineAttributes;
+}
+
+/**
+ * Map a stored watched lot to its API representation
+ */
+function toWatchedLotDto(lot: WatchedLot): WatchedLotDto {
+  return {
+    id: lot.id,
+    lotUrl: lot.lotUrl,
+    domain: lot.domain,
+    title: lot.title,
+    auctionPrice: lot.auctionPrice,
+    currency: lot.currency as WatchedLotDto['currency'],
+    verdictStatus: lot.verdictStatus,
+    previousVerdictStatus: lot.previousVerdictStatus,
+    verdictChangedAt: lot.verdictChangedAt?.toISOString() ?? null,
+    lastCheckedAt: lot.lastCheckedAt?.toISOString() ?? null,
+    createdAt: lot.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Read the results and category of a cache entry
+ */
+function toLotResults(entry: CompareCacheEntry): LotResults {
+  return {
+    results: JSON.parse(entry.resultsJson) as WebPriceResult[],
+    category: entry.category,
+  };
+}
+
+/**
+ * Find the cached results for a watched lot (unexpired strict match first,
+ * then the most recent unexpired loose match)
+ * Expired entries are skipped either way, so a lot is never rechecked on stale prices.
+ */
+async function getResultsForLot(lot: WatchedLot): Promise<LotResults | null> {
+  const now = new Date();
+
+  const strictEntry = await db.query.compareCacheEntries.findFirst({
+    where: and(
+      eq(compareCacheEntries.signatureStrict, lot.signatureStrict),
+      gt(compareCacheEntries.expiresAt, now)
+    ),
+  });
+  if (strictEntry) {
+    return toLotResults(strictEntry);
+  }
+
+  const looseEntry = await db.query.compareCacheEntries.findFirst({
+    where: and(
+      eq(compareCacheEntries.signatureLoose, lot.signatureLoose),
+      gt(compareCacheEntries.expiresAt, now)
+    ),
+    orderBy: [desc(compareCacheEntries.fetchedAt)],
+  });
+
+  return looseEntry ? toLotResults(looseEntry) : null;
+}
+
+/**
+ * Pick the attributes of a watch request that the verdict depends on
+ */
+function toLotAttributes(request: WatchLotRequest): WatchedLotAttributes {
+  return {
+    ...(request.year !== undefined && { year: request.year }),
+    ...(request.vehicle && { vehicle: request.vehicle }),
+    ...(request.metal && { metal: request.metal }),
+    ...(request.category === 'wine' && { wine: parseWineAttributes(request.title) }),
+  };
+}
+
+/**
+ * Rebuild the lot a comparison evaluated from a watched lot
+ * Lots watched before their category was stored fall back to the site's.
+ */
+function toLotToEvaluate(lot: WatchedLot): LotToEvaluate {
+  const attributes = (lot.attributesJson ? JSON.parse(lot.attributesJson) : {}) as WatchedLotAttributes;
+
+  return {
+    body: {
+      title: lot.title,
+      auctionPrice: lot.auctionPrice,
+      currency: lot.currency as LotToEvaluate['body']['currency'],
+      year: attributes.year,
+      vehicle: attributes.vehicle,
+      metal: attributes.metal,
+    },
+    context: { category: isItemCategory(lot.category) ? lot.category : detectCategory(lot.domain) },
+    normalized: {
+      condition_grade: lot.conditionGrade,
+      year: attributes.year ?? null,
+      wine: attributes.wine,
+    },
+  };
+}
+
+/**
+ * Compute the verdict transition fields for a lot given its new status
+ */
+function verdictTransition(
+  lot: Pick<WatchedLot, 'verdictStatus' | 'previousVerdictStatus' | 'verdictChangedAt'>,
+  status: VerdictStatus,
+  now: Date
+) {
+  if (lot.verdictStatus === status) {
+    return {
+      verdictStatus: lot.verdictStatus,
+      previousVerdictStatus: lot.previousVerdictStatus,
+      verdictChangedAt: lot.verdictChangedAt,
+    };
+  }
+
+  return {
+    verdictStatus: status,
+    previousVerdictStatus: lot.verdictStatus,
+    verdictChangedAt: lot.verdictStatus ? now : lot.verdictChangedAt,
+  };
+}
+
+/**
+ * Re-evaluate a single watched lot against its cached stats
+ * Same basis as a comparison: category margin floor, wine per bottle,
+ * vehicle adjustment and melt value. Returns true if the verdict changed
+ */
+async function recheckLot(lot: WatchedLot, marginPct: number): Promise<boolean> {
+  const now = new Date();
+  const cached = await getResultsForLot(lot);
+
+  if (!cached) {
+    await db.update(watchedLots)
+      .set({ lastCheckedAt: now })
+      .where(eq(watchedLots.id, lot.id));
+    return false;
+  }
+
+  const lotResults = filterAccessoryMismatches(cached.results, isAccessoryTitle(lot.title), cached.category);
+  const prepared = toLotToEvaluate(lot);
+  const meltValue = await getLotMeltValue(prepared);
+  const { verdict } = evaluateForLot(prepared, lotResults.results, marginPct, meltValue);
+  const transition = verdictTransition(lot, verdict.status, now);
+
+  await db.update(watchedLots)
+    .set({ ...transition, lastCheckedAt: now, updatedAt: now })
+    .where(eq(watchedLots.id, lot.id));
+
+  return lot.verdictStatus !== null && lot.verdictStatus !== verdict.status;
+}
+
+/**
+ * Resolve a user's stored verdict margin as a fraction
+ */
+async function getStoredMargin(userId: string): Promise<number> {
+  const preferences = await getUserPreferences(userId);
+  return preferences ? preferences.marginPercent / 100 : DEFAULT_MARGIN_PCT;
+}
+
+/**
+ * List a user's watched lots, most recent first
+ */
+export async function getWatchlist(userId: string): Promise<WatchedLotDto[]> {
+  const lots = await db.query.watchedLots.findMany({
+    where: eq(watchedLots.userId, userId),
+    orderBy: (table, { desc }) => [desc(table.createdAt)],
+  });
+
+  return lots.map(toWatchedLotDto);
+}
+
+/**
+ * Add a lot to the watchlist, or update its latest bid if already watched
+ * The lot is re-checked immediately so the returned verdict is current
+ */
+export async function watchLot(userId: string, request: WatchLotRequest): Promise<WatchedLotDto> {
+  const now = new Date();
+
+  const existing = await db.query.watchedLots.findFirst({
+    where: and(
+      eq(watchedLots.userId, userId),
+      eq(watchedLots.lotUrl, request.lotUrl)
+    ),
+  });
+
+  let lotId: string;
+
+  if (existing) {
+    lotId = existing.id;
+    await db.update(watchedLots)
+      .set({
+        title: request.title,
+        auctionPrice: request.auctionPrice,
+        currency: request.currency,
+        signatureStrict: request.signatureStrict,
+        signatureLoose: request.signatureLoose,
+        ...(request.conditionGrade && { conditionGrade: request.conditionGrade }),
+        ...(request.category && { category: request.category }),
+        attributesJson: JSON.stringify(toLotAttributes(request)),
+        updatedAt: now,
+      })
+      .where(eq(watchedLots.id, lotId));
+  } else {
+    lotId = crypto.randomUUID();
+    await db.insert(watchedLots).values({
+      id: lotId,
+      userId,
+      lotUrl: request.lotUrl,
+      domain: request.siteDomain,
+      title: request.title,
+      signatureStrict: request.signatureStrict,
+      signatureLoose: request.signatureLoose,
+      auctionPrice: request.auctionPrice,
+      currency: request.currency,
+      conditionGrade: request.conditionGrade ?? 'unknown',
+      category: request.category ?? null,
+      attributesJson: JSON.stringify(toLotAttributes(request)),
+      verdictStatus: request.verdictStatus ?? null,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  const lot = await db.query.watchedLots.findFirst({
+    where: eq(watchedLots.id, lotId),
+  });
+
+  await recheckLot(lot!, await getStoredMargin(userId));
+
+  const updated = await db.query.watchedLots.findFirst({
+    where: eq(watchedLots.id, lotId),
+  });
+
+  return toWatchedLotDto(updated!);
+}
+
+/**
+ * Remove a lot from a user's watchlist
+ */
+export async function unwatchLot(lotId: string, userId: string): Promise<boolean> {
+  const result = await db.delete(watchedLots)
+    .where(and(
+      eq(watchedLots.id, lotId),
+      eq(watchedLots.userId, userId)
+    ));
+
+  return result.changes > 0;
+}
+
+/**
+ * Re-check every watched lot against the cached stats for its signature
+ */
+export async function recheckWatchlist(): Promise<WatchlistRecheckSummary> {
+  const lots = await db.query.watchedLots.findMany();
+  const margins = new Map<string, number>();
+  let changed = 0;
+
+  for (const lot of lots) {
+    let marginPct = margins.get(lot.userId);
+    if (marginPct === undefined) {
+      marginPct = await getStoredMargin(lot.userId);
+      margins.set(lot.userId, marginPct);
+    }
+
+    if (await recheckLot(lot, marginPct)) {
+      changed++;
+    }
+  }
+
+  return { checked: lots.length, changed };
+}
@@ -0,0 +1,112 @@
+import { describe, expect, test } from 'bun:test';
+import type { CompareRequest, WebPriceResult } from '@auction-comparator/shared';
+import {
+  evaluateForLot,
+  getCompareContext,
+  getLotMetal,
+  normalizeCompareRequest,
+  refineCompareContext,
+} from '../server/utils/compare';
+
+/** A request as the extension sends it: adapters default to 'product' */
+function extensionRequest(title: string, overrides: Partial<CompareRequest> = {}): CompareRequest {
+  return {
+    title,
+    auctionPrice: 100,
+    currency: 'EUR',
+    locale: 'fr',
+    siteDomain: 'www.interencheres.com',
+    category: 'product',
+    extractionConfidence: 'high',
+    ...overrides,
+  };
+}
+
+/**
+ * A listing found by the shopping provider
+ */
+function listing(title: string, price: number): WebPriceResult {
+  return { title, price, priceString: `${price} €`, source: 'example.com', url: `https://example.com/${price}`, relevanceScore: 0.8 };
+}
+
+describe('refineCompareContext', () => {
+  test('refines the extension\'s generic product category', async () => {
+    const body = extensionRequest('Bague Van Cleef & Arpels Alhambra', { brand: 'Van Cleef & Arpels', model: 'Alhambra' });
+    const context = getCompareContext(body);
+    const normalized = await normalizeCompareRequest(body, context, { useAI: false });
+
+    expect(refineCompareContext(context, body, normalized).category).toBe('jewelry');
+  });
+
+  test('keeps a specific category sent by the adapter', async () => {
+    const body = extensionRequest('Machine à café Delonghi', { category: 'furniture', brand: 'Delonghi', model: 'Magnifica' });
+    const context = getCompareContext(body);
+    const normalized = await normalizeCompareRequest(body, context, { useAI: false });
+
+    expect(refineCompareContext(context, body, normalized).category).toBe('furniture');
+  });
+
+  test('leaves generic products without a category keyword alone', async () => {
+    const body = extensionRequest('Machine à café Delonghi Magnifica', { brand: 'Delonghi', model: 'Magnifica' });
+    const context = getCompareContext(body);
+    const normalized = await normalizeCompareRequest(body, context, { useAI: false });
+
+    expect(refineCompareContext(context, body, normalized).category).toBe('product');
+  });
+});
+
+describe('wine lots', () => {
+  test('a lot sent as a product is compared per bottle', async () => {
+    const body = extensionRequest('6 bouteilles Château Lynch-Bages Pauillac 2015 75cl', { auctionPrice: 300 });
+    const initialContext = getCompareContext(body);
+    const normalized = await normalizeCompareRequest(body, initialContext, { useAI: false });
+    const context = refineCompareContext(initialContext, body, normalized);
+
+    expect(normalized.category).toBe('wine');
+    expect(context.category).toBe('wine');
+
+    const results = [
+      listing('Château Lynch-Bages 2015 Pauillac 75cl', 110),
+      listing('Château Lynch-Bages 2015 75 cl', 120),
+      listing('Caisse de 6 Château Lynch-Bages 2015', 660),
+    ];
+    const evaluation = evaluateForLot({ body, context, normalized }, results, 0.1);
+
+    expect(evaluation.verdictBasis.perBottle?.bottleCount).toBe(6);
+    expect(evaluation.verdictBasis.perBottle?.auctionPrice).toBe(50);
+    expect(evaluation.stats.median).toBe(110);
+  });
+});
+
+describe('getLotMetal', () => {
+  /**
+   * Metal of a lot prepared as the compare endpoint does
+   */
+  async function lotMetal(body: CompareRequest) {
+    const initialContext = getCompareContext(body);
+    const normalized = await normalizeCompareRequest(body, initialContext, { useAI: false });
+    return getLotMetal({ body, context: refineCompareContext(initialContext, body, normalized), normalized });
+  }
+
+  test('reads the metal of jewelry lots', async () => {
+    const body = extensionRequest('Bague en or jaune 18k, poids : 5,2 g');
+    expect(await lotMetal(body)).toEqual({ metal: 'gold', fineness: 750, weightGrams: 5.2 });
+  });
+
+  test('the weight of a watch is gross, so it sets no melt value', async () => {
+    const body = extensionRequest('Montre Rolex or 18k 120 g');
+    expect(await lotMetal(body)).toEqual({ metal: 'gold', fineness: 750, weightGrams: 120, grossWeight: true });
+  });
+
+  test('phones in a gold or silver color have no melt value', async () => {
+    const goldPhone = extensionRequest('Apple iPhone 13 128 Go Gold 5G', {
+      brand: 'Apple',
+      model: 'iPhone 13',
+      metal: { metal: 'gold', fineness: 750, weightGrams: 5 },
+    });
+    const silverPhone = extensionRequest('Samsung Galaxy S21 5G Phantom Silver', { brand: 'Samsung', model: 'Galaxy S21' });
+
+    expect(await lotMetal(goldPhone)).toBeNull();
+    expect(await lotMetal(silverPhone)).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, test } from 'bun:test';
+import { isAccessoryTitle } from '../server/utils/normalizer-heuristic';
+
+describe('isAccessoryTitle', () => {
+  test('flags titles led by an accessory keyword', () => {
+    expect(isAccessoryTitle('Coque iPhone 13 silicone')).toBe(true);
+    expect(isAccessoryTitle('Chargeur Apple MagSafe 15W')).toBe(true);
+    expect(isAccessoryTitle('Manette Sony PS5 DualSense')).toBe(true);
+    expect(isAccessoryTitle('Câble USB-C tressé 2 m')).toBe(true);
+  });
+
+  test('ignores battery states of the main item', () => {
+    expect(isAccessoryTitle('Apple iPhone 13 128 Go - Reconditionné - Batterie neuve')).toBe(false);
+    expect(isAccessoryTitle('iPhone 12 Pro batterie 100%')).toBe(false);
+    expect(isAccessoryTitle('iPhone 11 64 Go batterie à 87 %')).toBe(false);
+  });
+
+  test('ignores bundled extras', () => {
+    expect(isAccessoryTitle('MacBook Air M1 avec chargeur')).toBe(false);
+    expect(isAccessoryTitle('Console PS5 + manette')).toBe(false);
+    expect(isAccessoryTitle('Ordinateur portable Dell, chargeur inclus')).toBe(false);
+  });
+
+  test('ignores keywords after the product noun', () => {
+    expect(isAccessoryTitle('Téléviseur Samsung 55 pouces télécommande')).toBe(false);
+    expect(isAccessoryTitle('Standard lamp')).toBe(false);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'bun:test';
+import type { CompareRequest } from '@auction-comparator/shared';
+import { normalizeWine } from '../server/utils/normalizer-wine';
+
+/**
+ * Normalize a wine lot title as the compare flow does
+ */
+function normalize(title: string) {
+  const request: CompareRequest = { title, auctionPrice: 100, currency: 'EUR', locale: 'fr', siteDomain: 'www.interencheres.com', category: 'wine' };
+  return normalizeWine(request, 'fr');
+}
+
+describe('normalizeWine', () => {
+  test('keys wines without a producer on their title words', () => {
+    expect(normalize('Château Margaux 2015').reference).toBe('2015:75cl:chateau margaux');
+    expect(normalize('Champagne Dom Pérignon 2012 magnum').reference).toBe('2012:150cl:champagne dom perignon');
+    expect(normalize('Whisky Lagavulin 16 ans 70cl').reference).toBe('nv:70cl:whisky lagavulin 16 ans');
+    expect(normalize('12 bouteilles Bordeaux rouge 2015').reference).toBe('2015:75cl:bordeaux rouge');
+  });
+
+  test('wines sharing only an appellation and vintage get their own signature', () => {
+    expect(normalize('Champagne Dom Pérignon 2012 magnum').signatures?.strict)
+      .not.toBe(normalize('Champagne Krug 2012 magnum').signatures?.strict);
+    expect(normalize('Whisky Lagavulin 16 ans 70cl').signatures?.loose)
+      .not.toBe(normalize('Whisky Talisker 10 ans 70cl').signatures?.loose);
+    expect(normalize('12 bouteilles Bordeaux rouge 2015').signatures?.strict)
+      .not.toBe(normalize('Sauternes 2015').signatures?.strict);
+  });
+
+  test('the bottle count does not split a wine\'s signature', () => {
+    expect(normalize('6 bouteilles Château Margaux 2015').signatures?.strict)
+      .toBe(normalize('Château Margaux 2015').signatures?.strict);
+  });
+
+  test('a producer is enough to key the wine', () => {
+    expect(normalize('Château Lynch-Bages Pauillac 2015').reference).toBe('2015:75cl');
+  });
+});
@@ -0,0 +1,12 @@
+import { mock } from 'bun:test';
+import * as schema from '../server/db/schema';
+
+// better-sqlite3 does not load under bun: tests only cover code that needs no database
+mock.module('../server/db', () => ({
+  ...schema,
+  db: {},
+  initializeDatabase: () => {},
+}));
+
+// Nitro auto-import: the runtime config defaults apply
+Object.assign(globalThis, { useRuntimeConfig: () => ({}) });
@@ -9,6 +9,16 @@ export interface MutationObserverConfig {
   debounceMs: number;
 }
 
+/**
+ * A lot card on a sale catalog page
+ */
+export interface ListingLot {
+  /** Lightweight lot data read from the card (title, price, URL) */
+  data: AuctionData;
+  /** Card element, where the inline badge is mounted */
+  element: Element;
+}
+
 export interface SiteAdapter {
   /** Unique adapter identifier */
   id: string;
@@ -33,6 +43,16 @@ export interface SiteAdapter {
    */
   extractData(): AuctionData | null;
 
+  /**
+   * Check if the current page is a sale catalog listing several lots
+   */
+  isListingPage?(): boolean;
+
+  /**
+   * Extract one lightweight entry per lot card on a catalog page
+   */
+  extractListing?(): ListingLot[];
+
   /**
    * Get the element where the overlay should be mounted
    */
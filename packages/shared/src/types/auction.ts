@@ -1,3 +1,5 @@
+import type { ItemCategory } from './comparison';
+
 export type Currency = 'EUR' | 'USD' | 'GBP';
 
 export type ItemCondition =
@@ -9,17 +11,113 @@ export type ItemCondition =
   | 'for_parts'
   | 'unknown';
 
+/**
+ * One band of a tiered buyer's premium
+ * Bands are marginal: each rate applies only to the part of the hammer price
+ * falling inside the band
+ */
+export interface PremiumTier {
+  /** Upper bound of the band in the auction currency (omit for the last band) */
+  upTo?: number;
+  /** Premium percentage for this band (e.g., 0.25 for 25%) */
+  rate: number;
+}
+
+/**
+ * What the VAT rate is charged on
+ * - total: hammer price, premium and fixed fees (legacy behaviour)
+ * - premium: premium and fixed fees only (French margin-scheme sales)
+ * - none: rates are already VAT-inclusive (TTC)
+ */
+export type VatScope = 'total' | 'premium' | 'none';
+
 export interface AuctionFees {
-  /** Buyer's premium percentage (e.g., 0.20 for 20%) */
+  /** Buyer's premium percentage (e.g., 0.20 for 20%), used when no tiers are set */
   buyerPremium: number;
-  /** Fixed fees in the auction currency */
+  /** Tiered buyer's premium, ordered by ascending upper bound */
+  premiumTiers?: PremiumTier[];
+  /** Fixed per-lot fees in the auction currency (e.g., "frais de dossier") */
   fixedFees?: number;
+  /** "Frais judiciaires" percentage of the hammer price for court-ordered sales (VAT-inclusive) */
+  judicialFees?: number;
   /** VAT percentage if applicable */
   vat?: number;
+  /** What the VAT is charged on (defaults to total) */
+  vatScope?: VatScope;
+  /** The displayed price already includes every fee */
+  feesIncluded?: boolean;
+  /** Pickup or transport cost to get the lot home (no premium or VAT) */
+  transportCost?: number;
+  /** Confidence that the fees were read from the lot page rather than site defaults */
+  extractionConfidence?: ExtractionConfidence;
+}
+
+/**
+ * Itemized cost of winning a lot at a given bid
+ */
+export interface FeeBreakdown {
+  hammerPrice: number;
+  buyerPremium: number;
+  judicialFees: number;
+  fixedFees: number;
+  vat: number;
+  transportCost: number;
+  total: number;
 }
 
 export type ExtractionConfidence = 'high' | 'medium' | 'low';
 
+export type VehicleFuel = 'petrol' | 'diesel' | 'hybrid' | 'electric' | 'lpg';
+
+export type VehicleGearbox = 'manual' | 'automatic';
+
+/**
+ * Vehicle attributes that move its price (read from a lot page or a listing title)
+ */
+export interface VehicleAttributes {
+  /** Odometer reading in km */
+  mileageKm?: number;
+  /** Model year or year of first registration */
+  year?: number;
+  fuel?: VehicleFuel;
+  gearbox?: VehicleGearbox;
+  /** Vehicle identification number (17 characters, uppercase) */
+  vin?: string;
+  /** French registration plate, SIV format (AB-123-CD) */
+  registration?: string;
+}
+
+/**
+ * Wine or spirits lot attributes read from a title ("6 bouteilles Château X 2015 75cl")
+ */
+export interface WineAttributes {
+  /** Appellation or spirit type (e.g., "Pauillac", "Cognac") */
+  appellation?: string;
+  /** Château, domaine or house */
+  producer?: string;
+  /** Vintage year */
+  vintage?: number;
+  /** Bottle size in centilitres (37.5, 75, 150 for a magnum...) */
+  bottleSizeCl?: number;
+  /** Bottles in the lot (1 when not stated) */
+  bottleCount: number;
+}
+
+export type PreciousMetal = 'gold' | 'silver' | 'platinum';
+
+/**
+ * Metal content of a jewelry or silverware lot, read from its title and description
+ */
+export interface MetalAttributes {
+  metal: PreciousMetal;
+  /** Fineness in thousandths (750 for 18k gold, 925 for sterling silver) */
+  fineness: number;
+  /** Weight in grams, if stated */
+  weightGrams?: number;
+  /** The weight is gross ("poids brut"): stones and mounts included */
+  grossWeight?: boolean;
+}
+
 export interface AuctionData {
   /** Item title from the auction listing */
   title: string;
@@ -29,6 +127,8 @@ export interface AuctionData {
   model?: string;
   /** Year (e.g., car model year, first circulation date) */
   year?: number;
+  /** Vehicle attributes (vehicle lots only) */
+  vehicle?: VehicleAttributes;
   /** Item condition */
   condition: ItemCondition;
   /** Current bid price (or starting price if no bids) */
@@ -39,6 +139,8 @@ export interface AuctionData {
   fees: AuctionFees;
   /** Total price including fees */
   totalPrice: number;
+  /** Final hammer price when the lot is closed ("adjugé") */
+  soldPrice?: number;
   /** Site domain where the auction is listed */
   siteDomain: string;
   /** Locale for search queries */
@@ -48,7 +150,7 @@ export interface AuctionData {
   /** URL of the auction lot */
   lotUrl?: string;
   /** Category of the item */
-  category?: string;
+  category?: ItemCategory;
   /** Raw description text */
   description?: string;
   /** Confidence level of the extraction */
@@ -74,27 +176,103 @@ export function calculateExtractionConfidence(
   return 'low';
 }
 
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
 /**
- * Calculate total auction price including all fees
+ * Calculate the buyer's premium for a bid, using tiers when available
  */
-export function calculateTotalPrice(
+export function calculateBuyerPremium(bidPrice: number, fees: AuctionFees): number {
+  if (!fees.premiumTiers?.length) {
+    return bidPrice * fees.buyerPremium;
+  }
+
+  let premium = 0;
+  let lowerBound = 0;
+
+  for (const tier of fees.premiumTiers) {
+    const upperBound = tier.upTo ?? Infinity;
+    if (bidPrice <= lowerBound) break;
+    premium += (Math.min(bidPrice, upperBound) - lowerBound) * tier.rate;
+    lowerBound = upperBound;
+  }
+
+  return premium;
+}
+
+/**
+ * Itemize the cost of a lot: hammer price, premium, judicial fees, fixed
+ * fees, VAT on the configured scope and transport
+ */
+export function calculateFeeBreakdown(
   bidPrice: number,
   fees: AuctionFees
-): number {
-  let total = bidPrice;
+): FeeBreakdown {
+  const transportCost = fees.transportCost ?? 0;
 
-  // Add buyer's premium
-  total += bidPrice * fees.buyerPremium;
+  // Displayed price is all-in: nothing to add apart from transport
+  if (fees.feesIncluded) {
+    return {
+      hammerPrice: bidPrice,
+      buyerPremium: 0,
+      judicialFees: 0,
+      fixedFees: 0,
+      vat: 0,
+      transportCost,
+      total: roundCents(bidPrice + transportCost),
+    };
+  }
 
-  // Add fixed fees
-  if (fees.fixedFees) {
-    total += fees.fixedFees;
+  const buyerPremium = calculateBuyerPremium(bidPrice, fees);
+  const judicialFees = bidPrice * (fees.judicialFees ?? 0);
+  const fixedFees = fees.fixedFees ?? 0;
+
+  let vatBase = 0;
+  switch (fees.vatScope ?? 'total') {
+    case 'total':
+      vatBase = bidPrice + buyerPremium + fixedFees;
+      break;
+    case 'premium':
+      vatBase = buyerPremium + fixedFees;
+      break;
+    case 'none':
+      break;
   }
+  const vat = vatBase * (fees.vat ?? 0);
+
+  return {
+    hammerPrice: bidPrice,
+    buyerPremium: roundCents(buyerPremium),
+    judicialFees: roundCents(judicialFees),
+    fixedFees: roundCents(fixedFees),
+    vat: roundCents(vat),
+    transportCost,
+    total: roundCents(bidPrice + buyerPremium + judicialFees + fixedFees + vat + transportCost),
+  };
+}
+
+/**
+ * Calculate total auction price including all fees
+ */
+export function calculateTotalPrice(
+  bidPrice: number,
+  fees: AuctionFees
+): number {
+  return calculateFeeBreakdown(bidPrice, fees).total;
+}
 
-  // Add VAT if applicable (applied to the total)
-  if (fees.vat) {
-    total += total * fees.vat;
+/**
+ * Add a pickup/transport cost to auction data already priced with fees
+ */
+export function withTransportCost(data: AuctionData, transportCost: number): AuctionData {
+  if (!transportCost || data.fees.transportCost) {
+    return data;
   }
 
-  return Math.round(total * 100) / 100;
+  return {
+    ...data,
+    fees: { ...data.fees, transportCost },
+    totalPrice: roundCents(data.totalPrice + transportCost),
+  };
 }
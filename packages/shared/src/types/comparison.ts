@@ -1,7 +1,10 @@
-import type { Currency, ItemCondition } from './auction';
+import type { Currency, ItemCondition, MetalAttributes, PreciousMetal, VehicleAttributes } from './auction';
 import type { NormalizedProduct, ProductSignatures, CompareSource } from './normalization';
 
-export type ItemCategory = 'product' | 'vehicle';
+/** Registered item categories (see CATEGORY_REGISTRY for their search strategies) */
+export const ITEM_CATEGORIES = ['product', 'vehicle', 'machinery', 'wine', 'jewelry', 'furniture', 'art'] as const;
+
+export type ItemCategory = (typeof ITEM_CATEGORIES)[number];
 export type ExtractionConfidenceLevel = 'high' | 'medium' | 'low';
 
 export interface CompareRequest {
@@ -13,6 +16,10 @@ export interface CompareRequest {
   model?: string;
   /** Year (e.g., car model year, first circulation date) */
   year?: number;
+  /** Mileage, fuel and gearbox of a vehicle lot, used to adjust listing prices */
+  vehicle?: VehicleAttributes;
+  /** Metal, fineness and weight of a jewelry lot, used for its melt value */
+  metal?: MetalAttributes;
   /** Item condition for filtering results */
   condition?: ItemCondition;
   /** Currency for price comparison */
@@ -33,6 +40,8 @@ export interface CompareRequest {
   useNormalization?: boolean;
   /** Force a fresh fetch, bypassing cache (consumes 1 credit) */
   forceRefresh?: boolean;
+  /** Verdict margin in percent (e.g., 10 for 10%), saved as the user's preference */
+  marginPercent?: number;
 }
 
 export interface WebPriceResult {
@@ -54,10 +63,23 @@ export interface WebPriceResult {
   shippingIncluded?: boolean;
   /** Shipping cost if known */
   shippingCost?: number;
+  /** Price plus known shipping cost (what the buyer actually pays) */
+  landedCost?: number;
   /** Relevance score (0-1) based on title matching */
   relevanceScore: number;
+  /** Shopping provider that contributed this result (e.g., 'serpapi', 'ebay') */
+  provider?: string;
+  /** Whether the listing is an accessory (case, charger...) rather than a main item */
+  isAccessory?: boolean;
+  /** Search query that produced this result (set when fallback queries were tried) */
+  matchedQuery?: string;
+  /** Vehicle attributes parsed from the listing (vehicle searches only) */
+  vehicle?: VehicleAttributes;
 }
 
+/**
+ * Price statistics, computed on landed cost (price + known shipping)
+ */
 export interface PriceStats {
   /** Minimum price found */
   min: number;
@@ -69,6 +91,79 @@ export interface PriceStats {
   average: number;
   /** Number of results used for stats */
   count: number;
+  /** Relevance-weighted 10th percentile (robust "lowest" price) */
+  p10?: number;
+  /** Relevance-weighted 25th percentile */
+  p25?: number;
+  /** Relevance-weighted 75th percentile */
+  p75?: number;
+  /** Relevance-weighted 90th percentile */
+  p90?: number;
+  /** Number of results rejected as price outliers */
+  outlierCount?: number;
+}
+
+/** Condition group of a web result */
+export type ResultCondition = 'new' | 'used' | 'refurbished';
+
+/**
+ * Typical resale value as a fraction of the new price (e.g., 0.65 = 65%),
+ * used to adjust prices when no results match the lot's condition
+ */
+export interface DepreciationFactors {
+  used: number;
+  refurbished: number;
+}
+
+/**
+ * Price group the verdict was computed against
+ */
+export interface VerdictBasis {
+  /** Condition group used ('all' when the lot condition is unknown) */
+  condition: ResultCondition | 'all';
+  /** Whether prices are new prices adjusted by a depreciation factor */
+  adjusted: boolean;
+  /** Depreciation factor applied to new prices (when adjusted) */
+  depreciationFactor?: number;
+  /** Mileage/year regression applied to vehicle listing prices (when adjusted) */
+  vehicleAdjustment?: VehicleAdjustment;
+  /** Wine lots: stats and verdict are per bottle */
+  perBottle?: PerBottleBasis;
+  /** Stats of the group used for the verdict */
+  stats: PriceStats;
+}
+
+/**
+ * Mileage/year regression fitted over vehicle listings
+ * Each listing price is moved to the lot's mileage and year before stats are computed.
+ */
+export interface VehicleAdjustment {
+  /** Price change per 10,000 km (negative: more km, lower price) */
+  per10000Km?: number;
+  /** Price change per model year (positive: newer, higher price) */
+  perYear?: number;
+  /** Listings the regression was fitted on */
+  sampleSize: number;
+  /** Listings dropped for another fuel or gearbox */
+  excludedCount: number;
+  /** Listings dropped for lacking the mileage or year the fit adjusts on */
+  unadjustedCount: number;
+}
+
+/**
+ * Per-bottle comparison of a wine or spirits lot
+ * The auction total (fees included) is split over the lot's bottles and
+ * listing prices over the bottles they sell.
+ */
+export interface PerBottleBasis {
+  /** Bottles in the lot */
+  bottleCount: number;
+  /** Bottle size of the lot in centilitres, if known */
+  bottleSizeCl?: number;
+  /** Auction cost of one bottle, fees included */
+  auctionPrice: number;
+  /** Listings dropped for another bottle size or vintage */
+  excludedCount: number;
 }
 
 export type ConfidenceLevel = 'high' | 'medium' | 'low';
@@ -82,6 +177,30 @@ export interface Verdict {
   margin: number;
   /** Human-readable explanation */
   reason: string;
+  /** Margin percentage used for the "worth it" threshold (e.g., 10 for 10%) */
+  marginPercent: number;
+  /** The auction price is below the lot's melt value (precious-metal lots) */
+  belowMeltValue?: boolean;
+}
+
+/**
+ * Value of a lot's precious metal at the stored spot price
+ * A floor for jewelry lots, whose retail listings vary widely.
+ */
+export interface MeltValue {
+  metal: PreciousMetal;
+  /** Fineness in thousandths */
+  fineness: number;
+  /** Weight in grams */
+  weightGrams: number;
+  /** Weight is gross: the melt value is an upper bound */
+  grossWeight?: boolean;
+  /** Price of one gram of pure metal */
+  pricePerGram: number;
+  /** Melt value of the lot, in the request currency */
+  value: number;
+  /** When the metal price was last updated */
+  priceUpdatedAt: number;
 }
 
 /**
@@ -98,6 +217,10 @@ export interface CacheMetadata {
   expiresAt?: number;
   /** Signature used for lookup */
   signatureUsed?: string;
+  /** Served in cache-only mode (no credits): expired or outside the loose-match rules */
+  stale?: boolean;
+  /** Age of the cached data when served, in milliseconds (stale entries) */
+  ageMs?: number;
 }
 
 /**
@@ -149,6 +272,16 @@ export interface CompareResponse {
   cache?: CacheMetadata;
   /** Normalized product info */
   normalized?: NormalizedInfo;
+  /** Results excluded from the stats as price outliers */
+  excludedResults?: WebPriceResult[];
+  /** Results excluded because they are accessories of a main-item lot, or the reverse */
+  accessoryExcludedCount?: number;
+  /** Stats per result condition group (only non-empty groups) */
+  conditionStats?: Partial<Record<ResultCondition, PriceStats>>;
+  /** Price group the verdict was computed against */
+  verdictBasis?: VerdictBasis;
+  /** Metal value of a precious-metal lot with a stated weight, as a reference price */
+  meltValue?: MeltValue;
   /** Credits info */
   credits?: CreditsInfo;
 }
@@ -166,6 +299,86 @@ export interface CompareError {
   cacheOnlyAvailable?: boolean;
 }
 
+/**
+ * Comparison of several lots in one call (fresh fetches are charged per lot)
+ */
+export interface CompareBatchRequest {
+  /** Lots to compare */
+  items: CompareRequest[];
+  /** Verdict margin for every lot, in percent */
+  marginPercent?: number;
+}
+
+export interface CompareBatchResponse {
+  success: true;
+  /** One response or error per requested lot, in request order */
+  items: Array<CompareResponse | CompareError>;
+  /** Credits left after the batch */
+  credits: CreditsInfo;
+}
+
+/**
+ * Cache-only lookup for several lots at once (sale catalog pages)
+ */
+export interface CachedCompareRequest {
+  /** Lots to look up */
+  items: CompareRequest[];
+}
+
+export type CachedCompareStatus = 'hit' | 'miss' | 'invalid';
+
+export interface CachedCompareItem {
+  /** Lot URL of the requested item */
+  lotUrl?: string;
+  /** Whether a cached comparison was found */
+  status: CachedCompareStatus;
+  /** Buy recommendation from the cached results (hits only) */
+  verdict?: Verdict;
+  /** Price statistics from the cached results (hits only) */
+  stats?: PriceStats;
+  /** Confidence of the cached results (hits only) */
+  confidence?: ConfidenceLevel;
+  /** Cache metadata (hits only) */
+  cache?: CacheMetadata;
+}
+
+export interface CachedCompareResponse {
+  success: true;
+  /** One item per requested lot, in request order */
+  items: CachedCompareItem[];
+}
+
+/**
+ * User feedback on a cached web result ("not the same product")
+ */
+export interface CacheFeedbackRequest {
+  /** URL of the flagged web result */
+  resultUrl: string;
+}
+
+export interface CacheFeedbackResponse {
+  success: true;
+  /** Independent users who flagged this result */
+  flagCount: number;
+  /** Whether the result was dropped from the shared cache entry */
+  removed: boolean;
+}
+
+/**
+ * Free cache probe: where a comparison would come from and what it would cost
+ * Without credits, a stale entry is served for free (cache_stale) or the
+ * comparison is refused (no_credits).
+ */
+export type CompareProbeSource = 'cache_strict' | 'cache_loose' | 'cache_stale' | 'miss' | 'no_credits';
+
+export interface CompareProbeResponse {
+  success: true;
+  /** Cache entry that would answer the comparison, or miss for a fresh fetch */
+  source: CompareProbeSource;
+  /** Credits the comparison would consume (1 for a miss only) */
+  cost: 0 | 1;
+}
+
 /**
  * Search history entry
  */
@@ -188,6 +401,8 @@ export interface SearchHistoryEntry {
   currency: string | null;
   /** How result was obtained */
   compareSource: CompareSource;
+  /** Loose product signature (for price trends) */
+  signatureLoose?: string;
   /** Price stats at time of search */
   stats?: {
     min: number;
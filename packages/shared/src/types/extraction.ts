@@ -0,0 +1,61 @@
+/**
+ * Price type the AI extraction resolver can pick
+ */
+export type ResolvedPriceType = 'current_bid' | 'starting_price' | 'estimate' | 'sold' | 'unknown';
+
+/**
+ * Title candidate sent to the AI extraction resolver
+ */
+export interface ExtractTitleCandidate {
+  text: string;
+  /** Label text around the element */
+  context: string;
+  score: number;
+  /** Structural path of the element (tag:nth-of-type chain) */
+  cssPath: string;
+}
+
+/**
+ * Price candidate sent to the AI extraction resolver
+ */
+export interface ExtractPriceCandidate {
+  text: string;
+  /** Label text around the element */
+  context: string;
+  value: number | null;
+  score: number;
+  priceType: string;
+  /** Structural path of the element (tag:nth-of-type chain) */
+  cssPath: string;
+}
+
+/**
+ * Request to resolve a lot page's title and price when heuristics have low confidence
+ */
+export interface ExtractResolveRequest {
+  domain: string;
+  url: string;
+  titleCandidates: ExtractTitleCandidate[];
+  priceCandidates: ExtractPriceCandidate[];
+  config?: {
+    id: string;
+    name: string;
+    locale: string;
+    currency: string;
+  };
+}
+
+/**
+ * AI extraction resolver response
+ */
+export interface ExtractResolveResponse {
+  success: boolean;
+  title?: string;
+  titleCssPath?: string;
+  priceCssPath?: string;
+  priceType?: ResolvedPriceType;
+  matchedKeywords?: string[];
+  /** Whether the resolution came from a previous page with the same template */
+  cached?: boolean;
+  error?: string;
+}
@@ -0,0 +1,75 @@
+import type { Currency } from './auction';
+
+/**
+ * Final sale ("adjugé") captured on a closed lot
+ */
+export interface RecordAuctionResultRequest {
+  /** Lot URL (one result per lot) */
+  lotUrl: string;
+  /** Domain of the auction site */
+  siteDomain: string;
+  /** Item title from the auction */
+  title: string;
+  /** Final hammer price (before buyer fees) */
+  hammerPrice: number;
+  /** Hammer price with buyer fees, when known */
+  totalPrice?: number;
+  /** Currency of the auction */
+  currency: Currency;
+  /** Item category */
+  category?: string;
+  /** Strict product signature from the last comparison */
+  signatureStrict?: string;
+  /** Loose product signature from the last comparison */
+  signatureLoose?: string;
+}
+
+/**
+ * Hammer price statistics for a group of closed lots
+ */
+export interface AuctionResultAggregate {
+  /** Group key (domain or category) */
+  key: string;
+  /** Currency of the prices */
+  currency: Currency;
+  /** Number of closed lots */
+  count: number;
+  /** Median hammer price */
+  median: number;
+  /** Lowest hammer price */
+  min: number;
+  /** Highest hammer price */
+  max: number;
+}
+
+/**
+ * Hammer prices of lots similar to the one being viewed
+ */
+export interface SimilarSales extends Omit<AuctionResultAggregate, 'key'> {
+  /** Site the lots were sold on */
+  domain: string;
+  /** Whether lots matched on product signature or only on category */
+  matchedOn: 'signature' | 'category';
+}
+
+/**
+ * Auction results API response
+ */
+export interface AuctionResultsResponse {
+  success: true;
+  /** Aggregates per auction site */
+  byDomain: AuctionResultAggregate[];
+  /** Aggregates per item category */
+  byCategory: AuctionResultAggregate[];
+  /** Similar lots on the requested site (when domain and signature or category are given) */
+  similar: SimilarSales | null;
+}
+
+/**
+ * Response after recording a final sale
+ */
+export interface RecordAuctionResultResponse {
+  success: true;
+  /** Recorded result ID */
+  id: string;
+}
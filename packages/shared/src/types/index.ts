@@ -3,3 +3,7 @@ export * from './comparison';
 export * from './adapter';
 export * from './auth';
 export * from './normalization';
+export * from './watchlist';
+export * from './trends';
+export * from './hammer';
+export * from './extraction';
@@ -1,4 +1,4 @@
-import type { ExtractionConfidence } from './auction';
+import type { ExtractionConfidence, WineAttributes } from './auction';
 
 // Re-export for convenience
 export type { ExtractionConfidence };
@@ -129,6 +129,8 @@ export interface NormalizedResult {
   isAccessory: boolean;
   /** Product category */
   category: string | null;
+  /** Wine or spirits attributes (wine lots only) */
+  wine?: WineAttributes;
   /** Primary search query to use */
   query: string;
   /** Alternative queries to try if primary yields poor results */
@@ -0,0 +1,31 @@
+/**
+ * Time bucket size for price trends
+ */
+export type TrendBucket = 'day' | 'week';
+
+/**
+ * Web prices observed for a product during one time bucket
+ */
+export interface PriceTrendPoint {
+  /** Start of the bucket (ISO date) */
+  bucketStart: string;
+  /** Median of the observed web medians */
+  median: number;
+  /** Lowest observed web price */
+  min: number;
+  /** Number of fresh fetches in the bucket */
+  observations: number;
+}
+
+/**
+ * Price trend API response
+ */
+export interface PriceTrendResponse {
+  success: true;
+  /** Loose product signature the trend is for */
+  signature: string;
+  /** Bucket size */
+  bucket: TrendBucket;
+  /** Points in chronological order (empty buckets omitted) */
+  points: PriceTrendPoint[];
+}
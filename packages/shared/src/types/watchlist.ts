@@ -0,0 +1,81 @@
+import type { Currency, MetalAttributes, VehicleAttributes } from './auction';
+import type { ItemCategory, VerdictStatus } from './comparison';
+import type { ConditionGrade } from './normalization';
+
+/**
+ * Request to add a lot to the watchlist (or refresh its latest known bid)
+ */
+export interface WatchLotRequest {
+  /** Lot URL (unique per user) */
+  lotUrl: string;
+  /** Domain of the auction site */
+  siteDomain: string;
+  /** Item title from the auction */
+  title: string;
+  /** Latest known auction total price (including fees) */
+  auctionPrice: number;
+  /** Currency of the auction */
+  currency: Currency;
+  /** Strict cache signature from the last comparison */
+  signatureStrict: string;
+  /** Loose cache signature from the last comparison */
+  signatureLoose: string;
+  /** Lot condition grade from the last comparison */
+  conditionGrade?: ConditionGrade;
+  /** Verdict shown to the user when the lot was watched */
+  verdictStatus?: VerdictStatus;
+  /** Category the lot was compared in */
+  category?: ItemCategory;
+  /** Year of the lot (vehicles) */
+  year?: number;
+  /** Vehicle attributes of the lot, for the mileage and year adjustment */
+  vehicle?: VehicleAttributes;
+  /** Metal attributes of the lot, for the melt value */
+  metal?: MetalAttributes;
+}
+
+/**
+ * Watched lot returned by the API
+ */
+export interface WatchedLot {
+  /** Entry ID */
+  id: string;
+  /** Lot URL */
+  lotUrl: string;
+  /** Auction site domain */
+  domain: string;
+  /** Item title */
+  title: string;
+  /** Latest known auction total price */
+  auctionPrice: number;
+  /** Currency */
+  currency: Currency;
+  /** Verdict at the last check */
+  verdictStatus: VerdictStatus | null;
+  /** Verdict before the last change */
+  previousVerdictStatus: VerdictStatus | null;
+  /** When the verdict last changed */
+  verdictChangedAt: string | null;
+  /** When the server last re-checked the lot */
+  lastCheckedAt: string | null;
+  /** When the lot was added */
+  createdAt: string;
+}
+
+/**
+ * Watchlist API response
+ */
+export interface WatchlistResponse {
+  success: true;
+  /** Watched lots, most recent first */
+  lots: WatchedLot[];
+}
+
+/**
+ * Response after watching a lot (or updating its bid)
+ */
+export interface WatchLotResponse {
+  success: true;
+  /** Watched lot with its re-checked verdict */
+  lot: WatchedLot;
+}
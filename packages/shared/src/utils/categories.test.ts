@@ -0,0 +1,25 @@
+import { describe, expect, test } from 'bun:test';
+import { detectCategoryFromText } from './categories';
+import { isWineTitle } from './wine';
+
+describe('detectCategoryFromText', () => {
+  test('detects categories from titles and breadcrumbs', () => {
+    expect(detectCategoryFromText('Renault Clio IV voiture particulière')).toBe('vehicle');
+    expect(detectCategoryFromText('Montre Rolex Submariner acier')).toBe('jewelry');
+    expect(detectCategoryFromText('Champagne Dom Pérignon 2012')).toBe('wine');
+    expect(detectCategoryFromText('Accueil | Bijoux | Bagues')).toBe('jewelry');
+  });
+
+  test('ignores words that are part of a brand or another item', () => {
+    expect(detectCategoryFromText('Bague Van Cleef & Arpels Alhambra or jaune')).toBe('jewelry');
+    expect(detectCategoryFromText('Apple Watch Series 8 45mm')).toBeUndefined();
+    expect(detectCategoryFromText('Ring Video Doorbell 4')).toBeUndefined();
+    expect(detectCategoryFromText('Machine à café Delonghi Magnifica')).toBeUndefined();
+    expect(detectCategoryFromText('Canapé couleur champagne 3 places')).toBe('furniture');
+    expect(detectCategoryFromText('Cave à vin Liebherr 200 bouteilles')).toBeUndefined();
+  });
+
+  test('a wine fridge is not a wine lot', () => {
+    expect(isWineTitle('Cave à vin Liebherr 200 bouteilles')).toBe(false);
+  });
+});
@@ -0,0 +1,200 @@
+import type { ItemCategory } from '../types/comparison';
+
+/**
+ * How lots of a category are searched, filtered and judged
+ */
+export interface CategoryStrategy {
+  /** Provider search mode: vehicles are searched on car marketplaces */
+  searchMode: 'product' | 'vehicle';
+  /** Minimum relevance score for a result to count */
+  relevanceThreshold: number;
+  /** Title words kept in the query because they move the price (materials, formats, techniques) */
+  queryQualifiers: string[];
+  /** Add the lot's year to the query (vintages) */
+  queryIncludesYear: boolean;
+  /** Result title words marking another kind of item, unless the lot title has them too */
+  excludedResultTerms: string[];
+  /** Results priced below this fraction of the auction price are dropped (0 keeps all) */
+  minPriceRatio: number;
+  /** Lowest verdict margin in percent: wide price spreads need a larger gap to call a deal */
+  minMarginPct: number;
+  /** Drop results of the other class than the lot (an iPhone case for an iPhone) */
+  filtersAccessories: boolean;
+}
+
+export interface CategoryDefinition {
+  id: ItemCategory;
+  /** Words in breadcrumbs, titles or normalizer output that identify the category */
+  keywords: string[];
+  /** Phrases holding a keyword that name something else ("cave à vin" is a fridge) */
+  ignoredPhrases?: string[];
+  strategy: CategoryStrategy;
+}
+
+const DEFAULT_STRATEGY: CategoryStrategy = {
+  searchMode: 'product',
+  relevanceThreshold: 0.25,
+  queryQualifiers: [],
+  queryIncludesYear: false,
+  excludedResultTerms: [],
+  minPriceRatio: 0,
+  minMarginPct: 0,
+  filtersAccessories: true,
+};
+
+/**
+ * Category registry, in detection order (first keyword match wins)
+ * Adding a category means adding its id to ITEM_CATEGORIES and an entry here.
+ */
+export const CATEGORY_REGISTRY: Record<ItemCategory, CategoryDefinition> = {
+  vehicle: {
+    id: 'vehicle',
+    keywords: [
+      'véhicule', 'véhicules', 'vehicule', 'vehicules', 'voiture', 'voitures', 'automobile', 'automobiles',
+      'utilitaire', 'utilitaires', 'camion', 'fourgon', 'moto', 'motos', 'scooter', 'camping-car',
+      'vehicle', 'vehicles', 'truck', 'motorcycle',
+    ],
+    strategy: {
+      ...DEFAULT_STRATEGY,
+      searchMode: 'vehicle',
+      relevanceThreshold: 0.15,
+      // Damaged or mislisted cars: a price far below the lot is not the same vehicle
+      minPriceRatio: 0.2,
+      // "Batterie louée", "support" or "câble" describe the car, not an accessory
+      filtersAccessories: false,
+    },
+  },
+  machinery: {
+    id: 'machinery',
+    keywords: [
+      'matériel industriel', 'materiel industriel', 'machine-outil', 'machines-outils', 'machine industrielle',
+      'machines industrielles', 'engin', 'engins', 'btp',
+      'chariot élévateur', 'chariot elevateur', 'nacelle', 'tracteur', 'tracteurs', 'pelleteuse', 'mini-pelle',
+      'machinery', 'equipment', 'forklift', 'excavator',
+    ],
+    strategy: {
+      ...DEFAULT_STRATEGY,
+      relevanceThreshold: 0.2,
+      queryQualifiers: ['diesel', 'électrique', 'electrique', 'thermique', 'gaz', 'electric'],
+      excludedResultTerms: ['notice', 'manuel', 'manual', 'miniature', 'jouet', 'toy', 'pièce détachée', 'spare part'],
+      minMarginPct: 10,
+    },
+  },
+  wine: {
+    id: 'wine',
+    keywords: [
+      'vin', 'vins', 'champagne', 'champagnes', 'spiritueux', 'grand cru', 'cognac', 'whisky',
+      'wine', 'wines', 'spirits',
+    ],
+    ignoredPhrases: [
+      'cave à vin', 'cave a vin', 'cave de vieillissement', 'armoire à vin', 'wine cooler', 'wine fridge',
+      'couleur champagne', 'coloris champagne', 'champagne color', 'champagne colour',
+    ],
+    strategy: {
+      ...DEFAULT_STRATEGY,
+      queryQualifiers: ['magnum', 'jéroboam', 'jeroboam', 'demi-bouteille', 'grand cru classé', 'grand cru', 'premier cru', '1er cru'],
+      queryIncludesYear: true,
+      excludedResultTerms: ['étiquette', 'etiquette', 'vide', 'empty', 'label'],
+      minMarginPct: 10,
+      filtersAccessories: false,
+    },
+  },
+  jewelry: {
+    id: 'jewelry',
+    keywords: [
+      'bijou', 'bijoux', 'joaillerie', 'bague', 'collier', 'bracelet', 'broche', 'montre', 'montres', 'horlogerie',
+      'jewelry', 'jewellery', 'necklace', 'wristwatch',
+    ],
+    ignoredPhrases: ['apple watch', 'galaxy watch', 'montre connectée', 'montre connectee', 'bracelet connecté'],
+    strategy: {
+      ...DEFAULT_STRATEGY,
+      relevanceThreshold: 0.2,
+      queryQualifiers: ['or jaune', 'or blanc', 'or rose', 'platine', 'argent', 'diamant', 'diamants', 'saphir', 'émeraude', 'rubis', 'perles', '18 carats', '18k'],
+      excludedResultTerms: ['fantaisie', 'plaqué', 'plaque or', 'costume', 'plated', 'boîte vide', 'écrin', 'empty box'],
+      minMarginPct: 15,
+    },
+  },
+  art: {
+    id: 'art',
+    keywords: [
+      'tableau', 'tableaux', 'peinture', 'peintures', 'beaux-arts', 'art moderne', 'art contemporain', 'sculpture',
+      'sculptures', 'lithographie', 'gravure', 'estampe', 'estampes', 'dessin', 'dessins', 'painting', 'drawing', 'fine art',
+    ],
+    strategy: {
+      ...DEFAULT_STRATEGY,
+      relevanceThreshold: 0.2,
+      queryQualifiers: ['huile sur toile', 'huile sur panneau', 'aquarelle', 'gouache', 'lithographie', 'gravure', 'bronze', 'sculpture', 'oil on canvas'],
+      excludedResultTerms: ['reproduction', 'poster', 'affiche', 'impression', 'carte postale', 'postcard', 'puzzle'],
+      minMarginPct: 20,
+    },
+  },
+  furniture: {
+    id: 'furniture',
+    keywords: [
+      'mobilier', 'meuble', 'meubles', 'commode', 'armoire', 'fauteuil', 'fauteuils', 'canapé', 'buffet', 'vaisselier',
+      'furniture',
+    ],
+    strategy: {
+      ...DEFAULT_STRATEGY,
+      relevanceThreshold: 0.2,
+      queryQualifiers: ['louis xv', 'louis xvi', 'art déco', 'napoléon iii', 'empire', 'chêne', 'noyer', 'acajou', 'teck', 'merisier'],
+      excludedResultTerms: ['miniature', 'maison de poupée', 'dollhouse', 'housse', 'cover'],
+      minMarginPct: 15,
+    },
+  },
+  product: {
+    id: 'product',
+    keywords: [],
+    strategy: DEFAULT_STRATEGY,
+  },
+};
+
+/**
+ * Whether a string is a registered category id
+ */
+export function isItemCategory(value: unknown): value is ItemCategory {
+  return typeof value === 'string' && Object.hasOwn(CATEGORY_REGISTRY, value);
+}
+
+/**
+ * Strategy of a category, falling back to generic products
+ */
+export function getCategoryStrategy(category?: string | null): CategoryStrategy {
+  return isItemCategory(category) ? CATEGORY_REGISTRY[category].strategy : DEFAULT_STRATEGY;
+}
+
+/**
+ * Word-boundary pattern of a lowercase term
+ */
+function termPattern(term: string, flags = 'u'): RegExp {
+  const escaped = term.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?:^|[^\\p{L}\\p{N}])${escaped}(?:$|[^\\p{L}\\p{N}])`, flags);
+}
+
+/**
+ * Whether a text contains a word or phrase on word boundaries (accents included)
+ */
+export function containsTerm(text: string, term: string): boolean {
+  return termPattern(term).test(text.toLowerCase());
+}
+
+/**
+ * Blank out phrases of a text, so their words match no keyword
+ */
+function withoutPhrases(text: string, phrases: string[]): string {
+  return phrases.reduce((rest, phrase) => rest.replace(termPattern(phrase, 'gu'), ' '), text.toLowerCase());
+}
+
+/**
+ * Detect a category from breadcrumbs, a title or normalizer output
+ * Returns undefined when no specific category matches.
+ */
+export function detectCategoryFromText(text: string): ItemCategory | undefined {
+  for (const definition of Object.values(CATEGORY_REGISTRY)) {
+    const relevant = withoutPhrases(text, definition.ignoredPhrases ?? []);
+    if (definition.keywords.some(keyword => containsTerm(relevant, keyword))) {
+      return definition.id;
+    }
+  }
+  return undefined;
+}
@@ -63,3 +63,32 @@ export function detectCurrency(priceString: string): Currency | null {
   if (priceString.includes('\u00a3') || priceString.includes('GBP')) return 'GBP';
   return null;
 }
+
+/**
+ * Parse delivery text from a listing ("Livraison gratuite",
+ * "+ 4,99 € de livraison", "Free delivery", "+$5.99 shipping")
+ * Returns an empty object when the text says nothing usable about shipping.
+ */
+export function parseDeliveryText(text?: string): { shippingIncluded?: boolean; shippingCost?: number } {
+  if (!text) return {};
+
+  const lower = text.toLowerCase();
+
+  if (/gratuit|offert|free|\b0[.,]00\s*€/.test(lower)) {
+    return { shippingIncluded: true, shippingCost: 0 };
+  }
+
+  if (!/livraison|livr[ée]|frais de port|port|delivery|shipping|postage/.test(lower)) {
+    return {};
+  }
+
+  // Only amounts next to a currency sign, so dates like "Jan 5" are ignored
+  const amount = lower.match(/[€$£]\s*(\d+(?:[.,]\d{1,2})?)|(\d+(?:[.,]\d{1,2})?)\s*(?:[€$£]|eur)/);
+  const shippingCost = amount ? parsePriceString(amount[1] ?? amount[2] ?? '') : null;
+
+  if (shippingCost === null || shippingCost < 0) {
+    return {};
+  }
+
+  return { shippingIncluded: shippingCost === 0, shippingCost };
+}
@@ -1,2 +1,7 @@
 export * from './currency';
 export * from './scoring';
+export * from './specs';
+export * from './vehicle';
+export * from './categories';
+export * from './wine';
+export * from './metal';
@@ -0,0 +1,32 @@
+import { describe, expect, test } from 'bun:test';
+import { parseMetalAttributes } from './metal';
+
+describe('parseMetalAttributes', () => {
+  test('reads metal, fineness and weight from jewelry titles', () => {
+    expect(parseMetalAttributes('Bague en or jaune 18k, poids brut : 5,2 g'))
+      .toEqual({ metal: 'gold', fineness: 750, weightGrams: 5.2, grossWeight: true });
+    expect(parseMetalAttributes('Chaîne 18k gold 3,2g')).toEqual({ metal: 'gold', fineness: 750, weightGrams: 3.2 });
+    expect(parseMetalAttributes('Gourmette argent 925, 12 grammes')).toEqual({ metal: 'silver', fineness: 925, weightGrams: 12 });
+    expect(parseMetalAttributes('Sterling silver necklace')).toEqual({ metal: 'silver', fineness: 925 });
+    expect(parseMetalAttributes('Pendentif gold 750, poids : 4 g')).toEqual({ metal: 'gold', fineness: 750, weightGrams: 4 });
+  });
+
+  test('ignores phone colors, storage and network generations', () => {
+    expect(parseMetalAttributes('Apple iPhone 13 128 Go Gold 5G')).toBeNull();
+    expect(parseMetalAttributes('Samsung Galaxy S21 5G Phantom Silver')).toBeNull();
+  });
+
+  test('an unlabeled weight of a watch or set piece is gross', () => {
+    expect(parseMetalAttributes('Montre Rolex or 18k 120 g'))
+      .toEqual({ metal: 'gold', fineness: 750, weightGrams: 120, grossWeight: true });
+    expect(parseMetalAttributes('Bague en or jaune 18k sertie d\'un diamant, 4 g'))
+      .toEqual({ metal: 'gold', fineness: 750, weightGrams: 4, grossWeight: true });
+    expect(parseMetalAttributes('Montre de poche en or 18k, poids d\'or : 35 g'))
+      .toEqual({ metal: 'gold', fineness: 750, weightGrams: 35 });
+    expect(parseMetalAttributes('Montre en or 18k, poids net 40 g')).toEqual({ metal: 'gold', fineness: 750, weightGrams: 40 });
+  });
+
+  test('a network generation is not a weight', () => {
+    expect(parseMetalAttributes('Montre or 18k 4G')).toEqual({ metal: 'gold', fineness: 750 });
+  });
+});
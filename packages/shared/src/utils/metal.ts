@@ -0,0 +1,144 @@
+import type { MetalAttributes, PreciousMetal } from '../types/auction';
+import { containsTerm } from './categories';
+
+/** Gold fineness by karat */
+const KARAT_FINENESS: Record<number, number> = {
+  9: 375,
+  14: 585,
+  18: 750,
+  22: 916,
+  24: 999,
+};
+
+/** Hallmark finenesses in thousandths, per metal */
+const HALLMARKS: Record<PreciousMetal, number[]> = {
+  gold: [375, 585, 750, 900, 916, 999],
+  silver: [800, 900, 925, 950, 999],
+  platinum: [850, 900, 950, 999],
+};
+
+/**
+ * Fineness assumed when only the metal is named: the lowest French hallmark
+ * for jewelry (18k gold, 2nd standard silver, platinum 950)
+ */
+const DEFAULT_FINENESS: Record<PreciousMetal, number> = {
+  gold: 750,
+  silver: 800,
+  platinum: 950,
+};
+
+const METAL_TERMS: Record<PreciousMetal, string[]> = {
+  gold: ['or jaune', 'or blanc', 'or gris', 'or rose', 'or rouge', 'en or', 'francs or', 'pièce or', 'lingot or', 'lingotin or'],
+  silver: ['argent', 'argent massif', 'sterling', 'vermeil'],
+  platinum: ['platine', 'platinum'],
+};
+
+/** Plated or fancy items: no metal value worth melting */
+const PLATED_TERMS = [
+  'plaqué', 'plaque or', 'métal argenté', 'metal argente', 'doublé', 'gold plated', 'gold-plated',
+  'silver plated', 'silver-plated', 'gold filled', 'gold tone', 'fantaisie',
+];
+
+const KARAT_PATTERN = /\b(9|14|18|22|24)\s*(?:k|kt|ct|carats?)\b/i;
+
+const HALLMARK_PATTERN = /\b(\d{3})\s*(?:\/\s*1000|‰|millièmes?)?(?!\d|[.,]\d)/g;
+
+/**
+ * "or 750", "gold 750", "750 gold": the bare words for gold are only trusted
+ * next to a hallmark (a "Gold" phone is a color)
+ */
+const GOLD_HALLMARK_PATTERN = /\b(?:or|gold)\s+(?:375|585|750|916|999)\b|\b(?:375|585|750|916|999)\s+gold\b/i;
+
+/** "silver 925", "925 silver": the same for silver */
+const SILVER_HALLMARK_PATTERN = /\bsilver\s+(?:800|925|950|999)\b|\b(?:800|925|950|999)(?:\s*\/\s*1000)?\s+silver\b/i;
+
+const NET_WEIGHT_PATTERN = /\b(?:poids\s+(?:net|d['’]\s*or|de\s+l['’]\s*or)|p\.?\s?n\.?|net\s+weight)\s*:?\s*(?:de\s+)?(\d+(?:[.,]\d+)?)\s*(?:g|gr|grs|grammes?|grams?)\b/i;
+const GROSS_WEIGHT_PATTERN = /\b(?:poids\s+brut|p\.?\s?b\.?|gross\s+weight)\s*:?\s*(?:de\s+)?(\d+(?:[.,]\d+)?)\s*(?:g|gr|grs|grammes?|grams?)\b/i;
+const LABELED_WEIGHT_PATTERN = /\b(?:poids|weight|pèse|pesant)\s*:?\s*(?:de\s+)?(\d+(?:[.,]\d+)?)\s*(?:g|gr|grs|grammes?|grams?)\b/i;
+const SPELLED_WEIGHT_PATTERN = /(\d+(?:[.,]\d+)?)\s*(?:gr|grs|grammes?|grams?)\b/i;
+
+/** A bare "g" ("3,2 g", "5g"), unless followed by network or storage words */
+const GRAMS_PATTERN = /(?<![\d.,])(\d+(?:[.,]\d+)?)\s*g\b(?!\s*(?:lte|volte|sim|wi-?fi|réseau|network|go|gb|ram|ssd|stockage)\b)/gi;
+
+/** Watches and set pieces: an unlabeled weight includes the movement or the stones */
+const MOUNTED_TERMS = [
+  'montre', 'montres', 'watch', 'wristwatch',
+  'monté', 'montée', 'montés', 'montées', 'serti', 'sertie', 'sertis', 'serties', 'set with',
+];
+
+/** "4G", "5G": a network generation, not grams */
+const NETWORK_GENERATION_PATTERN = /^[2-6]G$/;
+
+/**
+ * Detect the metal: gold wins (karats, "or jaune"), then silver, then platinum
+ */
+function detectMetal(text: string): PreciousMetal | undefined {
+  const hasKarats = KARAT_PATTERN.test(text) && !containsTerm(text, 'platine') && !containsTerm(text, 'platinum');
+  if (hasKarats || GOLD_HALLMARK_PATTERN.test(text)) {
+    return 'gold';
+  }
+  if (SILVER_HALLMARK_PATTERN.test(text)) {
+    return 'silver';
+  }
+  return (Object.keys(METAL_TERMS) as PreciousMetal[])
+    .find(metal => METAL_TERMS[metal].some(term => containsTerm(text, term)));
+}
+
+/**
+ * Read the fineness from karats or a hallmark of the metal ("750", "925/1000")
+ */
+function detectFineness(text: string, metal: PreciousMetal): number {
+  const karat = parseInt(text.match(KARAT_PATTERN)?.[1] ?? '', 10);
+  if (metal === 'gold' && KARAT_FINENESS[karat]) return KARAT_FINENESS[karat];
+  if (metal === 'silver' && containsTerm(text, 'sterling')) return 925;
+
+  for (const match of text.matchAll(HALLMARK_PATTERN)) {
+    const value = parseInt(match[1] ?? '', 10);
+    if (HALLMARKS[metal].includes(value)) return value;
+  }
+  return DEFAULT_FINENESS[metal];
+}
+
+/**
+ * Parse a weight in grams, net weight ("poids net", "poids d'or") first
+ * Only a labeled weight or a gram unit counts, so "128 Go" or "5G" never do.
+ * Other weights of watches and set pieces are gross.
+ */
+function detectWeight(text: string): Pick<MetalAttributes, 'weightGrams' | 'grossWeight'> {
+  const toGrams = (value?: string) => parseFloat((value ?? '').replace(',', '.'));
+
+  const net = text.match(NET_WEIGHT_PATTERN);
+  if (net) return { weightGrams: toGrams(net[1]) };
+
+  const gross = text.match(GROSS_WEIGHT_PATTERN);
+  if (gross) return { weightGrams: toGrams(gross[1]), grossWeight: true };
+
+  const weight = text.match(LABELED_WEIGHT_PATTERN) ?? text.match(SPELLED_WEIGHT_PATTERN) ??
+    [...text.matchAll(GRAMS_PATTERN)].find(match => !NETWORK_GENERATION_PATTERN.test(match[0]));
+  if (!weight) return {};
+
+  return MOUNTED_TERMS.some(term => containsTerm(text, term))
+    ? { weightGrams: toGrams(weight[1]), grossWeight: true }
+    : { weightGrams: toGrams(weight[1]) };
+}
+
+/**
+ * Parse metal, fineness and weight from a jewelry title or description
+ * ("Bague en or jaune 18k, poids brut : 5,2 g")
+ * Returns null for non-metal and plated items.
+ */
+export function parseMetalAttributes(text: string): MetalAttributes | null {
+  if (PLATED_TERMS.some(term => containsTerm(text, term))) return null;
+
+  const metal = detectMetal(text);
+  if (!metal) return null;
+
+  const { weightGrams, grossWeight } = detectWeight(text);
+
+  return {
+    metal,
+    fineness: detectFineness(text, metal),
+    ...(weightGrams && weightGrams > 0 && { weightGrams }),
+    ...(weightGrams && grossWeight && { grossWeight }),
+  };
+}
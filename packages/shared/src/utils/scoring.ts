@@ -1,13 +1,30 @@
 import type {
   ConfidenceLevel,
+  DepreciationFactors,
   PriceStats,
+  ResultCondition,
   Verdict,
+  VerdictBasis,
   VerdictStatus,
   WebPriceResult,
 } from '../types/comparison';
+import type { SpecMatchOptions } from './specs';
+import { extractTitleSpecs, findSpecMismatches } from './specs';
 
 /** Default margin percentage for verdict calculation */
-const DEFAULT_MARGIN_PCT = 0.10; // 10%
+export const DEFAULT_MARGIN_PCT = 0.10; // 10%
+
+/** Default resale value of used/refurbished items as a fraction of new price */
+export const DEFAULT_DEPRECIATION_FACTORS: DepreciationFactors = {
+  used: 0.65,
+  refurbished: 0.8,
+};
+
+/** Tukey fence multiplier for IQR outlier rejection */
+const OUTLIER_IQR_MULTIPLIER = 1.5;
+
+/** Minimum results needed before rejecting outliers */
+const OUTLIER_MIN_RESULTS = 4;
 
 /** Minimum results needed for high confidence */
 const HIGH_CONFIDENCE_MIN_RESULTS = 5;
@@ -15,6 +32,9 @@ const HIGH_CONFIDENCE_MIN_RESULTS = 5;
 /** Minimum average relevance for high confidence */
 const HIGH_CONFIDENCE_MIN_RELEVANCE = 0.7;
 
+/** Relevance multiplier per contradicting spec (hard penalty) */
+const SPEC_MISMATCH_FACTOR = 0.2;
+
 /**
  * Calculate relevance score between auction title and web result title
  * Returns a value between 0 and 1
@@ -57,29 +77,236 @@ export function calculateRelevanceScore(
 }
 
 /**
- * Calculate price statistics from web results
+ * Relevance score with spec checks on top of word overlap
+ * Each contradicting attribute (capacity, Pro/Max variant, generation, screen
+ * size, year) divides the score by 5, so "iPhone 13 128GB" vs "iPhone 13 Pro
+ * 256GB" falls below the relevance thresholds despite sharing most words.
  */
-export function calculatePriceStats(results: WebPriceResult[]): PriceStats {
+export function calculateSpecRelevanceScore(
+  auctionTitle: string,
+  resultTitle: string,
+  options: SpecMatchOptions = {}
+): number {
+  const baseScore = calculateRelevanceScore(auctionTitle, resultTitle);
+  const mismatches = findSpecMismatches(
+    extractTitleSpecs(auctionTitle),
+    extractTitleSpecs(resultTitle),
+    options
+  );
+
+  return baseScore * SPEC_MISMATCH_FACTOR ** mismatches.length;
+}
+
+/**
+ * Landed cost of a result: price plus known shipping
+ * Falls back to the listed price when shipping is unknown.
+ */
+export function getLandedCost(result: WebPriceResult): number {
+  if (result.landedCost !== undefined) return result.landedCost;
+  if (result.shippingIncluded || !result.shippingCost) return result.price;
+  return Math.round((result.price + result.shippingCost) * 100) / 100;
+}
+
+/**
+ * Unweighted percentile (linear interpolation) of sorted values
+ */
+function percentile(sorted: number[], p: number): number {
+  const pos = (sorted.length - 1) * p;
+  const lower = sorted[Math.floor(pos)] ?? 0;
+  const upper = sorted[Math.ceil(pos)] ?? lower;
+  return lower + (upper - lower) * (pos - Math.floor(pos));
+}
+
+/**
+ * Median of a list of values (0 when empty)
+ */
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  return percentile([...values].sort((a, b) => a - b), 0.5);
+}
+
+/**
+ * Relevance-weighted percentile of result prices
+ * Each price sits at the midpoint of its cumulative weight; values between
+ * points are linearly interpolated.
+ */
+export function weightedPercentile(results: WebPriceResult[], p: number): number {
+  const points = results
+    .map(r => ({ price: getLandedCost(r), weight: Math.max(r.relevanceScore, 0.01) }))
+    .sort((a, b) => a.price - b.price);
+  const totalWeight = points.reduce((acc, pt) => acc + pt.weight, 0);
+
+  let cumulative = 0;
+  let previous: { price: number; position: number } | null = null;
+
+  for (const pt of points) {
+    const position = (cumulative + pt.weight / 2) / totalWeight;
+    cumulative += pt.weight;
+
+    if (p <= position) {
+      if (!previous) return pt.price;
+      const ratio = (p - previous.position) / (position - previous.position);
+      return previous.price + (pt.price - previous.price) * ratio;
+    }
+    previous = { price: pt.price, position };
+  }
+
+  return previous?.price ?? 0;
+}
+
+/**
+ * Split results into kept results and price outliers (IQR / Tukey fences)
+ * Too few results to estimate a spread are all kept.
+ */
+export function rejectOutliers(results: WebPriceResult[]): {
+  kept: WebPriceResult[];
+  outliers: WebPriceResult[];
+} {
+  if (results.length < OUTLIER_MIN_RESULTS) {
+    return { kept: results, outliers: [] };
+  }
+
+  const prices = results.map(getLandedCost).sort((a, b) => a - b);
+  const q1 = percentile(prices, 0.25);
+  const q3 = percentile(prices, 0.75);
+  const iqr = q3 - q1;
+  const lowerFence = q1 - OUTLIER_IQR_MULTIPLIER * iqr;
+  const upperFence = q3 + OUTLIER_IQR_MULTIPLIER * iqr;
+
+  const kept: WebPriceResult[] = [];
+  const outliers: WebPriceResult[] = [];
+  for (const result of results) {
+    const landedCost = getLandedCost(result);
+    if (landedCost < lowerFence || landedCost > upperFence) {
+      outliers.push(result);
+    } else {
+      kept.push(result);
+    }
+  }
+
+  return { kept, outliers };
+}
+
+/**
+ * Calculate price statistics (on landed cost) from web results
+ * Pass results already cleaned by rejectOutliers, with the number of
+ * rejected outliers.
+ */
+export function calculatePriceStats(results: WebPriceResult[], outlierCount: number = 0): PriceStats {
   if (results.length === 0) {
-    return { min: 0, max: 0, median: 0, average: 0, count: 0 };
+    return { min: 0, max: 0, median: 0, average: 0, count: 0, outlierCount };
   }
 
-  const prices = results.map(r => r.price).sort((a, b) => a - b);
+  const prices = results.map(getLandedCost).sort((a, b) => a - b);
   const sum = prices.reduce((acc, p) => acc + p, 0);
 
   const median = prices.length % 2 === 0
     ? (prices[prices.length / 2 - 1] + prices[prices.length / 2]) / 2
     : prices[Math.floor(prices.length / 2)];
 
+  const round = (value: number) => Math.round(value * 100) / 100;
+
   return {
     min: prices[0],
     max: prices[prices.length - 1],
     median: Math.round(median * 100) / 100,
     average: Math.round((sum / prices.length) * 100) / 100,
     count: prices.length,
+    p10: round(weightedPercentile(results, 0.10)),
+    p25: round(weightedPercentile(results, 0.25)),
+    p75: round(weightedPercentile(results, 0.75)),
+    p90: round(weightedPercentile(results, 0.90)),
+    outlierCount,
   };
 }
 
+/**
+ * Classify a result's condition text (e.g., "D'occasion", "Refurbished")
+ * Results without a condition are retail listings and count as new.
+ */
+export function classifyResultCondition(condition?: string): ResultCondition {
+  if (!condition) return 'new';
+
+  const text = normalizeText(condition);
+  if (/reconditionn|refurbish|remanufactur|renewed/.test(text)) {
+    return 'refurbished';
+  }
+  if (/occasion|used|pre owned|second|seconde main|usage/.test(text)) {
+    return 'used';
+  }
+  return 'new';
+}
+
+/**
+ * Calculate stats for each condition group that has results
+ */
+export function calculateConditionStats(
+  results: WebPriceResult[]
+): Partial<Record<ResultCondition, PriceStats>> {
+  const groups: Partial<Record<ResultCondition, WebPriceResult[]>> = {};
+  for (const result of results) {
+    const condition = classifyResultCondition(result.condition);
+    (groups[condition] ??= []).push(result);
+  }
+
+  const stats: Partial<Record<ResultCondition, PriceStats>> = {};
+  for (const [condition, groupResults] of Object.entries(groups) as [ResultCondition, WebPriceResult[]][]) {
+    stats[condition] = calculatePriceStats(groupResults);
+  }
+  return stats;
+}
+
+/**
+ * Select the price group the verdict should compare against
+ * The group matching the lot's condition grade wins; when it is empty, a
+ * used lot falls back to refurbished or new prices adjusted by the
+ * depreciation factors. Unknown lot conditions (or no usable group)
+ * compare against all results.
+ */
+export function selectVerdictBasis(
+  results: WebPriceResult[],
+  conditionGrade: string,
+  overallStats: PriceStats,
+  factors: DepreciationFactors = DEFAULT_DEPRECIATION_FACTORS
+): VerdictBasis {
+  if (conditionGrade !== 'new' && conditionGrade !== 'used') {
+    return { condition: 'all', adjusted: false, stats: overallStats };
+  }
+
+  const matching = results.filter(r => classifyResultCondition(r.condition) === conditionGrade);
+  if (matching.length > 0) {
+    return { condition: conditionGrade, adjusted: false, stats: calculatePriceStats(matching) };
+  }
+
+  if (conditionGrade === 'used') {
+    // Refurbished prices sit between new and used: scale them down to used
+    const fallbacks: [ResultCondition, number][] = [
+      ['refurbished', factors.used / factors.refurbished],
+      ['new', factors.used],
+    ];
+
+    for (const [condition, factor] of fallbacks) {
+      const groupResults = results.filter(r => classifyResultCondition(r.condition) === condition);
+      if (groupResults.length > 0) {
+        // Depreciate the item price only; shipping stays as listed
+        const adjustedResults = groupResults.map(r => ({
+          ...r,
+          price: r.price * factor,
+          landedCost: getLandedCost(r) - r.price * (1 - factor),
+        }));
+        return {
+          condition,
+          adjusted: true,
+          depreciationFactor: Math.round(factor * 100) / 100,
+          stats: calculatePriceStats(adjustedResults),
+        };
+      }
+    }
+  }
+
+  return { condition: 'all', adjusted: false, stats: overallStats };
+}
+
 /**
  * Calculate confidence level based on result quality
  */
@@ -107,19 +334,25 @@ export function calculateVerdict(
   stats: PriceStats,
   marginPct: number = DEFAULT_MARGIN_PCT
 ): Verdict {
+  const marginPercent = Math.round(marginPct * 1000) / 10;
+
   if (stats.count === 0) {
     return {
       status: 'borderline',
       margin: 0,
       reason: 'No comparable prices found',
+      marginPercent,
     };
   }
 
-  const savingsVsMin = ((stats.min - auctionPrice) / stats.min) * 100;
+  // Robust low anchor: p10 ignores a single cheap listing (falls back to
+  // min for stats cached before percentiles existed)
+  const lowPrice = stats.p10 ?? stats.min;
+  const savingsVsMin = ((lowPrice - auctionPrice) / lowPrice) * 100;
   const savingsVsMedian = ((stats.median - auctionPrice) / stats.median) * 100;
 
-  // Worth it: auction price is at least marginPct below web minimum
-  const worthItThreshold = stats.min * (1 - marginPct);
+  // Worth it: auction price is at least marginPct below the low web price
+  const worthItThreshold = lowPrice * (1 - marginPct);
   // Not worth it: auction price is above median
   const notWorthItThreshold = stats.median;
 
@@ -128,7 +361,7 @@ export function calculateVerdict(
 
   if (auctionPrice <= worthItThreshold) {
     status = 'worth_it';
-    reason = `${Math.abs(Math.round(savingsVsMin))}% below the lowest web price`;
+    reason = `${Math.abs(Math.round(savingsVsMin))}% below the low end of web prices`;
   } else if (auctionPrice > notWorthItThreshold) {
     status = 'not_worth_it';
     reason = `${Math.abs(Math.round(savingsVsMedian))}% above the median web price`;
@@ -136,9 +369,9 @@ export function calculateVerdict(
     status = 'borderline';
     const diff = Math.round(savingsVsMin);
     if (diff > 0) {
-      reason = `${diff}% below the lowest web price, but within margin`;
+      reason = `${diff}% below the low end of web prices, but within margin`;
     } else {
-      reason = `${Math.abs(diff)}% above the lowest web price`;
+      reason = `${Math.abs(diff)}% above the low end of web prices`;
     }
   }
 
@@ -146,6 +379,7 @@ export function calculateVerdict(
     status,
     margin: Math.round(savingsVsMin * 10) / 10,
     reason,
+    marginPercent,
   };
 }
 
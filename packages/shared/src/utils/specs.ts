@@ -0,0 +1,153 @@
+/**
+ * Product spec extraction from listing titles
+ * Reads the attributes that tell two otherwise similar products apart
+ * (storage capacity, Pro/Max variants, generation, screen size, year) so a
+ * comparison does not price an "iPhone 13 128GB" against an "iPhone 13 Pro 256GB".
+ */
+
+export type SpecAttribute = 'capacity' | 'suffix' | 'generation' | 'screenSize' | 'year';
+
+export interface TitleSpecs {
+  /** Storage capacity in GB */
+  capacityGb: number | null;
+  /** Model variant suffixes (pro, max, plus, ultra, mini, lite) */
+  suffixes: Set<string>;
+  /** Generation numbers keyed by the word they follow ("iphone" -> 13, "s" -> 23) */
+  generations: Map<string, number>;
+  /** Screen size in inches */
+  screenSize: number | null;
+  /** Model or production year */
+  year: number | null;
+}
+
+export interface SpecMatchOptions {
+  /** Years apart still considered the same (vehicles of neighbouring years compare fine) */
+  yearTolerance?: number;
+}
+
+// Capacity patterns with normalization to GB
+const CAPACITY_PATTERNS: { pattern: RegExp; toGb: (match: RegExpMatchArray) => number }[] = [
+  // TB/To patterns
+  { pattern: /(\d+(?:[.,]\d+)?)\s*(?:tb|to)\b/i, toGb: (m) => parseFloat((m[1] ?? '').replace(',', '.')) * 1024 },
+  // GB/Go patterns
+  { pattern: /(\d+)\s*(?:gb|go)\b/i, toGb: (m) => parseInt(m[1] ?? '', 10) },
+  // MB/Mo patterns (rare but possible)
+  { pattern: /(\d+)\s*(?:mb|mo)\b/i, toGb: (m) => Math.round(parseInt(m[1] ?? '', 10) / 1024) },
+  // Bare numbers that look like common capacities
+  { pattern: /\b(16|32|64|128|256|512|1024|2048)\b(?!\s*(?:gb|go|tb|to|mb|mo|g|t|px|mp|inch|pouces?|"))/i, toGb: (m) => parseInt(m[1] ?? '', 10) },
+];
+
+const SUFFIX_PATTERN = /\b(pro|max|plus|ultra|mini|lite)\b/g;
+
+const SCREEN_SIZE_PATTERN = /(\d{1,2}(?:[.,]\d{1,2})?)\s*(?:"|''|″|-?\s*inch(?:es)?\b|-?\s*pouces?\b)/;
+
+const YEAR_PATTERN = /\b(19[5-9]\d|20[0-4]\d)\b/;
+
+/** Words followed by a number that is not a generation */
+const NON_GENERATION_WORDS = new Set(['lot', 'pack', 'set', 'de', 'of', 'for', 'pour', 'with', 'avec', 'and', 'et']);
+
+/** Units that make a number a measurement rather than a generation */
+const UNIT_AFTER_NUMBER = /^(?:gb|go|tb|to|mb|mo|g|t|mp|px|mm|cm|m|kg|w|v|mah|hz|ghz|km|ch|cv|l|ml|%|"|''|″|inch|pouces?)\b/;
+
+/**
+ * Parse capacity from text and normalize to GB
+ */
+export function parseCapacityToGb(text: string): number | null {
+  for (const { pattern, toGb } of CAPACITY_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      const gb = toGb(match);
+      // Validate reasonable capacity values
+      if (gb >= 1 && gb <= 16384) {
+        return gb;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Find generation numbers: "iphone 13", "galaxy s23", "ps5", "gen 3"
+ */
+function extractGenerations(title: string): Map<string, number> {
+  const generations = new Map<string, number>();
+  const text = title.replace(/\bg[eé]n[eé]ration\b|\bgen\b\.?/g, 'gen');
+
+  // Letters glued to a number ("s23", "ps5", "m2")
+  for (const match of text.matchAll(/\b([a-z]{1,4})(\d{1,2})\b/g)) {
+    const [, prefix = '', number = ''] = match;
+    generations.set(prefix, parseInt(number, 10));
+  }
+
+  // A word followed by a standalone number ("iphone 13", "series 7")
+  for (const match of text.matchAll(/\b([a-z]{2,})\s+(\d{1,2})\b(?!\s*[.,]\d)\s*(\S*)/g)) {
+    const [, word = '', number = '', after = ''] = match;
+    if (NON_GENERATION_WORDS.has(word) || UNIT_AFTER_NUMBER.test(after)) continue;
+    generations.set(word, parseInt(number, 10));
+  }
+
+  return generations;
+}
+
+/**
+ * Extract the distinguishing specs of a product title
+ */
+export function extractTitleSpecs(title: string): TitleSpecs {
+  const text = title.toLowerCase().replace(/(\w)\+/g, '$1 plus');
+
+  const screenMatch = text.match(SCREEN_SIZE_PATTERN);
+  const yearMatch = text.match(YEAR_PATTERN);
+
+  return {
+    capacityGb: parseCapacityToGb(text),
+    suffixes: new Set(Array.from(text.matchAll(SUFFIX_PATTERN), m => m[1] ?? '')),
+    generations: extractGenerations(text.replace(YEAR_PATTERN, ' ')),
+    screenSize: screenMatch ? parseFloat((screenMatch[1] ?? '').replace(',', '.')) : null,
+    year: yearMatch ? parseInt(yearMatch[1] ?? '', 10) : null,
+  };
+}
+
+/**
+ * List the attributes on which two titles contradict each other
+ * An attribute missing from either title is not a contradiction, except
+ * variant suffixes: "iPhone 13" and "iPhone 13 Pro" are different products.
+ */
+export function findSpecMismatches(
+  expected: TitleSpecs,
+  actual: TitleSpecs,
+  options: SpecMatchOptions = {}
+): SpecAttribute[] {
+  const mismatches: SpecAttribute[] = [];
+
+  if (expected.capacityGb !== null && actual.capacityGb !== null && expected.capacityGb !== actual.capacityGb) {
+    mismatches.push('capacity');
+  }
+
+  const suffixesDiffer = expected.suffixes.size !== actual.suffixes.size ||
+    [...expected.suffixes].some(suffix => !actual.suffixes.has(suffix));
+  if (suffixesDiffer) {
+    mismatches.push('suffix');
+  }
+
+  for (const [key, generation] of expected.generations) {
+    const other = actual.generations.get(key);
+    if (other !== undefined && other !== generation) {
+      mismatches.push('generation');
+      break;
+    }
+  }
+
+  if (expected.screenSize !== null && actual.screenSize !== null && Math.abs(expected.screenSize - actual.screenSize) > 0.1) {
+    mismatches.push('screenSize');
+  }
+
+  if (
+    expected.year !== null &&
+    actual.year !== null &&
+    Math.abs(expected.year - actual.year) > (options.yearTolerance ?? 0)
+  ) {
+    mismatches.push('year');
+  }
+
+  return mismatches;
+}
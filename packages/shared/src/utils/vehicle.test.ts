@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test';
+import type { WebPriceResult } from '../types/comparison';
+import { parseVehicleAttributes, selectVehicleBasis } from './vehicle';
+
+/**
+ * A car listing whose title carries its year and mileage
+ */
+function listing(title: string, price: number): WebPriceResult {
+  return {
+    title,
+    price,
+    priceString: `${price} €`,
+    source: 'example.com',
+    url: `https://example.com/${price}`,
+    relevanceScore: 0.8,
+    vehicle: parseVehicleAttributes(title),
+  };
+}
+
+describe('parseVehicleAttributes', () => {
+  test('reads mileage, year, fuel and gearbox from marketplace titles', () => {
+    expect(parseVehicleAttributes('Peugeot 308 1.5 BlueHDi 130 EAT8 - 2020 - 45 000 km - Diesel'))
+      .toEqual({ mileageKm: 45000, year: 2020, fuel: 'diesel', gearbox: 'automatic' });
+    expect(parseVehicleAttributes('Renault Clio IV 2016 98000km essence')).toEqual({ mileageKm: 98000, year: 2016, fuel: 'petrol' });
+  });
+
+  test('a model number is not part of the mileage', () => {
+    expect(parseVehicleAttributes('Peugeot 308 120 000 km').mileageKm).toBe(120000);
+    expect(parseVehicleAttributes('VW Golf 7 110 500 km').mileageKm).toBe(110500);
+    expect(parseVehicleAttributes('Audi A4 2.0 TDI 150 000 km').mileageKm).toBe(150000);
+  });
+});
+
+describe('selectVehicleBasis', () => {
+  const listings = [
+    listing('Peugeot 308 2018 - 60 000 km', 16000),
+    listing('Peugeot 308 2018 - 100 000 km', 14000),
+    listing('Peugeot 308 2019 - 80 000 km', 16000),
+    listing('Peugeot 308 2017 - 120 000 km', 12000),
+    listing('Peugeot 308 2019 - 40 000 km', 18000),
+  ];
+
+  test('moves listing prices to the lot\'s mileage and year', () => {
+    const basis = selectVehicleBasis(listings, { mileageKm: 80000, year: 2018 });
+
+    expect(basis?.adjusted).toBe(true);
+    expect(basis?.vehicleAdjustment?.sampleSize).toBe(5);
+    expect(basis?.vehicleAdjustment?.per10000Km).toBeLessThan(0);
+    expect(basis?.stats.count).toBe(5);
+  });
+
+  test('leaves out listings it cannot adjust', () => {
+    const basis = selectVehicleBasis(
+      [...listings, listing('Peugeot 308 occasion', 5000)],
+      { mileageKm: 80000, year: 2018 }
+    );
+
+    expect(basis?.vehicleAdjustment?.unadjustedCount).toBe(1);
+    expect(basis?.stats.count).toBe(5);
+    expect(basis?.stats.min).toBeGreaterThan(5000);
+  });
+
+  test('needs the lot\'s mileage or year', () => {
+    expect(selectVehicleBasis(listings, {})).toBeNull();
+  });
+});
@@ -0,0 +1,235 @@
+import type { VehicleAttributes, VehicleFuel, VehicleGearbox } from '../types/auction';
+import type { VehicleAdjustment, VerdictBasis, WebPriceResult } from '../types/comparison';
+import { calculatePriceStats, getLandedCost } from './scoring';
+
+/** Listings needed before fitting a mileage/year regression */
+const MIN_REGRESSION_RESULTS = 4;
+
+/** Highest plausible odometer reading */
+const MAX_MILEAGE_KM = 1_500_000;
+
+/** Adjusted prices never drop below this fraction of the listed price */
+const MIN_ADJUSTED_PRICE_RATIO = 0.2;
+
+// One thousands group only, so a model number is not read as millions ("308 120 000 km")
+const MILEAGE_PATTERN = /\b(\d{1,3}[\s.\u00a0\u202f]\d{3}|\d{1,7})\s*kms?\b/i;
+
+const YEAR_PATTERN = /\b(19[89]\d|20[0-4]\d)\b/;
+
+// VINs never use I, O or Q
+const VIN_LABELED_PATTERN = /\b(?:vin|n[°o]\s*(?:de\s+)?s[ée]rie|(?:n[°o]|num[ée]ro)\s*(?:de\s+)?ch[aâ]ssis)\s*[:#]?\s*([A-HJ-NPR-Z0-9]{17})\b/i;
+const VIN_PATTERN = /\b[A-HJ-NPR-Z0-9]{17}\b/g;
+
+// SIV plates (since 2009) skip I, O and U; bare plates must be hyphenated
+const REGISTRATION_LABELED_PATTERN = /immat(?:riculation)?\.?\s*[:#]?\s*([A-HJ-NP-TV-Z]{2})[\s-]?(\d{3})[\s-]?([A-HJ-NP-TV-Z]{2})\b/i;
+const REGISTRATION_PATTERN = /\b([A-HJ-NP-TV-Z]{2})-(\d{3})-([A-HJ-NP-TV-Z]{2})\b/;
+
+// Checked in order: "hybride essence" is a hybrid, "diesel" beats a "dci" engine code
+const FUEL_PATTERNS: [VehicleFuel, RegExp][] = [
+  ['hybrid', /\b(?:hybride?|phev|hev|e-hybrid)\b/i],
+  ['electric', /[ée]lectrique|\b(?:electric|elec)\b/i],
+  ['diesel', /\b(?:diesel|gazole|b?hdi|tdi|dci|crdi|d-?4d|cdi|jtd)\b/i],
+  ['lpg', /\b(?:gpl|lpg)\b/i],
+  ['petrol', /\b(?:essence|petrol|gasoline|ess|tce|tsi|tfsi|puretech|vti|thp)\b/i],
+];
+
+const GEARBOX_PATTERNS: [VehicleGearbox, RegExp][] = [
+  ['automatic', /\b(?:automatique|automatic|bo[iî]te\s+auto|bva\d*|eat\d|dsg\d*|edc|tiptronic|s[\s-]?tronic|cvt|dct)\b/i],
+  ['manual', /\b(?:manuelle|manual|bvm\d*)\b/i],
+];
+
+/**
+ * Read a fuel type from free text ("Diesel", "hybride essence", "1.5 BlueHDi")
+ */
+export function parseVehicleFuel(text: string): VehicleFuel | undefined {
+  return FUEL_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+/**
+ * Read a gearbox type from free text ("Boîte automatique", "EAT8", "BVM6")
+ */
+export function parseVehicleGearbox(text: string): VehicleGearbox | undefined {
+  return GEARBOX_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+/**
+ * Parse mileage, year, fuel and gearbox from a listing title or snippet
+ * Matches the formats of car marketplaces such as lacentrale and leboncoin
+ * ("Peugeot 308 1.5 BlueHDi 130 EAT8 - 2020 - 45 000 km - Diesel").
+ */
+export function parseVehicleAttributes(text: string): VehicleAttributes {
+  const attributes: VehicleAttributes = {};
+
+  const mileageMatch = text.match(MILEAGE_PATTERN);
+  if (mileageMatch) {
+    const mileageKm = parseInt((mileageMatch[1] ?? '').replace(/\D/g, ''), 10);
+    if (mileageKm >= 0 && mileageKm <= MAX_MILEAGE_KM) {
+      attributes.mileageKm = mileageKm;
+    }
+  }
+
+  const yearMatch = text.match(YEAR_PATTERN);
+  if (yearMatch) {
+    attributes.year = parseInt(yearMatch[1] ?? '', 10);
+  }
+
+  const fuel = parseVehicleFuel(text);
+  if (fuel) attributes.fuel = fuel;
+
+  const gearbox = parseVehicleGearbox(text);
+  if (gearbox) attributes.gearbox = gearbox;
+
+  return attributes;
+}
+
+/**
+ * Find a VIN in page text, preferring one next to a "VIN" or "N° de série" label
+ * Bare 17-character tokens must mix letters and digits to rule out lot references.
+ */
+export function extractVin(text: string): string | undefined {
+  const labeled = text.match(VIN_LABELED_PATTERN)?.[1];
+  if (labeled) return labeled.toUpperCase();
+
+  const candidate = Array.from(text.matchAll(VIN_PATTERN), m => m[0])
+    .find(token => /[A-Z]/.test(token) && /\d/.test(token));
+  return candidate;
+}
+
+/**
+ * Find a French registration plate in page text, normalized to AB-123-CD
+ */
+export function extractFrenchRegistration(text: string): string | undefined {
+  const match = text.match(REGISTRATION_LABELED_PATTERN) ?? text.match(REGISTRATION_PATTERN);
+  if (!match) return undefined;
+
+  const [, prefix = '', number = '', suffix = ''] = match;
+  return `${prefix}-${number}-${suffix}`.toUpperCase();
+}
+
+/**
+ * Whether a listing's fuel or gearbox contradicts the lot's
+ * Unknown values on either side are not a contradiction.
+ */
+function contradictsVehicle(lot: VehicleAttributes, listing?: VehicleAttributes): boolean {
+  if (!listing) return false;
+  return (!!lot.fuel && !!listing.fuel && lot.fuel !== listing.fuel) ||
+    (!!lot.gearbox && !!listing.gearbox && lot.gearbox !== listing.gearbox);
+}
+
+/**
+ * Least-squares slopes of price against one or two predictors (centered)
+ * Returns null when the predictors do not vary enough to fit.
+ */
+function fitSlopes(rows: { x: number[]; y: number }[]): number[] | null {
+  const n = rows.length;
+  const dims = rows[0]?.x.length ?? 0;
+  const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / n;
+
+  const meanY = mean(rows.map(r => r.y));
+  const meanX = Array.from({ length: dims }, (_, i) => mean(rows.map(r => r.x[i] ?? 0)));
+  const centered = rows.map(r => ({ x: r.x.map((v, i) => v - (meanX[i] ?? 0)), y: r.y - meanY }));
+
+  const sxx = (i: number, j: number) => centered.reduce((acc, r) => acc + (r.x[i] ?? 0) * (r.x[j] ?? 0), 0);
+  const sxy = (i: number) => centered.reduce((acc, r) => acc + (r.x[i] ?? 0) * r.y, 0);
+
+  if (dims === 1) {
+    const variance = sxx(0, 0);
+    return variance > 0 ? [sxy(0) / variance] : null;
+  }
+
+  const a = sxx(0, 0);
+  const b = sxx(0, 1);
+  const d = sxx(1, 1);
+  const det = a * d - b * b;
+  // Near-collinear mileage and year (older cars have more km): no stable split
+  if (Math.abs(det) <= 1e-9 * a * d || a === 0 || d === 0) return null;
+
+  return [(d * sxy(0) - b * sxy(1)) / det, (a * sxy(1) - b * sxy(0)) / det];
+}
+
+/**
+ * Fit price per km and per year over listings with known mileage and/or year
+ * Slopes with an implausible sign (price rising with km, falling with year)
+ * come from noise and are dropped.
+ */
+function fitVehicleRegression(
+  results: WebPriceResult[],
+  useMileage: boolean,
+  useYear: boolean
+): { perKm: number; perYear: number; sampleSize: number } | null {
+  const rows = results
+    .filter(r => (!useMileage || r.vehicle?.mileageKm !== undefined) && (!useYear || r.vehicle?.year !== undefined))
+    .map(r => ({
+      x: [
+        ...(useMileage ? [r.vehicle?.mileageKm ?? 0] : []),
+        ...(useYear ? [r.vehicle?.year ?? 0] : []),
+      ],
+      y: getLandedCost(r),
+    }));
+
+  if (rows.length < MIN_REGRESSION_RESULTS) return null;
+
+  const slopes = fitSlopes(rows);
+  if (!slopes) return null;
+
+  const perKm = useMileage ? Math.min(slopes[0] ?? 0, 0) : 0;
+  const perYear = useYear ? Math.max(slopes[useMileage ? 1 : 0] ?? 0, 0) : 0;
+  if (perKm === 0 && perYear === 0) return null;
+
+  return { perKm, perYear, sampleSize: rows.length };
+}
+
+/**
+ * Verdict basis for a vehicle lot: listing prices moved to the lot's mileage
+ * and year with a regression fitted over the listings themselves
+ * Listings of another fuel or gearbox are dropped first, and listings that
+ * lack a predictor of the fit after it. Returns null when the lot has no
+ * mileage or year, or the listings cannot support a fit.
+ */
+export function selectVehicleBasis(
+  results: WebPriceResult[],
+  lot: VehicleAttributes
+): VerdictBasis | null {
+  if (lot.mileageKm === undefined && lot.year === undefined) return null;
+
+  const compatible = results.filter(r => !contradictsVehicle(lot, r.vehicle));
+  const candidates = compatible.length >= MIN_REGRESSION_RESULTS ? compatible : results;
+  const excludedCount = results.length - candidates.length;
+
+  // Both predictors when possible, otherwise whichever the lot and listings share
+  const hasMileage = lot.mileageKm !== undefined;
+  const hasYear = lot.year !== undefined;
+  const fit = (hasMileage && hasYear ? fitVehicleRegression(candidates, true, true) : null) ??
+    (hasMileage ? fitVehicleRegression(candidates, true, false) : null) ??
+    (hasYear ? fitVehicleRegression(candidates, false, true) : null);
+  if (!fit) return null;
+
+  // Listings missing a predictor the fit uses cannot be moved to the lot
+  const adjustable = candidates.filter(r =>
+    (fit.perKm === 0 || r.vehicle?.mileageKm !== undefined) && (fit.perYear === 0 || r.vehicle?.year !== undefined)
+  );
+
+  const adjustedResults = adjustable.map((r) => {
+    const kmDelta = fit.perKm !== 0 ? lot.mileageKm! - r.vehicle!.mileageKm! : 0;
+    const yearDelta = fit.perYear !== 0 ? lot.year! - r.vehicle!.year! : 0;
+    const adjustment = fit.perKm * kmDelta + fit.perYear * yearDelta;
+    const price = Math.max(r.price + adjustment, r.price * MIN_ADJUSTED_PRICE_RATIO);
+
+    return { ...r, price, landedCost: getLandedCost(r) - r.price + price };
+  });
+
+  const vehicleAdjustment: VehicleAdjustment = {
+    ...(fit.perKm !== 0 && { per10000Km: Math.round(fit.perKm * 10000) }),
+    ...(fit.perYear !== 0 && { perYear: Math.round(fit.perYear) }),
+    sampleSize: fit.sampleSize,
+    excludedCount,
+    unadjustedCount: candidates.length - adjustable.length,
+  };
+
+  return {
+    condition: 'all',
+    adjusted: true,
+    vehicleAdjustment,
+    stats: calculatePriceStats(adjustedResults),
+  };
+}
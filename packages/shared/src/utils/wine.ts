@@ -0,0 +1,186 @@
+import type { WineAttributes } from '../types/auction';
+import type { WebPriceResult } from '../types/comparison';
+import { containsTerm, detectCategoryFromText } from './categories';
+
+/** Matching listings needed before other sizes and vintages are dropped */
+const MIN_MATCHING_RESULTS = 3;
+
+/** Named bottle formats in centilitres, longest names first */
+const BOTTLE_FORMATS: [string, number][] = [
+  ['double magnum', 300],
+  ['demi-bouteille', 37.5],
+  ['demi bouteille', 37.5],
+  ['nabuchodonosor', 1500],
+  ['mathusalem', 600],
+  ['salmanazar', 900],
+  ['balthazar', 1200],
+  ['impériale', 600],
+  ['réhoboam', 450],
+  ['jéroboam', 300],
+  ['jeroboam', 300],
+  ['clavelin', 62],
+  ['fillette', 37.5],
+  ['magnum', 150],
+];
+
+const VOLUME_PATTERN = /(\d+(?:[.,]\d+)?)\s*(cl|ml|l|litres?)\b/i;
+
+const BOTTLE_COUNT_PATTERNS = [
+  // "6 bouteilles", "12 btles", "3 magnums"
+  /\b(\d{1,3})\s*(?:bouteilles?|btles?|blles?|bts|bout\.|bottles?|flacons?|magnums?|demi-bouteilles?|j[ée]roboams?)\b/i,
+  // "6 x 75cl", "12×70 cl"
+  /\b(\d{1,3})\s*[x×]\s*\d+(?:[.,]\d+)?\s*(?:cl|ml|l)\b/i,
+  // "caisse de 6", "lot de 12", "case of 6" (never "Lot 12", the lot number)
+  /\b(?:caisse|carton|coffret|lot|case)\s+(?:de|of)\s+(\d{1,3})\b/i,
+];
+
+/** Words that mark a wine title among generic products */
+const BOTTLE_TERMS = /\b(?:bouteilles?|btles?|blles?|magnums?|j[ée]roboams?|fillettes?|\d+(?:[.,]\d+)?\s*cl)\b/i;
+
+const PRODUCER_PATTERN = /\b(ch[aâ]teau|domaine|clos|maison)\s+(.+)/i;
+
+const PARTICLES = new Set(['de', 'du', 'des', 'la', 'le', 'les', 'd\'', 'l\'']);
+
+const VINTAGE_PATTERN = /\b(19\d{2}|20[0-4]\d)\b/;
+
+/** Appellations and spirit types, longest first so "Haut-Médoc" wins over "Médoc" */
+const APPELLATIONS = [
+  // Bordeaux
+  'Pauillac', 'Margaux', 'Saint-Julien', 'Saint-Estèphe', 'Saint-Émilion', 'Pomerol', 'Lalande-de-Pomerol',
+  'Pessac-Léognan', 'Graves', 'Sauternes', 'Barsac', 'Haut-Médoc', 'Médoc', 'Listrac-Médoc', 'Moulis', 'Fronsac',
+  // Bourgogne
+  'Chablis', 'Meursault', 'Puligny-Montrachet', 'Chassagne-Montrachet', 'Gevrey-Chambertin', 'Vosne-Romanée',
+  'Chambolle-Musigny', 'Morey-Saint-Denis', 'Nuits-Saint-Georges', 'Pommard', 'Volnay', 'Beaune', 'Corton',
+  'Aloxe-Corton', 'Pouilly-Fuissé', 'Mercurey', 'Santenay', 'Bourgogne',
+  // Rhône
+  'Châteauneuf-du-Pape', 'Hermitage', 'Crozes-Hermitage', 'Côte-Rôtie', 'Condrieu', 'Gigondas', 'Vacqueyras',
+  'Cornas', 'Saint-Joseph', 'Côtes-du-Rhône',
+  // Loire, Alsace, others
+  'Sancerre', 'Pouilly-Fumé', 'Vouvray', 'Chinon', 'Saumur-Champigny', 'Muscadet', 'Alsace', 'Jura', 'Bandol',
+  'Cahors', 'Madiran', 'Beaujolais', 'Champagne',
+  // Spirits
+  'Cognac', 'Armagnac', 'Calvados', 'Whisky', 'Whiskey', 'Rhum', 'Porto', 'Chartreuse',
+].sort((a, b) => b.length - a.length);
+
+/**
+ * Lowercase, strip accents and turn hyphens into spaces ("Saint-Émilion" -> "saint emilion")
+ */
+function simplify(text: string): string {
+  return text.normalize('NFD').replace(/[̀-ͯ]/g, '').replace(/-/g, ' ').toLowerCase();
+}
+
+/**
+ * Read the bottle size from a volume ("75cl", "1,5 L") or a named format ("magnum")
+ */
+function parseBottleSize(text: string): number | undefined {
+  const volume = text.match(VOLUME_PATTERN);
+  if (volume) {
+    const value = parseFloat((volume[1] ?? '').replace(',', '.'));
+    const unit = (volume[2] ?? '').toLowerCase();
+    const cl = unit === 'cl' ? value : unit === 'ml' ? value / 10 : value * 100;
+    if (cl >= 5 && cl <= 3000) return cl;
+  }
+
+  return BOTTLE_FORMATS.find(([name]) => containsTerm(text, name))?.[1];
+}
+
+/**
+ * Read the number of bottles of a lot or listing (1 when not stated)
+ */
+function parseBottleCount(text: string): number {
+  for (const pattern of BOTTLE_COUNT_PATTERNS) {
+    const count = parseInt(text.match(pattern)?.[1] ?? '', 10);
+    if (count >= 1 && count <= 500) return count;
+  }
+  return 1;
+}
+
+/**
+ * Read "Château X", "Domaine Y", "Clos Z" or "Maison W": the keyword and the capitalized
+ * words after it, stopping before the appellation
+ */
+function parseProducer(text: string, appellation?: string): string | undefined {
+  const match = text.match(PRODUCER_PATTERN);
+  if (!match) return undefined;
+
+  const [, keyword = '', rest = ''] = match;
+  const tokens = rest.split(/\s+/);
+  const words: string[] = [];
+  for (const [index, word] of tokens.entries()) {
+    const isParticle = PARTICLES.has(word.toLowerCase()) || /^[dl]['’]\p{Lu}/u.test(word);
+    if (!isParticle && !/^\p{Lu}/u.test(word)) break;
+    if (appellation && simplify(tokens.slice(index).join(' ')).startsWith(simplify(appellation))) break;
+    words.push(word.replace(/[,;.]$/, ''));
+    if (/[,;]$/.test(word)) break;
+  }
+
+  while (words.length > 0 && PARTICLES.has((words[words.length - 1] ?? '').toLowerCase())) {
+    words.pop();
+  }
+  return words.length > 0 ? `${keyword} ${words.join(' ')}` : undefined;
+}
+
+/**
+ * Parse appellation, producer, vintage, bottle size and bottle count from a
+ * wine or spirits title ("6 bouteilles Château Lynch-Bages Pauillac 2015 75cl")
+ */
+export function parseWineAttributes(text: string): WineAttributes {
+  const simplified = simplify(text);
+  const appellation = APPELLATIONS.find(name => containsTerm(simplified, simplify(name)));
+
+  const currentYear = new Date().getFullYear();
+  const vintage = parseInt(text.match(VINTAGE_PATTERN)?.[1] ?? '', 10);
+
+  const producer = parseProducer(text, appellation);
+  const bottleSizeCl = parseBottleSize(text);
+
+  return {
+    ...(appellation && { appellation }),
+    ...(producer && { producer }),
+    ...(vintage <= currentYear && { vintage }),
+    ...(bottleSizeCl !== undefined && { bottleSizeCl }),
+    bottleCount: parseBottleCount(text),
+  };
+}
+
+/**
+ * Whether a generic product title is a wine or spirits lot
+ * Needs a bottle term together with an appellation, a producer or a vintage,
+ * so "Magnum" ice cream or a 50cl thermos do not qualify.
+ */
+export function isWineTitle(text: string): boolean {
+  if (detectCategoryFromText(text) === 'wine') return true;
+  if (!BOTTLE_TERMS.test(text)) return false;
+
+  const attributes = parseWineAttributes(text);
+  return !!(attributes.appellation || attributes.producer || attributes.vintage);
+}
+
+/**
+ * Listing prices split over the bottles they sell, so a case of 6 compares
+ * with one bottle of the lot
+ * Listings of another bottle size or vintage are dropped, unless fewer than
+ * MIN_MATCHING_RESULTS would remain.
+ */
+export function toPerBottleResults(
+  results: WebPriceResult[],
+  lot: WineAttributes
+): { results: WebPriceResult[]; excludedCount: number } {
+  const parsed = results.map(result => ({ result, wine: parseWineAttributes(result.title) }));
+
+  const matching = parsed.filter(({ wine }) =>
+    !(lot.bottleSizeCl && wine.bottleSizeCl && lot.bottleSizeCl !== wine.bottleSizeCl) &&
+    !(lot.vintage && wine.vintage && lot.vintage !== wine.vintage)
+  );
+  const kept = matching.length >= MIN_MATCHING_RESULTS ? matching : parsed;
+
+  return {
+    results: kept.map(({ result, wine }) => ({
+      ...result,
+      price: result.price / wine.bottleCount,
+      ...(result.landedCost !== undefined && { landedCost: result.landedCost / wine.bottleCount }),
+      ...(result.shippingCost !== undefined && { shippingCost: result.shippingCost / wine.bottleCount }),
+    })),
+    excludedCount: results.length - kept.length,
+  };
+}